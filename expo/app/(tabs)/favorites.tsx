@@ -1,19 +1,25 @@
 import { Heart } from "lucide-react-native";
 import React, { useState } from "react";
-import { FlatList, StyleSheet, Text, View } from "react-native";
+import { ActivityIndicator, FlatList, Pressable, StyleSheet, Text, View } from "react-native";
 
 import ListingCard from "@/components/ListingCard";
 import Colors from "@/constants/colors";
-import { mockListings } from "@/mocks/listings";
-import { Listing } from "@/types";
+import { useFavorites } from "@/lib/favorites";
 
 export default function FavoritesScreen() {
-  const [listings, setListings] = useState<Listing[]>(
-    mockListings.filter((l) => l.isFavorite)
-  );
+  const { favoritesQuery, isSignedOut, isFavorite, toggleFavorite } = useFavorites();
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  // Unfavorited clubs drop out straight away instead of after the refetch
+  const listings = (favoritesQuery.data ?? []).filter((listing) => isFavorite(listing.id));
 
-  const handleToggleFavorite = (id: string) => {
-    setListings((prev) => prev.filter((listing) => listing.id !== id));
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    try {
+      await favoritesQuery.refetch();
+    } finally {
+      setIsRefreshing(false);
+    }
   };
 
   return (
@@ -23,19 +29,45 @@ export default function FavoritesScreen() {
         keyExtractor={(item) => item.id}
         contentContainerStyle={styles.listContent}
         showsVerticalScrollIndicator={false}
+        refreshing={isRefreshing}
+        onRefresh={isSignedOut ? undefined : handleRefresh}
         renderItem={({ item }) => (
-          <ListingCard listing={item} onToggleFavorite={handleToggleFavorite} />
+          <ListingCard listing={item} onToggleFavorite={toggleFavorite} />
         )}
         ListEmptyComponent={
-          <View style={styles.emptyContainer}>
-            <View style={styles.emptyIcon}>
-              <Heart size={48} color={Colors.textLight} strokeWidth={1.5} />
+          favoritesQuery.isLoading ? (
+            <View style={styles.emptyContainer}>
+              <ActivityIndicator size="large" color={Colors.primary} />
+            </View>
+          ) : isSignedOut ? (
+            <View style={styles.emptyContainer}>
+              <View style={styles.emptyIcon}>
+                <Heart size={48} color={Colors.textLight} strokeWidth={1.5} />
+              </View>
+              <Text style={styles.emptyTitle}>Sign in to see favorites</Text>
+              <Text style={styles.emptyText}>
+                Clubs you save are kept with your account
+              </Text>
+            </View>
+          ) : favoritesQuery.isError ? (
+            <View style={styles.emptyContainer}>
+              <Text style={styles.emptyTitle}>Couldn&apos;t load favorites</Text>
+              <Text style={styles.emptyText}>{favoritesQuery.error.message}</Text>
+              <Pressable style={styles.retryButton} onPress={() => favoritesQuery.refetch()}>
+                <Text style={styles.retryButtonText}>Try again</Text>
+              </Pressable>
+            </View>
+          ) : (
+            <View style={styles.emptyContainer}>
+              <View style={styles.emptyIcon}>
+                <Heart size={48} color={Colors.textLight} strokeWidth={1.5} />
+              </View>
+              <Text style={styles.emptyTitle}>No favorites yet</Text>
+              <Text style={styles.emptyText}>
+                Tap the heart icon on listings to save them here
+              </Text>
             </View>
-            <Text style={styles.emptyTitle}>No favorites yet</Text>
-            <Text style={styles.emptyText}>
-              Tap the heart icon on listings to save them here
-            </Text>
-          </View>
+          )
         }
       />
     </View>
@@ -75,4 +107,16 @@ const styles = StyleSheet.create({
     textAlign: "center",
     paddingHorizontal: 40,
   },
+  retryButton: {
+    marginTop: 20,
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    backgroundColor: Colors.primary,
+    borderRadius: 12,
+  },
+  retryButtonText: {
+    fontSize: 16,
+    fontWeight: "700" as const,
+    color: Colors.background,
+  },
 });
@@ -1,7 +1,8 @@
 import { LinearGradient } from "expo-linear-gradient";
-import { MapPin, Search, SlidersHorizontal } from "lucide-react-native";
-import React, { useState } from "react";
+import { List, Map as MapIcon, MapPin, Search, SlidersHorizontal, X } from "lucide-react-native";
+import React, { useEffect, useState } from "react";
 import {
+  ActivityIndicator,
   FlatList,
   Pressable,
   ScrollView,
@@ -13,10 +14,15 @@ import {
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 
+import FilterSheet, { SheetFilters } from "@/components/FilterSheet";
 import ListingCard from "@/components/ListingCard";
+import ListingsMap from "@/components/ListingsMap";
+import SearchSuggestions from "@/components/SearchSuggestions";
 import Colors from "@/constants/colors";
-import { mockListings } from "@/mocks/listings";
-import { ClubType, Listing } from "@/types";
+import { useFavorites } from "@/lib/favorites";
+import { trpc } from "@/lib/trpc";
+import { ClubType } from "@/types";
+import type { SearchSuggestion } from "@/backend/trpc/routes/listings/search";
 
 const CLUB_TYPES: { key: ClubType; label: string }[] = [
   { key: "complete-set", label: "Complete Sets" },
@@ -27,33 +33,93 @@ const CLUB_TYPES: { key: ClubType; label: string }[] = [
   { key: "putter", label: "Putters" },
 ];
 
+// Toronto, until the app asks for the device location
+const SEARCH_CENTER = { latitude: 43.6532, longitude: -79.3832 };
+const SEARCH_RADIUS_KM = 25;
+const PAGE_SIZE = 20;
+const SEARCH_DEBOUNCE_MS = 300;
+
 export default function HomeScreen() {
   const insets = useSafeAreaInsets();
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedType, setSelectedType] = useState<ClubType | null>(null);
-  const [listings, setListings] = useState<Listing[]>(mockListings);
+  const [appliedSuggestion, setAppliedSuggestion] = useState<SearchSuggestion | null>(null);
+  const [sheetFilters, setSheetFilters] = useState<SheetFilters>({});
+  const [isFilterSheetVisible, setIsFilterSheetVisible] = useState(false);
+  const [viewMode, setViewMode] = useState<"list" | "map">("list");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const { isFavorite, toggleFavorite } = useFavorites();
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(searchQuery.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  const filters = {
+    ...appliedSuggestion?.filter,
+    ...sheetFilters,
+    clubTypes: selectedType ? [selectedType] : sheetFilters.clubTypes,
+    searchQuery: debouncedQuery || undefined,
+  };
 
-  const filteredListings = listings.filter((listing) => {
-    const matchesSearch =
-      !searchQuery ||
-      listing.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      listing.brand.toLowerCase().includes(searchQuery.toLowerCase());
-    const matchesType = !selectedType || listing.clubType === selectedType;
-    return matchesSearch && matchesType;
-  });
+  const listingsQuery = trpc.listings.search.useInfiniteQuery(
+    {
+      ...filters,
+      userLat: SEARCH_CENTER.latitude,
+      userLng: SEARCH_CENTER.longitude,
+      radiusKm: SEARCH_RADIUS_KM,
+      sortBy: debouncedQuery ? "relevance" : "distance",
+      limit: PAGE_SIZE,
+    },
+    {
+      getNextPageParam: (lastPage) => lastPage.nextCursor,
+      placeholderData: (previous) => previous,
+    }
+  );
+
+  const listings = (listingsQuery.data?.pages ?? [])
+    .flatMap((page) => page.listings)
+    .map((listing) => ({ ...listing, isFavorite: isFavorite(listing.id) }));
+  const total = listingsQuery.data?.pages[0]?.total ?? 0;
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    try {
+      await listingsQuery.refetch();
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
 
-  const handleToggleFavorite = (id: string) => {
-    setListings((prev) =>
-      prev.map((listing) =>
-        listing.id === id ? { ...listing, isFavorite: !listing.isFavorite } : listing
-      )
-    );
+  const handleEndReached = () => {
+    if (listingsQuery.hasNextPage && !listingsQuery.isFetchingNextPage) {
+      listingsQuery.fetchNextPage();
+    }
+  };
+
+  const handleSuggestionSelect = (suggestion: SearchSuggestion) => {
+    const { clubTypes, ...filter } = suggestion.filter;
+
+    // Club types map onto the category chips
+    if (clubTypes?.length) {
+      setSelectedType(clubTypes[0]);
+    }
+    setAppliedSuggestion(Object.keys(filter).length > 0 ? suggestion : null);
+    setSearchQuery("");
   };
 
   const handleFilterPress = () => {
-    console.log("Open filters");
+    setIsFilterSheetVisible(true);
   };
 
+  const handleApplyFilters = (filters: SheetFilters) => {
+    setSheetFilters(filters);
+    setIsFilterSheetVisible(false);
+  };
+
+  const activeFilterCount = Object.values(sheetFilters).filter((value) => value !== undefined).length;
+
   return (
     <View style={styles.container}>
       <LinearGradient
@@ -79,81 +145,147 @@ export default function HomeScreen() {
 
           <Pressable style={styles.filterButton} onPress={handleFilterPress}>
             <SlidersHorizontal size={20} color={Colors.background} />
+            {activeFilterCount > 0 && (
+              <View style={styles.filterBadge}>
+                <Text style={styles.filterBadgeText}>{activeFilterCount}</Text>
+              </View>
+            )}
           </Pressable>
         </View>
 
+        {searchQuery.length > 0 && (
+          <SearchSuggestions query={searchQuery} onSelect={handleSuggestionSelect} />
+        )}
+
+        {appliedSuggestion && (
+          <Pressable style={styles.appliedFilter} onPress={() => setAppliedSuggestion(null)}>
+            <Text style={styles.appliedFilterText}>{appliedSuggestion.label}</Text>
+            <X size={14} color={Colors.background} />
+          </Pressable>
+        )}
+
         <View style={styles.locationBar}>
           <MapPin size={16} color={Colors.background} />
           <Text style={styles.locationText}>Toronto, ON</Text>
           <Text style={styles.locationRange}>• Within 25 km</Text>
+          <Pressable
+            style={styles.viewToggle}
+            onPress={() => setViewMode(viewMode === "list" ? "map" : "list")}
+          >
+            {viewMode === "list" ? (
+              <MapIcon size={16} color={Colors.background} />
+            ) : (
+              <List size={16} color={Colors.background} />
+            )}
+            <Text style={styles.viewToggleText}>{viewMode === "list" ? "Map" : "List"}</Text>
+          </Pressable>
         </View>
       </LinearGradient>
 
-      <FlatList
-        data={filteredListings}
-        keyExtractor={(item) => item.id}
-        contentContainerStyle={styles.listContent}
-        showsVerticalScrollIndicator={false}
-        ListHeaderComponent={
-          <View>
-            <ScrollView
-              horizontal
-              showsHorizontalScrollIndicator={false}
-              contentContainerStyle={styles.categoryScroll}
-            >
-              <Pressable
-                style={[styles.categoryChip, !selectedType && styles.categoryChipActive]}
-                onPress={() => setSelectedType(null)}
+      {viewMode === "map" ? (
+        <ListingsMap filters={filters} />
+      ) : (
+        <FlatList
+          data={listings}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.listContent}
+          showsVerticalScrollIndicator={false}
+          refreshing={isRefreshing}
+          onRefresh={handleRefresh}
+          onEndReached={handleEndReached}
+          onEndReachedThreshold={0.5}
+          ListHeaderComponent={
+            <View>
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                contentContainerStyle={styles.categoryScroll}
               >
-                <Text
-                  style={[
-                    styles.categoryText,
-                    !selectedType && styles.categoryTextActive,
-                  ]}
-                >
-                  All
-                </Text>
-              </Pressable>
-              {CLUB_TYPES.map((type) => (
                 <Pressable
-                  key={type.key}
-                  style={[
-                    styles.categoryChip,
-                    selectedType === type.key && styles.categoryChipActive,
-                  ]}
-                  onPress={() => setSelectedType(type.key)}
+                  style={[styles.categoryChip, !selectedType && styles.categoryChipActive]}
+                  onPress={() => setSelectedType(null)}
                 >
                   <Text
                     style={[
                       styles.categoryText,
-                      selectedType === type.key && styles.categoryTextActive,
+                      !selectedType && styles.categoryTextActive,
                     ]}
                   >
-                    {type.label}
+                    All
                   </Text>
                 </Pressable>
-              ))}
-            </ScrollView>
+                {CLUB_TYPES.map((type) => (
+                  <Pressable
+                    key={type.key}
+                    style={[
+                      styles.categoryChip,
+                      selectedType === type.key && styles.categoryChipActive,
+                    ]}
+                    onPress={() => setSelectedType(type.key)}
+                  >
+                    <Text
+                      style={[
+                        styles.categoryText,
+                        selectedType === type.key && styles.categoryTextActive,
+                      ]}
+                    >
+                      {type.label}
+                    </Text>
+                  </Pressable>
+                ))}
+              </ScrollView>
 
-            <View style={styles.resultsHeader}>
-              <Text style={styles.resultsCount}>
-                {filteredListings.length} {filteredListings.length === 1 ? "club" : "clubs"}{" "}
-                available
-              </Text>
+              {listingsQuery.isSuccess && (
+                <View style={styles.resultsHeader}>
+                  <Text style={styles.resultsCount}>
+                    {total} {total === 1 ? "club" : "clubs"} available
+                  </Text>
+                </View>
+              )}
             </View>
-          </View>
-        }
-        renderItem={({ item }) => (
-          <ListingCard listing={item} onToggleFavorite={handleToggleFavorite} />
-        )}
-        ListEmptyComponent={
-          <View style={styles.emptyContainer}>
-            <Text style={styles.emptyTitle}>No clubs found</Text>
-            <Text style={styles.emptyText}>
-              Try adjusting your search or filters
-            </Text>
-          </View>
-        }
+          }
+          renderItem={({ item }) => (
+            <ListingCard listing={item} onToggleFavorite={toggleFavorite} />
+          )}
+          ListFooterComponent={
+            listingsQuery.isFetchingNextPage ? (
+              <ActivityIndicator style={styles.footerLoader} color={Colors.primary} />
+            ) : null
+          }
+          ListEmptyComponent={
+            listingsQuery.isLoading ? (
+              <View style={styles.emptyContainer}>
+                <ActivityIndicator size="large" color={Colors.primary} />
+              </View>
+            ) : listingsQuery.isError ? (
+              <View style={styles.emptyContainer}>
+                <Text style={styles.emptyTitle}>Couldn&apos;t load clubs</Text>
+                <Text style={styles.emptyText}>{listingsQuery.error.message}</Text>
+                <Pressable style={styles.retryButton} onPress={() => listingsQuery.refetch()}>
+                  <Text style={styles.retryButtonText}>Try again</Text>
+                </Pressable>
+              </View>
+            ) : (
+              <View style={styles.emptyContainer}>
+                <Text style={styles.emptyTitle}>No clubs found</Text>
+                <Text style={styles.emptyText}>
+                  Try adjusting your search or filters
+                </Text>
+              </View>
+            )
+          }
+        />
+      )}
+
+      <FilterSheet
+        visible={isFilterSheetVisible}
+        filters={sheetFilters}
+        context={{
+          ...appliedSuggestion?.filter,
+          searchQuery: debouncedQuery || undefined,
+        }}
+        onApply={handleApplyFilters}
+        onClose={() => setIsFilterSheetVisible(false)}
       />
     </View>
   );
@@ -209,6 +341,39 @@ const styles = StyleSheet.create({
     justifyContent: "center",
     alignItems: "center",
   },
+  appliedFilter: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-start",
+    gap: 6,
+    backgroundColor: "rgba(255,255,255,0.2)",
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginBottom: 12,
+  },
+  appliedFilterText: {
+    fontSize: 14,
+    fontWeight: "600" as const,
+    color: Colors.background,
+  },
+  filterBadge: {
+    position: "absolute",
+    top: 6,
+    right: 6,
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    paddingHorizontal: 4,
+    backgroundColor: Colors.secondary,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  filterBadgeText: {
+    fontSize: 11,
+    fontWeight: "700" as const,
+    color: Colors.background,
+  },
   locationBar: {
     flexDirection: "row",
     alignItems: "center",
@@ -223,6 +388,21 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: "rgba(255,255,255,0.8)",
   },
+  viewToggle: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    marginLeft: "auto",
+    backgroundColor: "rgba(255,255,255,0.2)",
+    borderRadius: 14,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  viewToggleText: {
+    fontSize: 13,
+    fontWeight: "600" as const,
+    color: Colors.background,
+  },
   categoryScroll: {
     paddingHorizontal: 20,
     paddingVertical: 16,
@@ -274,5 +454,21 @@ const styles = StyleSheet.create({
   emptyText: {
     fontSize: 16,
     color: Colors.textSecondary,
+    textAlign: "center",
+  },
+  retryButton: {
+    marginTop: 20,
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    backgroundColor: Colors.primary,
+    borderRadius: 12,
+  },
+  retryButtonText: {
+    fontSize: 16,
+    fontWeight: "700" as const,
+    color: Colors.background,
+  },
+  footerLoader: {
+    paddingVertical: 20,
   },
 });
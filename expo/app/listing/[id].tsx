@@ -14,6 +14,7 @@ import {
 } from "lucide-react-native";
 import React, { useState } from "react";
 import {
+  ActivityIndicator,
   Platform,
   Pressable,
   ScrollView,
@@ -24,26 +25,46 @@ import {
 } from "react-native";
 
 import Colors from "@/constants/colors";
-import { mockListings, conditionLabels, flexLabels } from "@/mocks/listings";
-
+import { conditionLabels, flexLabels } from "@/constants/labels";
+import { useFavorites } from "@/lib/favorites";
+import { trpc } from "@/lib/trpc";
 
 const { width: SCREEN_WIDTH } = Dimensions.get("window");
 
 export default function ListingDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const router = useRouter();
-  const listing = mockListings.find((l) => l.id === id);
-  const [isFavorite, setIsFavorite] = useState(listing?.isFavorite || false);
+  const listingQuery = trpc.listings.getById.useQuery(id, { enabled: !!id });
+  const { isFavorite: isFavoriteListing, toggleFavorite } = useFavorites();
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
 
-  if (!listing) {
+  if (listingQuery.isLoading) {
+    return (
+      <View style={styles.errorContainer}>
+        <ActivityIndicator size="large" color={Colors.primary} />
+      </View>
+    );
+  }
+
+  if (!listingQuery.data) {
     return (
       <View style={styles.errorContainer}>
-        <Text style={styles.errorText}>Listing not found</Text>
+        <Stack.Screen options={{ headerShown: true, title: "" }} />
+        <Text style={styles.errorText}>
+          {listingQuery.isError ? "Couldn't load this listing" : "Listing not found"}
+        </Text>
+        {listingQuery.isError && (
+          <Pressable style={styles.retryButton} onPress={() => listingQuery.refetch()}>
+            <Text style={styles.retryButtonText}>Try again</Text>
+          </Pressable>
+        )}
       </View>
     );
   }
 
+  const listing = listingQuery.data;
+  const isFavorite = isFavoriteListing(listing.id);
+
   const handleBook = () => {
     console.log("Book listing:", id);
   };
@@ -84,7 +105,7 @@ export default function ListingDetailScreen() {
               </Pressable>
               <Pressable
                 style={styles.favoriteButton}
-                onPress={() => setIsFavorite(!isFavorite)}
+                onPress={() => toggleFavorite(listing.id)}
               >
                 <Heart
                   size={24}
@@ -231,7 +252,7 @@ export default function ListingDetailScreen() {
                   <Text style={styles.locationAddress}>
                     {listing.location.city}, {listing.location.province}
                   </Text>
-                  {listing.location.distance && (
+                  {listing.location.distance != null && (
                     <Text style={styles.locationDistance}>
                       {listing.location.distance} km away
                     </Text>
@@ -326,6 +347,18 @@ const styles = StyleSheet.create({
     fontSize: 18,
     color: Colors.textSecondary,
   },
+  retryButton: {
+    marginTop: 20,
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    backgroundColor: Colors.primary,
+    borderRadius: 12,
+  },
+  retryButtonText: {
+    fontSize: 16,
+    fontWeight: "700" as const,
+    color: Colors.background,
+  },
   imageSection: {
     position: "relative",
     height: 400,
@@ -0,0 +1,134 @@
+/**
+ * Listing Calendar Feed
+ * Serves each listing's bookings and blocked dates as a secret iCalendar URL
+ * that owners can subscribe to from Google or Apple Calendar
+ */
+
+import { Hono } from 'hono';
+import { format, subDays } from 'date-fns';
+import { supabaseAdmin } from '../../lib/supabase';
+import { buildICalendar, ICalExportEvent } from './ical';
+
+// How far back the feed includes past bookings
+const FEED_HISTORY_DAYS = 30;
+
+const encoder = new TextEncoder();
+
+/**
+ * Sign a listing's feed token. Bumping calendar_feed_version invalidates old URLs.
+ */
+export async function signFeedToken(listingId: string, version: number): Promise<string> {
+  const secret = process.env.ICAL_FEED_SECRET;
+  if (!secret) throw new Error('ICAL_FEED_SECRET not configured');
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${listingId}:${version}`));
+
+  return base64Url(new Uint8Array(signature));
+}
+
+/**
+ * Public URL of a listing's feed
+ */
+export async function getFeedUrl(listingId: string, version: number): Promise<string> {
+  const token = await signFeedToken(listingId, version);
+  return `${process.env.APP_URL}/api/calendar/${listingId}/${token}.ics`;
+}
+
+export const calendarFeed = new Hono();
+
+/**
+ * GET /calendar/:listingId/:token.ics
+ */
+calendarFeed.get('/:listingId/:file', async (c) => {
+  if (!supabaseAdmin) {
+    return c.json({ error: 'Supabase not configured' }, 500);
+  }
+
+  const listingId = c.req.param('listingId');
+  const file = c.req.param('file');
+  if (!file.endsWith('.ics')) {
+    return c.json({ error: 'Not found' }, 404);
+  }
+
+  const { data: listing } = await supabaseAdmin
+    .from('listings')
+    .select('id, title, calendar_feed_version')
+    .eq('id', listingId)
+    .maybeSingle();
+
+  if (!listing) {
+    return c.json({ error: 'Not found' }, 404);
+  }
+
+  const expectedToken = await signFeedToken(listing.id, listing.calendar_feed_version);
+  if (!timingSafeEqual(file.slice(0, -'.ics'.length), expectedToken)) {
+    return c.json({ error: 'Not found' }, 404);
+  }
+
+  const since = format(subDays(new Date(), FEED_HISTORY_DAYS), 'yyyy-MM-dd');
+
+  const { data: bookings } = await supabaseAdmin
+    .from('bookings')
+    .select('id, start_date, end_date')
+    .eq('listing_id', listing.id)
+    .in('status', ['confirmed', 'in_progress'])
+    .gte('end_date', since);
+
+  // Imported windows are left out so two-way syncs don't echo each other's events
+  const { data: windows } = await supabaseAdmin
+    .from('availability_windows')
+    .select('id, start_date, end_date, reason')
+    .eq('listing_id', listing.id)
+    .eq('is_blocked', true)
+    .is('import_id', null)
+    .gte('end_date', since);
+
+  const events: ICalExportEvent[] = [
+    ...(bookings || []).map((booking) => ({
+      uid: `booking-${booking.id}@clubswap.ca`,
+      summary: `Booked: ${listing.title}`,
+      startDate: booking.start_date,
+      endDate: booking.end_date,
+      description: `${process.env.APP_URL}/bookings/${booking.id}`,
+    })),
+    ...(windows || []).map((window) => ({
+      uid: `blocked-${window.id}@clubswap.ca`,
+      summary: `Blocked: ${listing.title}${window.reason ? ` (${window.reason.replace('_', ' ')})` : ''}`,
+      startDate: window.start_date,
+      endDate: window.end_date,
+    })),
+  ];
+
+  return c.body(buildICalendar(`ClubSwap: ${listing.title}`, events), 200, {
+    'Content-Type': 'text/calendar; charset=utf-8',
+    'Cache-Control': 'private, max-age=300',
+  });
+});
+
+/**
+ * Helper: Encode bytes as unpadded base64url
+ */
+function base64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+
+  let mismatch = 0;
+  for (let i = 0; i < a.length; i++) {
+    mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return mismatch === 0;
+}
+
+export default calendarFeed;
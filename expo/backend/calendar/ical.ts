@@ -0,0 +1,221 @@
+/**
+ * iCalendar (RFC 5545) helpers
+ * Builds availability feeds and parses the all-day and timed events owners import
+ */
+
+import { addDays, format, parseISO } from 'date-fns';
+
+export interface ICalExportEvent {
+  uid: string;
+  summary: string;
+  startDate: string; // YYYY-MM-DD, inclusive
+  endDate: string; // YYYY-MM-DD, inclusive
+  description?: string;
+}
+
+export interface ICalImportEvent {
+  uid: string;
+  summary: string | null;
+  startDate: string; // YYYY-MM-DD, inclusive
+  endDate: string; // YYYY-MM-DD, inclusive
+}
+
+const PRODUCT_ID = '-//ClubSwap//Listing Availability//EN';
+
+// RFC 5545 limits content lines to 75 octets
+const MAX_LINE_LENGTH = 75;
+
+/**
+ * Build a VCALENDAR document of all-day events
+ */
+export function buildICalendar(calendarName: string, events: ICalExportEvent[]): string {
+  // UTC timestamp, e.g. 20250601T090000Z
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ];
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${toICalDate(event.startDate)}`,
+      // DTEND is exclusive for all-day events
+      `DTEND;VALUE=DATE:${toICalDate(format(addDays(parseISO(event.endDate), 1), 'yyyy-MM-dd'))}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+      'TRANSP:OPAQUE',
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Parse the VEVENTs of an iCalendar document into inclusive date ranges.
+ * Cancelled events, free (transparent) events and events without a start date are skipped.
+ * Recurrence rules are not expanded; only the first occurrence is imported.
+ */
+export function parseICalendar(content: string): ICalImportEvent[] {
+  const events: ICalImportEvent[] = [];
+  let current: Map<string, { params: Record<string, string>; value: string }> | null = null;
+
+  for (const line of unfoldLines(content)) {
+    if (line === 'BEGIN:VEVENT') {
+      current = new Map();
+      continue;
+    }
+
+    if (line === 'END:VEVENT') {
+      const event = current && toImportEvent(current);
+      if (event) events.push(event);
+      current = null;
+      continue;
+    }
+
+    if (!current) continue;
+
+    const property = parseContentLine(line);
+    if (property && !current.has(property.name)) {
+      current.set(property.name, { params: property.params, value: property.value });
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Helper: Turn the properties of a VEVENT into an import event
+ */
+function toImportEvent(
+  properties: Map<string, { params: Record<string, string>; value: string }>
+): ICalImportEvent | null {
+  const start = properties.get('DTSTART');
+  if (!start) return null;
+
+  if (properties.get('STATUS')?.value.toUpperCase() === 'CANCELLED') return null;
+  if (properties.get('TRANSP')?.value.toUpperCase() === 'TRANSPARENT') return null;
+
+  const startValue = parseDateValue(start.value);
+  if (!startValue) return null;
+
+  const end = properties.get('DTEND');
+  const endValue = end ? parseDateValue(end.value) : null;
+
+  let endDate = startValue.date;
+  if (endValue) {
+    // All-day DTEND, and timed events ending at midnight, are exclusive of that day
+    endDate =
+      !endValue.hasTime || endValue.isMidnight
+        ? format(addDays(parseISO(endValue.date), -1), 'yyyy-MM-dd')
+        : endValue.date;
+  }
+
+  if (endDate < startValue.date) endDate = startValue.date;
+
+  // A moved occurrence of a recurring event shares the UID of its series
+  const uid = properties.get('UID')?.value || `${startValue.date}-${endDate}`;
+  const recurrenceId = properties.get('RECURRENCE-ID')?.value;
+
+  return {
+    uid: recurrenceId ? `${uid}#${recurrenceId}` : uid,
+    summary: properties.has('SUMMARY') ? unescapeText(properties.get('SUMMARY')!.value) : null,
+    startDate: startValue.date,
+    endDate,
+  };
+}
+
+/**
+ * Helper: Parse a DATE (20250601) or DATE-TIME (20250601T090000Z) value
+ */
+function parseDateValue(value: string) {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, seconds] = match;
+  return {
+    date: `${year}-${month}-${day}`,
+    hasTime: hours !== undefined,
+    isMidnight: hours === '00' && minutes === '00' && seconds === '00',
+  };
+}
+
+/**
+ * Helper: Split "NAME;PARAM=VALUE:content" into its parts
+ */
+function parseContentLine(line: string) {
+  const colonIndex = findValueSeparator(line);
+  if (colonIndex === -1) return null;
+
+  const [name, ...paramParts] = line.slice(0, colonIndex).split(';');
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const [key, ...rest] = part.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colonIndex + 1) };
+}
+
+/**
+ * Helper: Find the colon that starts the value, skipping colons inside quoted parameters
+ */
+function findValueSeparator(line: string): number {
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    if (line[i] === ':' && !quoted) return i;
+  }
+  return -1;
+}
+
+/**
+ * Helper: Join folded continuation lines (lines starting with a space or tab)
+ */
+function unfoldLines(content: string): string[] {
+  const lines: string[] = [];
+  for (const raw of content.split(/\r?\n/)) {
+    if ((raw.startsWith(' ') || raw.startsWith('\t')) && lines.length > 0) {
+      lines[lines.length - 1] += raw.slice(1);
+    } else if (raw.length > 0) {
+      lines.push(raw);
+    }
+  }
+  return lines;
+}
+
+function foldLine(line: string): string {
+  if (line.length <= MAX_LINE_LENGTH) return line;
+
+  const parts = [line.slice(0, MAX_LINE_LENGTH)];
+  for (let i = MAX_LINE_LENGTH; i < line.length; i += MAX_LINE_LENGTH - 1) {
+    parts.push(' ' + line.slice(i, i + MAX_LINE_LENGTH - 1));
+  }
+  return parts.join('\r\n');
+}
+
+function toICalDate(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function unescapeText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, char) => (char.toLowerCase() === 'n' ? '\n' : char));
+}
@@ -0,0 +1,268 @@
+/**
+ * Calendar Imports
+ * Mirrors events from an owner's external calendar into blocked availability windows
+ */
+
+import type { LookupAddress } from 'node:dns';
+import { lookup } from 'node:dns/promises';
+import https from 'node:https';
+import { isIP, LookupFunction } from 'node:net';
+import { format } from 'date-fns';
+import { supabaseAdmin } from '../../lib/supabase';
+import { parseICalendar } from './ical';
+
+// Give up on slow or oversized external calendars
+const FETCH_TIMEOUT_MS = 15 * 1000;
+const MAX_CALENDAR_BYTES = 2 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+
+export interface CalendarImport {
+  id: string;
+  listing_id: string;
+  source_url: string | null;
+}
+
+export interface CalendarSyncResult {
+  added: number;
+  updated: number;
+  removed: number;
+}
+
+/**
+ * Reconcile an import's blocked windows with the calendar's current events.
+ * Pass `content` for uploaded files; URL imports are fetched.
+ */
+export async function syncCalendarImport(
+  calendarImport: CalendarImport,
+  content?: string
+): Promise<CalendarSyncResult> {
+  if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+  try {
+    const icsContent = content ?? (await fetchCalendar(calendarImport.source_url));
+
+    // Past events can't block anything
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const events = new Map(
+      parseICalendar(icsContent)
+        .filter((event) => event.endDate >= today)
+        .map((event) => [event.uid, event])
+    );
+
+    const { data: existingWindows, error } = await supabaseAdmin
+      .from('availability_windows')
+      .select('id, external_uid, start_date, end_date')
+      .eq('import_id', calendarImport.id);
+
+    if (error) throw error;
+
+    const result: CalendarSyncResult = { added: 0, updated: 0, removed: 0 };
+
+    for (const window of existingWindows || []) {
+      const event = events.get(window.external_uid);
+
+      if (!event) {
+        await supabaseAdmin.from('availability_windows').delete().eq('id', window.id);
+        result.removed++;
+        continue;
+      }
+
+      events.delete(window.external_uid);
+
+      if (event.startDate !== window.start_date || event.endDate !== window.end_date) {
+        await supabaseAdmin
+          .from('availability_windows')
+          .update({ start_date: event.startDate, end_date: event.endDate })
+          .eq('id', window.id);
+        result.updated++;
+      }
+    }
+
+    // Whatever is left is new
+    if (events.size > 0) {
+      const { error: insertError } = await supabaseAdmin.from('availability_windows').insert(
+        [...events.values()].map((event) => ({
+          listing_id: calendarImport.listing_id,
+          import_id: calendarImport.id,
+          external_uid: event.uid,
+          start_date: event.startDate,
+          end_date: event.endDate,
+          is_blocked: true,
+          reason: 'external_calendar',
+        }))
+      );
+
+      if (insertError) throw insertError;
+      result.added = events.size;
+    }
+
+    const syncedAt = new Date().toISOString();
+    const { error: syncedError } = await supabaseAdmin
+      .from('calendar_imports')
+      .update({ last_synced_at: syncedAt, last_attempted_at: syncedAt, last_error: null })
+      .eq('id', calendarImport.id);
+
+    if (syncedError) throw syncedError;
+
+    return result;
+  } catch (error: any) {
+    await supabaseAdmin
+      .from('calendar_imports')
+      .update({
+        last_attempted_at: new Date().toISOString(),
+        last_error: error?.message || 'Sync failed',
+      })
+      .eq('id', calendarImport.id);
+
+    throw error;
+  }
+}
+
+/**
+ * Helper: Download an external calendar. webcal:// links are fetched over https.
+ * Redirects are followed by hand so every hop gets the same checks, and the body
+ * is read only up to the size limit.
+ */
+async function fetchCalendar(sourceUrl: string | null): Promise<string> {
+  if (!sourceUrl) throw new Error('Uploaded calendars must be re-uploaded to sync');
+
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  let url = new URL(sourceUrl.replace(/^webcal:\/\//i, 'https://'));
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const address = await resolvePublicAddress(url);
+    const response = await download(url, address, signal);
+
+    if (response.location) {
+      url = new URL(response.location, url);
+      continue;
+    }
+
+    if (!response.content.includes('BEGIN:VCALENDAR')) {
+      throw new Error('URL did not return an iCalendar file');
+    }
+
+    return response.content;
+  }
+
+  throw new Error('Calendar URL redirected too many times');
+}
+
+/**
+ * Helper: Make one GET request to the address that was checked. The connection
+ * never resolves the hostname again, so DNS can't swap in a private address
+ * between the check and the request.
+ */
+function download(
+  url: URL,
+  address: LookupAddress,
+  signal: AbortSignal
+): Promise<{ location?: string; content: string }> {
+  return new Promise((resolve, reject) => {
+    const pinnedLookup: LookupFunction = (_hostname, options, callback) => {
+      if (options.all) callback(null, [address]);
+      else callback(null, address.address, address.family);
+    };
+
+    const request = https.request(
+      url.href,
+      { headers: { Accept: 'text/calendar' }, lookup: pinnedLookup, signal },
+      (response) => {
+        const status = response.statusCode ?? 0;
+        const location = response.headers.location;
+
+        if (status >= 300 && status < 400 && location) {
+          response.resume();
+          resolve({ location, content: '' });
+          return;
+        }
+
+        if (status < 200 || status >= 300) {
+          response.resume();
+          reject(new Error(`Calendar download failed with status ${status}`));
+          return;
+        }
+
+        if (Number(response.headers['content-length'] || 0) > MAX_CALENDAR_BYTES) {
+          response.destroy();
+          reject(new Error('Calendar is too large to import'));
+          return;
+        }
+
+        const chunks: Buffer[] = [];
+        let received = 0;
+
+        response.on('data', (chunk: Buffer) => {
+          received += chunk.length;
+          if (received > MAX_CALENDAR_BYTES) {
+            response.destroy();
+            reject(new Error('Calendar is too large to import'));
+            return;
+          }
+          chunks.push(chunk);
+        });
+        response.on('end', () => resolve({ content: Buffer.concat(chunks).toString('utf8') }));
+        response.on('error', reject);
+      }
+    );
+
+    request.on('error', reject);
+    request.end();
+  });
+}
+
+/**
+ * Helper: Refuse anything but https to a host on the public internet, so owner
+ * calendar URLs can't reach our own network. Returns the address to connect to.
+ */
+async function resolvePublicAddress(url: URL): Promise<LookupAddress> {
+  if (url.protocol !== 'https:') {
+    throw new Error('Calendar URLs must use https');
+  }
+
+  // URL keeps IPv6 hosts in brackets
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(hostname)
+    ? [{ address: hostname, family: isIP(hostname) }]
+    : await lookup(hostname, { all: true });
+
+  if (addresses.length === 0 || addresses.some((entry) => isPrivateAddress(entry.address))) {
+    throw new Error('Calendar URLs must point to a public host');
+  }
+
+  return addresses[0];
+}
+
+/**
+ * Helper: Loopback, private, link-local, carrier-grade NAT, multicast and
+ * reserved addresses, for IPv4 and IPv6 (including IPv4-mapped IPv6)
+ */
+function isPrivateAddress(address: string): boolean {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return isPrivateAddress(mapped[1]);
+
+  if (isIP(address) === 4) {
+    const [a, b, c] = address.split('.').map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      a >= 224 || // Multicast and reserved
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 192 && b === 0 && (c === 0 || c === 2)) || // IETF protocol assignments, TEST-NET-1
+      (a === 198 && (b === 18 || b === 19))
+    );
+  }
+
+  const normalized = address.toLowerCase();
+  return (
+    normalized === '::' ||
+    normalized === '::1' ||
+    /^f[cd]/.test(normalized) || // Unique local fc00::/7
+    /^fe[89ab]/.test(normalized) || // Link-local fe80::/10
+    normalized.startsWith('ff') // Multicast
+  );
+}
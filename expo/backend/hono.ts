@@ -3,6 +3,9 @@ import { trpcServer } from "@hono/trpc-server";
 import { cors } from "hono/cors";
 import { appRouter } from "./trpc/app-router";
 import { createContext } from "./trpc/create-context";
+import { stripeWebhook } from "./webhooks/stripe";
+import { jobsEndpoint, startScheduledJobs } from "./jobs";
+import { calendarFeed } from "./calendar/feed";
 
 const app = new Hono();
 
@@ -17,6 +20,12 @@ app.use(
   })
 );
 
+app.route("/webhooks/stripe", stripeWebhook);
+app.route("/jobs", jobsEndpoint);
+app.route("/calendar", calendarFeed);
+
+startScheduledJobs();
+
 app.get("/", (c) => {
   return c.json({ status: "ok", message: "API is running" });
 });
@@ -0,0 +1,256 @@
+/**
+ * Booking Jobs
+ * Expire unanswered requests and send pickup and return reminders
+ */
+
+import { TRPCError } from '@trpc/server';
+import { addHours, differenceInHours, format } from 'date-fns';
+import { supabaseAdmin } from '../../lib/supabase';
+import { smsService } from '../../services/sms';
+import { paymentsLedger } from '../trpc/routes/payments/ledger';
+import { transitionBooking } from '../trpc/routes/bookings/state-machine';
+import { depositReleasedUpdates, settleBooking } from '../trpc/routes/bookings/settlement';
+import type { Database } from '../../types/database';
+import { firstOf } from './embeds';
+import type { Job } from './runner';
+
+type Tables = Database['public']['Tables'];
+
+// The renter columns selected for reminders
+type TextableProfile = Pick<Tables['profiles']['Row'], 'phone_number' | 'phone_verified'> & {
+  preferences: SmsPreferences | SmsPreferences[] | null;
+};
+
+type SmsPreferences = Pick<Tables['notification_preferences']['Row'], 'sms_enabled'>;
+
+// Maximum number of bookings handled per run
+const BATCH_SIZE = 100;
+
+// How far ahead of the rental the reminders go out
+const PICKUP_REMINDER_HOURS = 24;
+const RETURN_REMINDER_HOURS = 24;
+
+/**
+ * Cancel pending requests the owner didn't answer within their response time commitment
+ */
+export const expirePendingBookings: Job = {
+  name: 'expire-pending-bookings',
+  intervalMinutes: 15,
+  run: async (now) => {
+    if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+    // Each listing has its own response time, so the database works out which are overdue
+    const { data: bookings, error } = await supabaseAdmin
+      .rpc('overdue_booking_requests', { p_now: now.toISOString(), p_limit: BATCH_SIZE })
+      .select('*, listing:listings(title)');
+
+    if (error) throw error;
+
+    let expired = 0;
+    let unreleased = 0;
+    let failed = 0;
+
+    // One failing booking mustn't hold up the rest, or block every later run
+    for (const booking of bookings || []) {
+      try {
+        // Expire first: if the owner confirms at the same moment, one of the two
+        // transitions loses and the holds are only released for an expiry
+        let cancelledBooking;
+        try {
+          cancelledBooking = await transitionBooking(booking.id, 'pending', 'cancelled', {
+            cancellation_reason: 'expired',
+          });
+        } catch (error) {
+          if (error instanceof TRPCError && error.code === 'CONFLICT') continue;
+          throw error;
+        }
+
+        const ledgerContext = { bookingId: booking.id, userId: booking.renter_id };
+
+        // Release payment and deposit holds. A failed release is kept in the booking's
+        // unsettled_steps for support; the booking is expired either way.
+        const { unsettled } = await settleBooking(cancelledBooking, [
+          booking.stripe_payment_intent_id && {
+            description: 'release the rental payment',
+            run: () =>
+              paymentsLedger.releaseDeposit(ledgerContext, booking.stripe_payment_intent_id, {
+                amount: booking.total_amount,
+                paymentType: 'rental_void',
+              }),
+          },
+          booking.stripe_deposit_hold_id && {
+            description: 'release the security deposit',
+            run: () =>
+              paymentsLedger.releaseDeposit(ledgerContext, booking.stripe_deposit_hold_id, {
+                amount: booking.security_deposit,
+              }),
+            bookingUpdates: depositReleasedUpdates(),
+          },
+        ]);
+        if (unsettled.length > 0) unreleased++;
+
+        await supabaseAdmin.from('notifications').insert({
+          user_id: booking.renter_id,
+          type: 'booking',
+          title: 'Booking request expired',
+          message: `The owner of "${firstOf(booking.listing)?.title}" didn't respond in time, so your request was cancelled and you haven't been charged.`,
+          booking_id: booking.id,
+          action_url: `${process.env.APP_URL}/bookings/${booking.id}`,
+          channels: ['push', 'email'],
+        });
+
+        expired++;
+      } catch (error) {
+        console.error(`Error expiring booking ${booking.id}:`, error);
+        failed++;
+      }
+    }
+
+    return { checked: bookings?.length || 0, expired, unreleased, failed };
+  },
+};
+
+/**
+ * Text renters the day before their rental starts
+ */
+export const sendPickupReminders: Job = {
+  name: 'send-pickup-reminders',
+  intervalMinutes: 60,
+  run: async (now) => {
+    if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+    const { data: bookings, error } = await supabaseAdmin
+      .from('bookings')
+      .select(
+        `
+        id,
+        start_date,
+        listing:listings (
+          title
+        ),
+        renter:profiles!renter_id (
+          phone_number,
+          phone_verified,
+          preferences:notification_preferences (
+            sms_enabled
+          )
+        )
+      `
+      )
+      .eq('status', 'confirmed')
+      .is('pickup_reminder_sent_at', null)
+      .lte('start_date', format(addHours(now, PICKUP_REMINDER_HOURS), 'yyyy-MM-dd'))
+      .gte('start_date', format(now, 'yyyy-MM-dd'))
+      .limit(BATCH_SIZE);
+
+    if (error) throw error;
+
+    let sent = 0;
+    let failed = 0;
+
+    // A failed reminder is retried next run without holding up the rest
+    for (const booking of bookings || []) {
+      try {
+        const renter = firstOf(booking.renter);
+        const hours = Math.max(0, differenceInHours(new Date(booking.start_date), now));
+
+        if (renter && canText(renter)) {
+          await smsService.sendBookingReminder(
+            smsService.formatPhoneNumber(renter.phone_number!),
+            firstOf(booking.listing)?.title ?? 'your rental',
+            hours
+          );
+          sent++;
+        }
+
+        // Stamp even when the renter opted out, so they aren't reconsidered every run
+        const { error: stampError } = await supabaseAdmin
+          .from('bookings')
+          .update({ pickup_reminder_sent_at: now.toISOString() })
+          .eq('id', booking.id);
+
+        if (stampError) throw stampError;
+      } catch (error) {
+        console.error(`Error sending pickup reminder for booking ${booking.id}:`, error);
+        failed++;
+      }
+    }
+
+    return { checked: bookings?.length || 0, sent, failed };
+  },
+};
+
+/**
+ * Text renters the day before the equipment is due back
+ */
+export const sendReturnReminders: Job = {
+  name: 'send-return-reminders',
+  intervalMinutes: 60,
+  run: async (now) => {
+    if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+    const { data: bookings, error } = await supabaseAdmin
+      .from('bookings')
+      .select(
+        `
+        id,
+        end_date,
+        listing:listings (
+          title
+        ),
+        renter:profiles!renter_id (
+          phone_number,
+          phone_verified,
+          preferences:notification_preferences (
+            sms_enabled
+          )
+        )
+      `
+      )
+      .eq('status', 'in_progress')
+      .is('return_reminder_sent_at', null)
+      .lte('end_date', format(addHours(now, RETURN_REMINDER_HOURS), 'yyyy-MM-dd'))
+      .limit(BATCH_SIZE);
+
+    if (error) throw error;
+
+    let sent = 0;
+    let failed = 0;
+
+    for (const booking of bookings || []) {
+      try {
+        const renter = firstOf(booking.renter);
+
+        if (renter && canText(renter)) {
+          await smsService.sendReturnReminder(
+            smsService.formatPhoneNumber(renter.phone_number!),
+            firstOf(booking.listing)?.title ?? 'your rental',
+            format(new Date(booking.end_date), 'PPP')
+          );
+          sent++;
+        }
+
+        const { error: stampError } = await supabaseAdmin
+          .from('bookings')
+          .update({ return_reminder_sent_at: now.toISOString() })
+          .eq('id', booking.id);
+
+        if (stampError) throw stampError;
+      } catch (error) {
+        console.error(`Error sending return reminder for booking ${booking.id}:`, error);
+        failed++;
+      }
+    }
+
+    return { checked: bookings?.length || 0, sent, failed };
+  },
+};
+
+/**
+ * Helper: Whether a user has a verified phone and has opted in to SMS
+ */
+function canText(profile: TextableProfile): boolean {
+  if (!profile.phone_number || !profile.phone_verified) return false;
+
+  return firstOf(profile.preferences)?.sms_enabled === true;
+}
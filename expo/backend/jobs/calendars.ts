@@ -0,0 +1,48 @@
+/**
+ * Calendar Jobs
+ * Re-import owners' external calendars so blocked dates follow their changes
+ */
+
+import { supabaseAdmin } from '../../lib/supabase';
+import { syncCalendarImport } from '../calendar/imports';
+import type { Job } from './runner';
+
+// Maximum number of calendars synced per run
+const BATCH_SIZE = 50;
+
+/**
+ * Sync URL-based calendar imports, least recently attempted first, so feeds that keep
+ * failing take their turn instead of crowding out the rest
+ */
+export const syncCalendarImports: Job = {
+  name: 'sync-calendar-imports',
+  intervalMinutes: 60,
+  run: async () => {
+    if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+    const { data: imports, error } = await supabaseAdmin
+      .from('calendar_imports')
+      .select('id, listing_id, source_url')
+      .not('source_url', 'is', null)
+      .order('last_attempted_at', { ascending: true, nullsFirst: true })
+      .limit(BATCH_SIZE);
+
+    if (error) throw error;
+
+    let synced = 0;
+    let failed = 0;
+
+    for (const calendarImport of imports || []) {
+      try {
+        await syncCalendarImport(calendarImport);
+        synced++;
+      } catch (syncError) {
+        // The error is saved on the import for the owner to see
+        console.error(`Error syncing calendar import ${calendarImport.id}:`, syncError);
+        failed++;
+      }
+    }
+
+    return { synced, failed };
+  },
+};
@@ -0,0 +1,12 @@
+/**
+ * Embedded Rows
+ * A to-one embed in a Supabase select can come back as an object or a one-element
+ * array depending on how PostgREST reads the join
+ */
+
+/**
+ * The single row of a to-one embed
+ */
+export function firstOf<T>(embed: T | T[] | null | undefined): T | null {
+  return Array.isArray(embed) ? (embed[0] ?? null) : (embed ?? null);
+}
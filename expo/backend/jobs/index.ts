@@ -0,0 +1,70 @@
+/**
+ * Scheduled Jobs
+ * Registry of periodic backend tasks, plus the HTTP endpoint an external cron can call
+ */
+
+import { Hono } from 'hono';
+import { processDuePayouts, reconcileStuckPayouts } from '../trpc/routes/payouts/scheduler';
+import { expirePendingBookings, sendPickupReminders, sendReturnReminders } from './bookings';
+import { syncCalendarImports } from './calendars';
+import { deleteOrphanedMedia } from './media';
+import { publishExpiredReviews, sendReviewReminders } from './reviews';
+import { sendSavedSearchAlerts } from './searches';
+import { jobRuns } from './job-runs';
+import { runDueJobs, startJobScheduler, Job } from './runner';
+
+export const processPayouts: Job = {
+  name: 'process-payouts',
+  intervalMinutes: 60,
+  run: async (now) => ({ ...(await processDuePayouts(now)) }),
+};
+
+export const reconcilePayouts: Job = {
+  name: 'reconcile-payouts',
+  intervalMinutes: 30,
+  run: async (now) => ({ ...(await reconcileStuckPayouts(now)) }),
+};
+
+export const jobs: Job[] = [
+  expirePendingBookings,
+  sendPickupReminders,
+  sendReturnReminders,
+  sendReviewReminders,
+  publishExpiredReviews,
+  processPayouts,
+  reconcilePayouts,
+  syncCalendarImports,
+  sendSavedSearchAlerts,
+  deleteOrphanedMedia,
+];
+
+/**
+ * Start the in-process scheduler when JOBS_IN_PROCESS is enabled.
+ * Deployments with an external cron leave it off and call POST /api/jobs/run instead.
+ */
+export function startScheduledJobs() {
+  if (process.env.JOBS_IN_PROCESS !== 'true') return null;
+  return startJobScheduler(jobs, jobRuns);
+}
+
+export const jobsEndpoint = new Hono();
+
+/**
+ * POST /jobs/run
+ * Runs every due job. Requires `Authorization: Bearer <CRON_SECRET>`.
+ */
+jobsEndpoint.post('/run', async (c) => {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return c.json({ error: 'Jobs endpoint not configured' }, 500);
+  }
+
+  if (c.req.header('authorization') !== `Bearer ${secret}`) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  const runs = await runDueJobs(jobs, jobRuns);
+  return c.json({ runs });
+});
+
+export default jobsEndpoint;
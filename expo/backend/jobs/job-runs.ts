@@ -0,0 +1,40 @@
+/**
+ * Job Runs
+ * Records scheduled job runs in job_runs, one row per job per interval
+ */
+
+import { supabaseAdmin } from '../../lib/supabase';
+import type { JobRunStore } from './runner';
+
+// Postgres unique_violation: another runner already claimed this interval
+const UNIQUE_VIOLATION = '23505';
+
+export const jobRuns: JobRunStore = {
+  claim: async (jobName, runKey) => {
+    if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+    const { data: run, error } = await supabaseAdmin
+      .from('job_runs')
+      .insert({ job_name: jobName, run_key: runKey, status: 'running' })
+      .select('id')
+      .single();
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) return null;
+      throw error;
+    }
+
+    return run.id;
+  },
+
+  finish: async (runId, outcome) => {
+    if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+    const { error } = await supabaseAdmin
+      .from('job_runs')
+      .update({ ...outcome, finished_at: new Date().toISOString() })
+      .eq('id', runId);
+
+    if (error) throw error;
+  },
+};
@@ -0,0 +1,62 @@
+/**
+ * Media Jobs
+ * Delete Cloudinary assets whose photos were removed, replaced or deleted with their listing
+ */
+
+import { supabaseAdmin } from '../../lib/supabase';
+import { cloudinaryService } from '../../services/cloudinary';
+import type { Job } from './runner';
+
+// Cloudinary deletes at most 100 assets per call
+const BATCH_SIZE = 100;
+
+// Assets that keep failing are left for someone to look at
+const MAX_ATTEMPTS = 5;
+
+/**
+ * Delete queued assets from Cloudinary, oldest first
+ */
+export const deleteOrphanedMedia: Job = {
+  name: 'delete-orphaned-media',
+  intervalMinutes: 15,
+  run: async () => {
+    if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+    const { data: queued, error } = await supabaseAdmin
+      .from('media_deletions')
+      .select('public_id, attempts')
+      .lt('attempts', MAX_ATTEMPTS)
+      .order('created_at', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (error) throw error;
+    if (!queued || queued.length === 0) return { deleted: 0, failed: 0 };
+
+    const publicIds = queued.map((asset) => asset.public_id);
+
+    try {
+      // Assets Cloudinary no longer has count as deleted
+      await cloudinaryService.deleteImages(publicIds);
+    } catch (deleteError) {
+      const message = deleteError instanceof Error ? deleteError.message : String(deleteError);
+
+      for (const asset of queued) {
+        await supabaseAdmin
+          .from('media_deletions')
+          .update({ attempts: asset.attempts + 1, last_error: message })
+          .eq('public_id', asset.public_id);
+      }
+
+      return { deleted: 0, failed: queued.length };
+    }
+
+    const { error: dequeueError } = await supabaseAdmin
+      .from('media_deletions')
+      .delete()
+      .in('public_id', publicIds);
+
+    if (dequeueError) throw dequeueError;
+
+    return { deleted: publicIds.length, failed: 0 };
+  },
+};
@@ -0,0 +1,183 @@
+/**
+ * Review Jobs
+ * Remind both parties to review, and publish reviews once the review window closes
+ */
+
+import { format, subDays } from 'date-fns';
+import { supabaseAdmin } from '../../lib/supabase';
+import { emailService } from '../../services/email';
+import {
+  REVIEW_PUBLISH_DAYS,
+  updateListingRating,
+  updateUserRating,
+} from '../trpc/routes/reviews/ratings';
+import type { Database } from '../../types/database';
+import { firstOf } from './embeds';
+import type { Job } from './runner';
+
+type Tables = Database['public']['Tables'];
+
+// The profile columns selected for reminders
+type EmailableProfile = Pick<Tables['profiles']['Row'], 'email'> & {
+  preferences: ReviewEmailPreferences | ReviewEmailPreferences[] | null;
+};
+
+type ReviewEmailPreferences = Pick<
+  Tables['notification_preferences']['Row'],
+  'email_enabled' | 'review_notifications'
+>;
+
+// Maximum number of bookings handled per run
+const BATCH_SIZE = 100;
+
+// Give people a day after the rental before nudging them
+const REVIEW_REMINDER_DELAY_DAYS = 1;
+
+/**
+ * Email whoever hasn't reviewed a completed booking yet
+ */
+export const sendReviewReminders: Job = {
+  name: 'send-review-reminders',
+  intervalMinutes: 60,
+  run: async (now) => {
+    if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+    const { data: bookings, error } = await supabaseAdmin
+      .from('bookings')
+      .select(
+        `
+        id,
+        renter_reviewed,
+        owner_reviewed,
+        listing:listings (
+          title
+        ),
+        renter:profiles!renter_id (
+          email,
+          preferences:notification_preferences (
+            email_enabled,
+            review_notifications
+          )
+        ),
+        owner:profiles!owner_id (
+          email,
+          preferences:notification_preferences (
+            email_enabled,
+            review_notifications
+          )
+        )
+      `
+      )
+      .eq('status', 'completed')
+      .is('review_reminder_sent_at', null)
+      .lte('completed_at', subDays(now, REVIEW_REMINDER_DELAY_DAYS).toISOString())
+      .gte('end_date', format(subDays(now, REVIEW_PUBLISH_DAYS), 'yyyy-MM-dd'))
+      .or('renter_reviewed.eq.false,owner_reviewed.eq.false')
+      .limit(BATCH_SIZE);
+
+    if (error) throw error;
+
+    let sent = 0;
+    let failed = 0;
+
+    // A failed reminder is retried next run without holding up the rest
+    for (const booking of bookings || []) {
+      try {
+        const reviewLink = `${process.env.APP_URL}/bookings/${booking.id}/review`;
+
+        const recipients = [
+          !booking.renter_reviewed && firstOf(booking.renter),
+          !booking.owner_reviewed && firstOf(booking.owner),
+        ];
+
+        for (const profile of recipients) {
+          if (!profile || !wantsReviewEmails(profile)) continue;
+
+          await emailService.sendReviewReminder(profile.email, {
+            listingTitle: firstOf(booking.listing)?.title ?? 'your rental',
+            reviewLink,
+          });
+          sent++;
+        }
+
+        const { error: stampError } = await supabaseAdmin
+          .from('bookings')
+          .update({ review_reminder_sent_at: now.toISOString() })
+          .eq('id', booking.id);
+
+        if (stampError) throw stampError;
+      } catch (error) {
+        console.error(`Error sending review reminders for booking ${booking.id}:`, error);
+        failed++;
+      }
+    }
+
+    return { checked: bookings?.length || 0, sent, failed };
+  },
+};
+
+/**
+ * Publish one-sided reviews once the review window has closed
+ */
+export const publishExpiredReviews: Job = {
+  name: 'publish-expired-reviews',
+  intervalMinutes: 60,
+  run: async (now) => {
+    if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+    const cutoff = format(subDays(now, REVIEW_PUBLISH_DAYS), 'yyyy-MM-dd');
+
+    const { data: reviews, error } = await supabaseAdmin
+      .from('reviews')
+      .select('id, booking_id, listing_id, reviewee_id, review_type, booking:bookings!inner(end_date)')
+      .is('published_at', null)
+      .lt('booking.end_date', cutoff)
+      .limit(BATCH_SIZE);
+
+    if (error) throw error;
+    if (!reviews || reviews.length === 0) return { published: 0 };
+
+    const { error: publishError } = await supabaseAdmin
+      .from('reviews')
+      .update({ published_at: now.toISOString() })
+      .in(
+        'id',
+        reviews.map((r) => r.id)
+      )
+      .is('published_at', null);
+
+    if (publishError) throw publishError;
+
+    // Refresh the aggregates the newly published reviews count towards
+    const listingIds = new Set<string>();
+    const userIds = new Set<string>();
+
+    for (const review of reviews) {
+      if (review.review_type === 'listing' && review.listing_id) {
+        listingIds.add(review.listing_id);
+      }
+      userIds.add(review.reviewee_id);
+    }
+
+    for (const listingId of listingIds) {
+      await updateListingRating(listingId);
+    }
+    for (const userId of userIds) {
+      await updateUserRating(userId);
+    }
+
+    return { published: reviews.length };
+  },
+};
+
+/**
+ * Helper: Whether a user wants review emails
+ */
+function wantsReviewEmails(profile: EmailableProfile): boolean {
+  if (!profile?.email) return false;
+
+  const preferences = firstOf(profile.preferences);
+
+  // Users without a preferences row get the defaults, which are on
+  return preferences?.email_enabled !== false && preferences?.review_notifications !== false;
+}
@@ -0,0 +1,164 @@
+/**
+ * Job Runner Tests
+ * Jobs run against an in-memory run store and a fixed clock, with no database
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { runDueJobs, runJob, type Job, type JobResult, type JobRunStore } from './runner';
+
+interface RecordedRun {
+  jobName: string;
+  runKey: string;
+  status: 'running' | 'succeeded' | 'failed';
+  result?: JobResult;
+  error?: string;
+}
+
+// Mirrors job_runs: one run per job per interval
+const memoryStore = () => {
+  const runs = new Map<string, RecordedRun>();
+
+  const store: JobRunStore = {
+    claim: async (jobName, runKey) => {
+      const id = `${jobName}@${runKey}`;
+      if (runs.has(id)) return null;
+      runs.set(id, { jobName, runKey, status: 'running' });
+      return id;
+    },
+    finish: async (runId, outcome) => {
+      Object.assign(runs.get(runId)!, outcome);
+    },
+  };
+
+  return { store, runs };
+};
+
+const job = (
+  name: string,
+  intervalMinutes: number,
+  run: Job['run'] = async () => ({ handled: 1 })
+): Job & { calls: Date[] } => {
+  const calls: Date[] = [];
+  return {
+    name,
+    intervalMinutes,
+    calls,
+    run: (now) => {
+      calls.push(now);
+      return run(now);
+    },
+  };
+};
+
+const at = (time: string) => new Date(`2026-06-01T${time}:00.000Z`);
+
+describe('runJob', () => {
+  it('runs a job once per interval, keyed by the start of the interval', async () => {
+    const { store, runs } = memoryStore();
+    const everyQuarterHour = job('expire', 15);
+
+    const first = await runJob(everyQuarterHour, store, at('10:07'));
+    const again = await runJob(everyQuarterHour, store, at('10:14'));
+    const next = await runJob(everyQuarterHour, store, at('10:15'));
+
+    assert.deepEqual(
+      [first.status, again.status, next.status],
+      ['succeeded', 'skipped', 'succeeded']
+    );
+    assert.equal(first.runKey, at('10:00').toISOString());
+    assert.equal(next.runKey, at('10:15').toISOString());
+    assert.deepEqual(everyQuarterHour.calls, [at('10:07'), at('10:15')]);
+    assert.equal(runs.size, 2);
+  });
+
+  it('passes the injected time to the job and records its result', async () => {
+    const { store, runs } = memoryStore();
+    const reminders = job('reminders', 60, async (now) => ({ hour: now.getUTCHours() }));
+
+    const summary = await runJob(reminders, store, at('13:30'));
+
+    assert.deepEqual(summary.result, { hour: 13 });
+    assert.deepEqual([...runs.values()][0], {
+      jobName: 'reminders',
+      runKey: at('13:00').toISOString(),
+      status: 'succeeded',
+      result: { hour: 13 },
+    });
+  });
+
+  it('lets only one of two concurrent runners claim an interval', async () => {
+    const { store } = memoryStore();
+    let release!: () => void;
+    const slow = job(
+      'payouts',
+      60,
+      () => new Promise<JobResult>((resolve) => (release = () => resolve({ paid: 1 })))
+    );
+
+    const first = runJob(slow, store, at('09:00'));
+    const second = await runJob(slow, store, at('09:01'));
+    release();
+
+    assert.equal(second.status, 'skipped');
+    assert.equal((await first).status, 'succeeded');
+    assert.equal(slow.calls.length, 1);
+  });
+
+  it('records a failed run without throwing, and skips the rest of the interval', async () => {
+    const { store, runs } = memoryStore();
+    const broken = job('sync', 30, async () => {
+      throw new Error('feed unreachable');
+    });
+
+    const summary = await runJob(broken, store, at('08:10'));
+    const retry = await runJob(broken, store, at('08:20'));
+
+    assert.deepEqual(summary, {
+      job: 'sync',
+      runKey: at('08:00').toISOString(),
+      status: 'failed',
+      error: 'feed unreachable',
+    });
+    assert.equal(retry.status, 'skipped');
+    assert.equal([...runs.values()][0].status, 'failed');
+  });
+});
+
+describe('runDueJobs', () => {
+  it('runs only the jobs whose interval has not run yet', async () => {
+    const { store } = memoryStore();
+    const quarterHourly = job('expire', 15);
+    const hourly = job('reminders', 60);
+
+    await runDueJobs([quarterHourly, hourly], store, at('10:05'));
+    const later = await runDueJobs([quarterHourly, hourly], store, at('10:20'));
+
+    assert.deepEqual(
+      later.map((run) => [run.job, run.status]),
+      [
+        ['expire', 'succeeded'],
+        ['reminders', 'skipped'],
+      ]
+    );
+    assert.equal(quarterHourly.calls.length, 2);
+    assert.equal(hourly.calls.length, 1);
+  });
+
+  it('keeps running the other jobs when one fails', async () => {
+    const { store } = memoryStore();
+    const before = job('before', 15);
+    const broken = job('broken', 15, async () => {
+      throw new Error('boom');
+    });
+    const after = job('after', 15);
+
+    const summaries = await runDueJobs([before, broken, after], store, at('11:00'));
+
+    assert.deepEqual(
+      summaries.map((run) => run.status),
+      ['succeeded', 'failed', 'succeeded']
+    );
+    assert.equal(after.calls.length, 1);
+  });
+});
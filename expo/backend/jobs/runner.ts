@@ -0,0 +1,118 @@
+/**
+ * Scheduled Jobs Runner
+ * Runs periodic backend tasks at most once per interval and records every run. Runs are
+ * recorded through a JobRunStore: job_runs in production, in memory in tests.
+ */
+
+export type JobResult = Record<string, number>;
+
+export interface Job {
+  name: string;
+  intervalMinutes: number;
+  run: (now: Date) => Promise<JobResult>;
+}
+
+export interface JobRunSummary {
+  job: string;
+  runKey: string;
+  status: 'succeeded' | 'failed' | 'skipped';
+  result?: JobResult;
+  error?: string;
+}
+
+export interface JobRunStore {
+  // Claim a job's interval, returning the run's ID, or null if it is already claimed
+  claim: (jobName: string, runKey: string) => Promise<string | null>;
+  finish: (
+    runId: string,
+    outcome: { status: 'succeeded'; result: JobResult } | { status: 'failed'; error: string }
+  ) => Promise<void>;
+}
+
+/**
+ * Helper: Identify the interval a run belongs to, e.g. the 15-minute slot starting 10:15
+ */
+function runKeyFor(job: Job, now: Date): string {
+  const intervalMs = job.intervalMinutes * 60 * 1000;
+  const slotStart = Math.floor(now.getTime() / intervalMs) * intervalMs;
+  return new Date(slotStart).toISOString();
+}
+
+/**
+ * Run a job unless it has already run in the current interval
+ */
+export async function runJob(
+  job: Job,
+  store: JobRunStore,
+  now: Date = new Date()
+): Promise<JobRunSummary> {
+  const runKey = runKeyFor(job, now);
+
+  // Claim the interval so concurrent runners (or a retried cron call) don't double-run
+  const runId = await store.claim(job.name, runKey);
+  if (!runId) {
+    return { job: job.name, runKey, status: 'skipped' };
+  }
+
+  let result: JobResult;
+  try {
+    result = await job.run(now);
+  } catch (error: any) {
+    console.error(`Error running job ${job.name}:`, error);
+
+    const message = error?.message || 'Unknown error';
+    await store.finish(runId, { status: 'failed', error: message });
+
+    return { job: job.name, runKey, status: 'failed', error: message };
+  }
+
+  await store.finish(runId, { status: 'succeeded', result });
+
+  return { job: job.name, runKey, status: 'succeeded', result };
+}
+
+/**
+ * Run every job that is due, one after another. A failing job doesn't stop the rest.
+ */
+export async function runDueJobs(
+  jobs: Job[],
+  store: JobRunStore,
+  now: Date = new Date()
+): Promise<JobRunSummary[]> {
+  const summaries: JobRunSummary[] = [];
+
+  for (const job of jobs) {
+    summaries.push(await runJob(job, store, now));
+  }
+
+  return summaries;
+}
+
+/**
+ * In-process driver: check for due jobs on a timer. Returns a function that stops it.
+ */
+export function startJobScheduler(
+  jobs: Job[],
+  store: JobRunStore,
+  { tickMs = 60 * 1000 } = {}
+) {
+  let running = false;
+
+  const tick = async () => {
+    // Skip a tick rather than overlap a slow one
+    if (running) return;
+    running = true;
+    try {
+      await runDueJobs(jobs, store);
+    } catch (error) {
+      console.error('Error running scheduled jobs:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, tickMs);
+  void tick();
+
+  return () => clearInterval(timer);
+}
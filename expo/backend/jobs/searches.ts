@@ -0,0 +1,243 @@
+/**
+ * Saved Search Jobs
+ * Alert renters about newly published listings that match their saved searches
+ */
+
+import { supabaseAdmin } from '../../lib/supabase';
+import { emailService } from '../../services/email';
+import type { Database } from '../../types/database';
+import { firstOf } from './embeds';
+import type { Job } from './runner';
+
+type Tables = Database['public']['Tables'];
+
+type AlertListing = Pick<
+  Tables['listings']['Row'],
+  'id' | 'title' | 'daily_rate' | 'city' | 'province' | 'saved_search_alert_attempts'
+>;
+
+type SavedSearchMatch = Database['public']['Functions']['match_saved_searches']['Returns'][number];
+
+// The saved search owner's columns selected for alerts
+type AlertProfile = Pick<Tables['profiles']['Row'], 'email'> & {
+  preferences: AlertPreferences | AlertPreferences[] | null;
+};
+
+type AlertPreferences = Pick<
+  Tables['notification_preferences']['Row'],
+  'push_enabled' | 'email_enabled' | 'saved_search_notifications'
+>;
+
+// Maximum number of listings handled per run
+const BATCH_SIZE = 50;
+
+// A listing whose alerts keep failing is given up on after this many runs, so it
+// can't hold up alerts for newer listings
+const MAX_ALERT_ATTEMPTS = 5;
+
+/**
+ * Match newly published listings against saved searches and notify each match once
+ */
+export const sendSavedSearchAlerts: Job = {
+  name: 'send-saved-search-alerts',
+  intervalMinutes: 15,
+  run: async (now) => {
+    if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+    const { data: listings, error } = await supabaseAdmin
+      .from('listings')
+      .select('id, title, daily_rate, city, province, saved_search_alert_attempts')
+      .not('published_at', 'is', null)
+      .is('saved_searches_checked_at', null)
+      .eq('is_active', true)
+      .eq('is_draft', false)
+      .order('published_at', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (error) throw error;
+
+    let alerted = 0;
+    let failed = 0;
+
+    // A failing listing is left unchecked and retried on later runs; the rest go ahead
+    for (const listing of listings || []) {
+      try {
+        const { data: matches, error: matchError } = await supabaseAdmin.rpc(
+          'match_saved_searches',
+          { p_listing_id: listing.id }
+        );
+
+        if (matchError) throw matchError;
+
+        let undelivered = 0;
+
+        for (const match of matches || []) {
+          try {
+            if (await deliverAlert(listing, match, now)) alerted++;
+          } catch (error) {
+            console.error(
+              `Error alerting saved search ${match.saved_search_id} about listing ${listing.id}:`,
+              error
+            );
+            undelivered++;
+          }
+        }
+
+        if (undelivered > 0) {
+          throw new Error(`${undelivered} of ${matches.length} alerts weren't delivered`);
+        }
+
+        const { error: checkedError } = await supabaseAdmin
+          .from('listings')
+          .update({ saved_searches_checked_at: now.toISOString() })
+          .eq('id', listing.id);
+
+        if (checkedError) throw checkedError;
+      } catch (error) {
+        console.error(`Error alerting saved searches about listing ${listing.id}:`, error);
+        failed++;
+        await recordFailedAttempt(listing, now).catch((recordError) =>
+          console.error(`Error recording failed alerts for listing ${listing.id}:`, recordError)
+        );
+      }
+    }
+
+    return { checked: listings?.length || 0, alerted, failed };
+  },
+};
+
+/**
+ * Helper: Notify a saved search's owner about a listing, unless they already were.
+ * The alert row is claimed before anything is sent, so a retry never notifies twice;
+ * the claim is only given back when nothing reached the user. Returns whether an
+ * alert went out.
+ */
+async function deliverAlert(
+  listing: AlertListing,
+  match: SavedSearchMatch,
+  now: Date
+): Promise<boolean> {
+  if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+  const { data: savedSearch, error: searchError } = await supabaseAdmin
+    .from('saved_searches')
+    .select(
+      `
+      id,
+      name,
+      user:profiles!user_id (
+        email,
+        preferences:notification_preferences (
+          push_enabled,
+          email_enabled,
+          saved_search_notifications
+        )
+      )
+    `
+    )
+    .eq('id', match.saved_search_id)
+    .maybeSingle();
+
+  if (searchError) throw searchError;
+  if (!savedSearch) return false;
+
+  const user = firstOf(savedSearch.user);
+  const channels = alertChannels(user);
+  if (channels.length === 0) return false;
+
+  // The unique alert row keeps this listing from alerting the same search twice
+  const { data: claimed, error: claimError } = await supabaseAdmin
+    .from('saved_search_alerts')
+    .upsert(
+      { saved_search_id: match.saved_search_id, listing_id: listing.id },
+      { onConflict: 'saved_search_id,listing_id', ignoreDuplicates: true }
+    )
+    .select('id')
+    .maybeSingle();
+
+  if (claimError) throw claimError;
+  if (!claimed) return false;
+
+  const listingLink = `${process.env.APP_URL}/listing/${listing.id}`;
+
+  const { error: notificationError } = await supabaseAdmin.from('notifications').insert({
+    user_id: match.user_id,
+    type: 'saved_search',
+    title: `New match for "${savedSearch.name}"`,
+    message: `${listing.title} is now available in ${listing.city} for $${Number(listing.daily_rate).toFixed(2)}/day.`,
+    listing_id: listing.id,
+    action_url: listingLink,
+    channels,
+  });
+
+  if (notificationError) {
+    // Nothing was sent, so give the claim back for the next run
+    await supabaseAdmin.from('saved_search_alerts').delete().eq('id', claimed.id);
+    throw notificationError;
+  }
+
+  // The in-app and push alert is out; a failed email isn't worth alerting twice for
+  if (channels.includes('email') && user?.email) {
+    try {
+      await emailService.sendSavedSearchAlert(user.email, {
+        searchName: savedSearch.name,
+        listingTitle: listing.title,
+        dailyRate: Number(listing.daily_rate),
+        location: `${listing.city}, ${listing.province}`,
+        listingLink,
+        manageLink: `${process.env.APP_URL}/saved-searches`,
+      });
+    } catch (error) {
+      console.error(`Error emailing saved search ${savedSearch.id} alert:`, error);
+    }
+  }
+
+  const { error: notifiedError } = await supabaseAdmin
+    .from('saved_searches')
+    .update({ last_notified_at: now.toISOString() })
+    .eq('id', savedSearch.id);
+
+  if (notifiedError) throw notifiedError;
+
+  return true;
+}
+
+/**
+ * Helper: Count a run that couldn't send a listing's alerts, giving up on the listing
+ * once it has failed MAX_ALERT_ATTEMPTS times
+ */
+async function recordFailedAttempt(listing: AlertListing, now: Date) {
+  if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+  const attempts = listing.saved_search_alert_attempts + 1;
+  const givingUp = attempts >= MAX_ALERT_ATTEMPTS;
+
+  if (givingUp) {
+    console.error(`Giving up on saved search alerts for listing ${listing.id}`);
+  }
+
+  const { error } = await supabaseAdmin
+    .from('listings')
+    .update({
+      saved_search_alert_attempts: attempts,
+      ...(givingUp && { saved_searches_checked_at: now.toISOString() }),
+    })
+    .eq('id', listing.id);
+
+  if (error) throw error;
+}
+
+/**
+ * Helper: The channels a user wants saved search alerts on
+ */
+function alertChannels(profile: AlertProfile | null): ('push' | 'email')[] {
+  const preferences = firstOf(profile?.preferences);
+
+  // Users without a preferences row get the defaults, which are on
+  if (preferences?.saved_search_notifications === false) return [];
+
+  const channels: ('push' | 'email')[] = [];
+  if (preferences?.push_enabled !== false) channels.push('push');
+  if (preferences?.email_enabled !== false && profile?.email) channels.push('email');
+  return channels;
+}
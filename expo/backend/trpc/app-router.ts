@@ -5,6 +5,12 @@ import bookingsRouter from "./routes/bookings/route";
 import authRouter from "./routes/auth/route";
 import messagesRouter from "./routes/messages/route";
 import reviewsRouter from "./routes/reviews/route";
+import disputesRouter from "./routes/disputes/route";
+import paymentsRouter from "./routes/payments/route";
+import payoutsRouter from "./routes/payouts/route";
+import savedSearchesRouter from "./routes/saved-searches/route";
+import golfCoursesRouter from "./routes/golf-courses/route";
+import mediaRouter from "./routes/media/route";
 
 export const appRouter = createTRPCRouter({
   // Example routes
@@ -18,6 +24,12 @@ export const appRouter = createTRPCRouter({
   auth: authRouter,
   messages: messagesRouter,
   reviews: reviewsRouter,
+  disputes: disputesRouter,
+  payments: paymentsRouter,
+  payouts: payoutsRouter,
+  savedSearches: savedSearchesRouter,
+  golfCourses: golfCoursesRouter,
+  media: mediaRouter,
 });
 
 export type AppRouter = typeof appRouter;
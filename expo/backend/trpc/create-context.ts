@@ -54,3 +54,16 @@ export const protectedProcedure = t.procedure.use(({ ctx, next }) => {
     },
   });
 });
+
+// Admin procedure - requires an authenticated user with the admin role.
+// The role lives in Supabase app_metadata, which only the service role can write.
+export const adminProcedure = protectedProcedure.use(({ ctx, next }) => {
+  if (ctx.user.app_metadata?.role !== 'admin') {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'Admin access required',
+    });
+  }
+
+  return next({ ctx });
+});
@@ -6,6 +6,7 @@
 import { z } from 'zod';
 import { router, publicProcedure, protectedProcedure } from '../../create-context';
 import { supabase, supabaseAdmin, auth } from '../../../../lib/supabase';
+import { profileFromRow, userToRow } from '../../../../lib/domain';
 import { smsService } from '../../../../services/sms';
 import { emailService } from '../../../../services/email';
 import { stripeService } from '../../../../services/stripe';
@@ -155,16 +156,18 @@ export const authRouter = router({
 
       if (error) throw error;
 
+      const mapped = profileFromRow(profile);
+
       // Hide private info if viewing another user's profile
       if (userId && userId !== ctx.user?.id) {
         return {
-          ...profile,
-          email: profile.show_email ? profile.email : null,
-          phone_number: profile.show_phone ? profile.phone_number : null,
+          ...mapped,
+          email: mapped.showEmail ? mapped.email : null,
+          phoneNumber: mapped.showPhone ? mapped.phoneNumber : null,
         };
       }
 
-      return profile;
+      return mapped;
     }),
 
   /**
@@ -188,23 +191,12 @@ export const authRouter = router({
       if (!supabaseAdmin) throw new Error('Supabase not configured');
       if (!ctx.user) throw new Error('Not authenticated');
 
-      const updates: any = {};
-
-      if (input.firstName) updates.first_name = input.firstName;
-      if (input.lastName) updates.last_name = input.lastName;
-      if (input.bio !== undefined) updates.bio = input.bio;
-      if (input.experienceLevel) updates.experience_level = input.experienceLevel;
-      if (input.handicap !== undefined) updates.handicap = input.handicap;
-      if (input.homeCourseId) updates.home_course_id = input.homeCourseId;
-      if (input.showEmail !== undefined) updates.show_email = input.showEmail;
-      if (input.showPhone !== undefined) updates.show_phone = input.showPhone;
+      const { avatarBase64, ...fields } = input;
+      const updates = userToRow(fields);
 
       // Upload avatar if provided
-      if (input.avatarBase64) {
-        const uploadResult = await cloudinaryService.uploadAvatar(
-          ctx.user.id,
-          input.avatarBase64
-        );
+      if (avatarBase64) {
+        const uploadResult = await cloudinaryService.uploadAvatar(ctx.user.id, avatarBase64);
         updates.avatar_url = uploadResult.secureUrl;
       }
 
@@ -217,7 +209,7 @@ export const authRouter = router({
 
       if (error) throw error;
 
-      return { success: true, profile };
+      return { success: true, profile: profileFromRow(profile) };
     }),
 
   /**
@@ -4,12 +4,19 @@
  */
 
 import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
 import { router, protectedProcedure } from '../../create-context';
 import { supabaseAdmin } from '../../../../lib/supabase';
+import { bookingFromRow, bookingStatusSchema, toDbEnum } from '../../../../lib/domain';
 import { stripeService } from '../../../../services/stripe';
+import { paymentsLedger } from '../payments/ledger';
+import { queuePayout } from '../payouts/scheduler';
+import { assertTransition, transitionBooking } from './state-machine';
+import { depositReleasedUpdates, settleBooking } from './settlement';
+import { listingVersionFromRow } from '../listings/versions';
 import { emailService } from '../../../../services/email';
 import { smsService } from '../../../../services/sms';
-import { addDays, differenceInDays, format } from 'date-fns';
+import { addDays, differenceInDays, format, startOfDay } from 'date-fns';
 
 const createBookingInput = z.object({
   listingId: z.string().uuid(),
@@ -44,10 +51,15 @@ export const bookingsRouter = router({
               first_name,
               last_name,
               phone_number
+            ),
+            versions:listing_versions (
+              id
             )
           `
           )
           .eq('id', input.listingId)
+          .order('version', { referencedTable: 'versions', ascending: false })
+          .limit(1, { referencedTable: 'versions' })
           .single();
 
         if (listingError || !listing) {
@@ -72,20 +84,6 @@ export const bookingsRouter = router({
           );
         }
 
-        // Check availability
-        const { data: conflictingBookings } = await supabaseAdmin
-          .from('bookings')
-          .select('id')
-          .eq('listing_id', input.listingId)
-          .in('status', ['confirmed', 'in_progress'])
-          .or(
-            `and(start_date.lte.${input.endDate},end_date.gte.${input.startDate})`
-          );
-
-        if (conflictingBookings && conflictingBookings.length > 0) {
-          throw new Error('Listing is not available for selected dates');
-        }
-
         // Calculate pricing
         const dailyRate = listing.daily_rate;
         const totalRentalFee =
@@ -106,59 +104,95 @@ export const bookingsRouter = router({
           .eq('id', ctx.user.id)
           .single();
 
-        // Create payment intent
-        const paymentIntent = await stripeService.createPaymentIntent({
-          amount: totalAmount,
-          customerId: input.paymentMethodId,
-          metadata: {
-            listing_id: input.listingId,
-            renter_id: ctx.user.id,
-            owner_id: listing.owner_id,
-          },
-          description: `ClubSwap rental: ${listing.title}`,
-        });
-
-        // Create security deposit hold
-        const depositHold = await stripeService.createDepositHold({
-          amount: listing.security_deposit,
-          customerId: input.paymentMethodId,
-          metadata: {
-            listing_id: input.listingId,
-            renter_id: ctx.user.id,
-            type: 'security_deposit',
-          },
-        });
-
-        // Create booking record
+        // Reserve the dates before charging so every payment can be recorded against
+        // the booking. The database rejects overlapping reservations atomically.
         const bookingStatus = listing.instant_booking ? 'confirmed' : 'pending';
 
-        const { data: booking, error: bookingError } = await supabaseAdmin
+        const { data: createdBooking, error: bookingError } = await supabaseAdmin.rpc(
+          'reserve_booking',
+          {
+            p_booking: {
+              listing_id: input.listingId,
+              // The version priced here; the reservation fails if the listing has changed since
+              listing_version_id: listing.versions[0]?.id ?? null,
+              renter_id: ctx.user.id,
+              start_date: input.startDate,
+              end_date: input.endDate,
+              rental_days: rentalDays,
+              daily_rate: dailyRate,
+              total_rental_fee: totalRentalFee,
+              service_fee: fees.serviceFee,
+              security_deposit: listing.security_deposit,
+              delivery_fee: deliveryFee,
+              total_amount: totalAmount,
+              status: bookingStatus,
+              pickup_method: input.pickupMethod,
+              delivery_address: input.deliveryAddress,
+              renter_message: input.renterMessage,
+              confirmed_at: listing.instant_booking ? new Date().toISOString() : null,
+            },
+          }
+        );
+
+        if (bookingError) throw reservationError(bookingError);
+
+        const ledgerContext = { bookingId: createdBooking.id, userId: ctx.user.id };
+
+        let paymentIntent;
+        let depositHold;
+
+        try {
+          // Create payment intent
+          paymentIntent = await paymentsLedger.createPaymentIntent(ledgerContext, {
+            amount: totalAmount,
+            customerId: input.paymentMethodId,
+            metadata: {
+              booking_id: createdBooking.id,
+              listing_id: input.listingId,
+              renter_id: ctx.user.id,
+              owner_id: listing.owner_id,
+            },
+            description: `ClubSwap rental: ${listing.title}`,
+          });
+
+          // Create security deposit hold
+          depositHold = await paymentsLedger.createDepositHold(ledgerContext, {
+            amount: listing.security_deposit,
+            customerId: input.paymentMethodId,
+            metadata: {
+              booking_id: createdBooking.id,
+              listing_id: input.listingId,
+              renter_id: ctx.user.id,
+              type: 'security_deposit',
+            },
+          });
+        } catch (paymentError) {
+          // Don't leave a payment-less booking blocking the calendar
+          if (paymentIntent) {
+            await paymentsLedger.releaseDeposit(ledgerContext, paymentIntent.id, {
+              amount: totalAmount,
+              paymentType: 'rental_void',
+            });
+          }
+
+          await transitionBooking(createdBooking.id, bookingStatus, 'cancelled', {
+            payment_status: 'failed',
+          });
+
+          throw paymentError;
+        }
+
+        const { data: booking, error: paymentUpdateError } = await supabaseAdmin
           .from('bookings')
-          .insert({
-            listing_id: input.listingId,
-            renter_id: ctx.user.id,
-            owner_id: listing.owner_id,
-            start_date: input.startDate,
-            end_date: input.endDate,
-            rental_days: rentalDays,
-            daily_rate: dailyRate,
-            total_rental_fee: totalRentalFee,
-            service_fee: fees.serviceFee,
-            security_deposit: listing.security_deposit,
-            delivery_fee: deliveryFee,
-            total_amount: totalAmount,
+          .update({
             stripe_payment_intent_id: paymentIntent.id,
             stripe_deposit_hold_id: depositHold.id,
-            status: bookingStatus,
-            pickup_method: input.pickupMethod,
-            delivery_address: input.deliveryAddress,
-            renter_message: input.renterMessage,
-            confirmed_at: listing.instant_booking ? new Date().toISOString() : null,
           })
+          .eq('id', createdBooking.id)
           .select()
           .single();
 
-        if (bookingError) throw bookingError;
+        if (paymentUpdateError) throw paymentUpdateError;
 
         // Send notifications
         if (listing.instant_booking) {
@@ -197,7 +231,7 @@ export const bookingsRouter = router({
 
         return {
           success: true,
-          booking,
+          booking: bookingFromRow(booking),
           requiresApproval: !listing.instant_booking,
         };
       } catch (error) {
@@ -245,6 +279,12 @@ export const bookingsRouter = router({
             phone_number,
             overall_rating,
             total_reviews
+          ),
+          listing_version:listing_versions (
+            id,
+            version,
+            snapshot,
+            created_at
           )
         `
         )
@@ -258,7 +298,13 @@ export const bookingsRouter = router({
         throw new Error('Unauthorized');
       }
 
-      return booking;
+      return {
+        ...bookingFromRow(booking),
+        // The listing as it was when booked; null for bookings made before versions were kept
+        listingAsBooked: booking.listing_version
+          ? listingVersionFromRow(booking.listing_version)
+          : null,
+      };
     }),
 
   /**
@@ -268,9 +314,7 @@ export const bookingsRouter = router({
     .input(
       z.object({
         role: z.enum(['renter', 'owner']),
-        status: z
-          .enum(['pending', 'confirmed', 'in_progress', 'completed', 'cancelled'])
-          .optional(),
+        status: bookingStatusSchema.optional(),
       })
     )
     .query(async ({ input, ctx }) => {
@@ -316,7 +360,7 @@ export const bookingsRouter = router({
       }
 
       if (input.status) {
-        query = query.eq('status', input.status);
+        query = query.eq('status', toDbEnum(input.status));
       }
 
       query = query.order('created_at', { ascending: false });
@@ -325,7 +369,7 @@ export const bookingsRouter = router({
 
       if (error) throw error;
 
-      return bookings || [];
+      return (bookings || []).map((booking) => bookingFromRow(booking));
     }),
 
   /**
@@ -346,22 +390,8 @@ export const bookingsRouter = router({
 
       if (!booking) throw new Error('Booking not found');
       if (booking.owner_id !== ctx.user.id) throw new Error('Unauthorized');
-      if (booking.status !== 'pending') {
-        throw new Error('Booking is not pending');
-      }
 
-      // Update booking status
-      const { data: updatedBooking, error } = await supabaseAdmin
-        .from('bookings')
-        .update({
-          status: 'confirmed',
-          confirmed_at: new Date().toISOString(),
-        })
-        .eq('id', bookingId)
-        .select()
-        .single();
-
-      if (error) throw error;
+      const updatedBooking = await transitionBooking(bookingId, booking.status, 'confirmed');
 
       // Send confirmation email to renter
       await emailService.sendBookingConfirmation(booking.renter.email, {
@@ -374,7 +404,7 @@ export const bookingsRouter = router({
         pickupAddress: booking.listing.address || booking.listing.city,
       });
 
-      return { success: true, booking: updatedBooking };
+      return { success: true, booking: bookingFromRow(updatedBooking) };
     }),
 
   /**
@@ -400,32 +430,36 @@ export const bookingsRouter = router({
 
       if (!booking) throw new Error('Booking not found');
       if (booking.owner_id !== ctx.user.id) throw new Error('Unauthorized');
-      if (booking.status !== 'pending') {
-        throw new Error('Booking is not pending');
-      }
+      assertTransition(booking.status, 'declined');
 
-      // Release payment and deposit holds
-      if (booking.stripe_payment_intent_id) {
-        await stripeService.releaseDeposit(booking.stripe_payment_intent_id);
-      }
-      if (booking.stripe_deposit_hold_id) {
-        await stripeService.releaseDeposit(booking.stripe_deposit_hold_id);
-      }
-
-      // Update booking status
-      const { data: updatedBooking, error } = await supabaseAdmin
-        .from('bookings')
-        .update({
-          status: 'declined',
-          owner_decline_reason: input.reason,
-        })
-        .eq('id', input.bookingId)
-        .select()
-        .single();
+      // Claim the decline first, so a concurrent cancel or decline can't release twice
+      const declinedBooking = await transitionBooking(input.bookingId, booking.status, 'declined', {
+        owner_decline_reason: input.reason,
+      });
 
-      if (error) throw error;
+      const ledgerContext = { bookingId: booking.id, userId: booking.renter_id };
 
-      return { success: true, booking: updatedBooking };
+      // Release payment and deposit holds
+      const { booking: updatedBooking, unsettled } = await settleBooking(declinedBooking, [
+        booking.stripe_payment_intent_id && {
+          description: 'release the rental payment',
+          run: () =>
+            paymentsLedger.releaseDeposit(ledgerContext, booking.stripe_payment_intent_id, {
+              amount: booking.total_amount,
+              paymentType: 'rental_void',
+            }),
+        },
+        booking.stripe_deposit_hold_id && {
+          description: 'release the security deposit',
+          run: () =>
+            paymentsLedger.releaseDeposit(ledgerContext, booking.stripe_deposit_hold_id, {
+              amount: booking.security_deposit,
+            }),
+          bookingUpdates: depositReleasedUpdates(),
+        },
+      ]);
+
+      return { success: true, booking: bookingFromRow(updatedBooking), unsettled };
     }),
 
   /**
@@ -456,6 +490,8 @@ export const bookingsRouter = router({
         throw new Error('Unauthorized');
       }
 
+      assertTransition(booking.status, 'cancelled');
+
       // Calculate refund based on cancellation policy
       const daysUntilStart = differenceInDays(
         new Date(booking.start_date),
@@ -463,7 +499,8 @@ export const bookingsRouter = router({
       );
 
       let refundAmount = 0;
-      const policy = booking.listing.cancellation_policy;
+      const policy =
+        (await cancellationPolicyWhenBooked(booking)) ?? booking.listing.cancellation_policy;
 
       if (policy === 'flexible' && daysUntilStart >= 1) {
         refundAmount = booking.total_amount;
@@ -473,44 +510,47 @@ export const bookingsRouter = router({
         refundAmount = booking.total_amount * 0.5;
       }
 
-      // Process refund if applicable
-      if (refundAmount > 0 && booking.stripe_payment_intent_id) {
-        await stripeService.createRefund(
-          booking.stripe_payment_intent_id,
-          refundAmount,
-          'requested_by_customer'
-        );
-      }
-
-      // Release deposit hold
-      if (booking.stripe_deposit_hold_id) {
-        await stripeService.releaseDeposit(booking.stripe_deposit_hold_id);
-      }
-
-      // Update booking
-      const { data: updatedBooking, error } = await supabaseAdmin
-        .from('bookings')
-        .update({
-          status: 'cancelled',
-          cancelled_at: new Date().toISOString(),
-        })
-        .eq('id', input.bookingId)
-        .select()
-        .single();
-
-      if (error) throw error;
+      // Claim the cancellation first, so two concurrent cancels can't both refund
+      const cancelledBooking = await transitionBooking(input.bookingId, booking.status, 'cancelled');
+
+      const ledgerContext = { bookingId: booking.id, userId: booking.renter_id };
+
+      const { booking: updatedBooking, unsettled } = await settleBooking(cancelledBooking, [
+        // Process refund if applicable
+        refundAmount > 0 &&
+          booking.stripe_payment_intent_id && {
+            description: 'refund the renter',
+            run: () =>
+              paymentsLedger.createRefund(
+                ledgerContext,
+                booking.stripe_payment_intent_id,
+                refundAmount,
+                'requested_by_customer'
+              ),
+          },
+        // Release deposit hold
+        booking.stripe_deposit_hold_id && {
+          description: 'release the security deposit',
+          run: () =>
+            paymentsLedger.releaseDeposit(ledgerContext, booking.stripe_deposit_hold_id, {
+              amount: booking.security_deposit,
+            }),
+          bookingUpdates: depositReleasedUpdates(),
+        },
+      ]);
 
       return {
         success: true,
-        booking: updatedBooking,
+        booking: bookingFromRow(updatedBooking),
         refundAmount,
+        unsettled,
       };
     }),
 
   /**
-   * Mark booking as completed
+   * Record the pickup handoff, starting the rental (renter or owner)
    */
-  complete: protectedProcedure
+  markPickedUp: protectedProcedure
     .input(z.string().uuid())
     .mutation(async ({ input: bookingId, ctx }) => {
       if (!supabaseAdmin) throw new Error('Supabase not configured');
@@ -523,30 +563,147 @@ export const bookingsRouter = router({
         .single();
 
       if (!booking) throw new Error('Booking not found');
-      if (booking.owner_id !== ctx.user.id) throw new Error('Unauthorized');
 
-      // Release security deposit
-      if (booking.stripe_deposit_hold_id && !booking.deposit_released) {
-        await stripeService.releaseDeposit(booking.stripe_deposit_hold_id);
+      // Verify user is renter or owner
+      if (booking.renter_id !== ctx.user.id && booking.owner_id !== ctx.user.id) {
+        throw new Error('Unauthorized');
       }
 
-      // Update booking
-      const { data: updatedBooking, error } = await supabaseAdmin
-        .from('bookings')
-        .update({
-          status: 'completed',
-          completed_at: new Date().toISOString(),
-          deposit_released: true,
-          deposit_release_date: new Date().toISOString(),
-        })
-        .eq('id', bookingId)
-        .select()
-        .single();
+      if (differenceInDays(new Date(booking.start_date), startOfDay(new Date())) > 0) {
+        throw new Error('Equipment cannot be picked up before the rental starts');
+      }
 
-      if (error) throw error;
+      const updatedBooking = await transitionBooking(bookingId, booking.status, 'in_progress');
+
+      return { success: true, booking: bookingFromRow(updatedBooking) };
+    }),
+
+  /**
+   * Record the return handoff, completing the rental (owner only)
+   */
+  markReturned: protectedProcedure
+    .input(z.string().uuid())
+    .mutation(async ({ input: bookingId, ctx }) => {
+      if (!supabaseAdmin) throw new Error('Supabase not configured');
+      if (!ctx.user) throw new Error('Not authenticated');
+
+      const updatedBooking = await completeBooking(bookingId, ctx.user.id);
+
+      return { success: true, booking: bookingFromRow(updatedBooking) };
+    }),
 
-      return { success: true, booking: updatedBooking };
+  /**
+   * Mark booking as completed (owner only). Same as markReturned.
+   */
+  complete: protectedProcedure
+    .input(z.string().uuid())
+    .mutation(async ({ input: bookingId, ctx }) => {
+      if (!supabaseAdmin) throw new Error('Supabase not configured');
+      if (!ctx.user) throw new Error('Not authenticated');
+
+      const updatedBooking = await completeBooking(bookingId, ctx.user.id);
+
+      return { success: true, booking: bookingFromRow(updatedBooking) };
     }),
 });
 
+/**
+ * Helper: Complete an in-progress booking once the equipment is back with the owner.
+ * Releases the deposit unless a dispute is active, and queues the owner payout.
+ */
+async function completeBooking(bookingId: string, userId: string) {
+  if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+  const { data: booking } = await supabaseAdmin
+    .from('bookings')
+    .select('*')
+    .eq('id', bookingId)
+    .single();
+
+  if (!booking) throw new Error('Booking not found');
+  if (booking.owner_id !== userId) throw new Error('Unauthorized');
+
+  assertTransition(booking.status, 'completed');
+
+  // Keep the deposit on hold while a dispute is active; the dispute
+  // resolution decides whether it is captured or released
+  const { data: activeDispute } = await supabaseAdmin
+    .from('disputes')
+    .select('id')
+    .eq('booking_id', bookingId)
+    .in('status', ['open', 'under_review', 'resolving'])
+    .maybeSingle();
+
+  const releaseDeposit = !activeDispute && !booking.deposit_released;
+  const depositHeld = !!booking.stripe_deposit_hold_id;
+
+  // Claim the completion before releasing anything
+  const completedBooking = await transitionBooking(bookingId, booking.status, 'completed', {
+    returned_at: new Date().toISOString(),
+    ...(releaseDeposit && !depositHeld && depositReleasedUpdates()),
+  });
+
+  // Release security deposit
+  const { booking: updatedBooking } = await settleBooking(completedBooking, [
+    releaseDeposit &&
+      depositHeld && {
+        description: 'release the security deposit',
+        run: () =>
+          paymentsLedger.releaseDeposit(
+            { bookingId: booking.id, userId: booking.renter_id },
+            booking.stripe_deposit_hold_id,
+            { amount: booking.security_deposit }
+          ),
+        bookingUpdates: depositReleasedUpdates(),
+      },
+  ]);
+
+  // Owner is paid out once the dispute window has passed
+  await queuePayout(updatedBooking);
+
+  return updatedBooking;
+}
+
+/**
+ * Helper: The listing's cancellation policy when the booking was made, so later
+ * edits don't change what a renter was quoted. Null if no terms were recorded.
+ */
+async function cancellationPolicyWhenBooked(booking: { listing_id: string; created_at: string }) {
+  if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+  const { data: terms } = await supabaseAdmin
+    .from('listing_price_history')
+    .select('cancellation_policy')
+    .eq('listing_id', booking.listing_id)
+    .lte('effective_from', booking.created_at)
+    .order('effective_from', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return terms?.cancellation_policy ?? null;
+}
+
+/**
+ * Helper: Turn a reserve_booking failure into a client-facing error
+ */
+function reservationError(error: { code?: string; message: string }) {
+  switch (error.code) {
+    case '23P01': // exclusion_violation: overlapping booking or owner-blocked dates
+      return new TRPCError({
+        code: 'CONFLICT',
+        message: error.message.startsWith('conflicting key value')
+          ? 'Listing is not available for selected dates'
+          : error.message,
+      });
+    case '23514': // check_violation: not enough advance notice
+      return new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+    case '40001': // serialization_failure: the listing changed after it was priced
+      return new TRPCError({ code: 'CONFLICT', message: error.message });
+    case 'P0002': // no_data_found
+      return new TRPCError({ code: 'NOT_FOUND', message: 'Listing not found' });
+    default:
+      return error;
+  }
+}
+
 export default bookingsRouter;
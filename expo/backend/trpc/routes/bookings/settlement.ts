@@ -0,0 +1,68 @@
+/**
+ * Booking Settlement
+ * Refunds and hold releases that follow a booking status change. The status is
+ * claimed first (see transitionBooking), so the money only ever moves once.
+ */
+
+import { supabaseAdmin } from '../../../../lib/supabase';
+
+export interface SettlementStep {
+  // What the step does, as shown to the user if it fails ("couldn't ...")
+  description: string;
+  run: () => Promise<unknown>;
+  // Written to the booking once the step succeeds
+  bookingUpdates?: Record<string, unknown>;
+}
+
+/**
+ * Move money for a booking whose status change has already been claimed.
+ * The status change stands when a Stripe call fails: the failure is in the
+ * payments ledger, its description is added to the booking's unsettled_steps
+ * for support to settle by hand, and it comes back in `unsettled` instead of
+ * being run again by a second request.
+ */
+export async function settleBooking<T extends { id: string; unsettled_steps?: string[] | null }>(
+  booking: T,
+  steps: (SettlementStep | false | null | undefined | '')[]
+): Promise<{ booking: T; unsettled: string[] }> {
+  if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+  const unsettled: string[] = [];
+  let bookingUpdates: Record<string, unknown> = {};
+
+  for (const step of steps) {
+    if (!step) continue;
+
+    try {
+      await step.run();
+      bookingUpdates = { ...bookingUpdates, ...step.bookingUpdates };
+    } catch (error) {
+      console.error(`Booking ${booking.id}: couldn't ${step.description}:`, error);
+      unsettled.push(step.description);
+    }
+  }
+
+  if (unsettled.length > 0) {
+    bookingUpdates.unsettled_steps = [...(booking.unsettled_steps ?? []), ...unsettled];
+  }
+
+  if (Object.keys(bookingUpdates).length === 0) return { booking, unsettled };
+
+  const { data: updatedBooking, error } = await supabaseAdmin
+    .from('bookings')
+    .update(bookingUpdates)
+    .eq('id', booking.id)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return { booking: updatedBooking as T, unsettled };
+}
+
+/**
+ * Booking columns recording that the deposit hold was released
+ */
+export function depositReleasedUpdates() {
+  return { deposit_released: true, deposit_release_date: new Date().toISOString() };
+}
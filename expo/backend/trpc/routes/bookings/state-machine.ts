@@ -0,0 +1,95 @@
+/**
+ * Booking State Machine
+ * The single source of truth for which booking status changes are legal
+ */
+
+import { TRPCError } from '@trpc/server';
+import { supabaseAdmin } from '../../../../lib/supabase';
+
+export type BookingStatus =
+  | 'pending'
+  | 'confirmed'
+  | 'in_progress'
+  | 'completed'
+  | 'cancelled'
+  | 'declined';
+
+// Legal moves out of each status; completed, cancelled and declined are final
+const BOOKING_TRANSITIONS: Record<BookingStatus, readonly BookingStatus[]> = {
+  pending: ['confirmed', 'declined', 'cancelled'],
+  confirmed: ['in_progress', 'cancelled'],
+  in_progress: ['completed'],
+  completed: [],
+  cancelled: [],
+  declined: [],
+};
+
+// Timestamp stamped when a booking enters each status
+const TRANSITION_TIMESTAMPS: Record<BookingStatus, string | null> = {
+  pending: null,
+  confirmed: 'confirmed_at',
+  in_progress: 'picked_up_at',
+  completed: 'completed_at',
+  cancelled: 'cancelled_at',
+  declined: 'declined_at',
+};
+
+/**
+ * Whether a booking can move from one status to another
+ */
+export function canTransition(from: BookingStatus, to: BookingStatus): boolean {
+  return BOOKING_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Throw a PRECONDITION_FAILED error if the move is not in the transition table
+ */
+export function assertTransition(from: BookingStatus, to: BookingStatus) {
+  if (!canTransition(from, to)) {
+    throw new TRPCError({
+      code: 'PRECONDITION_FAILED',
+      message: `Cannot change a ${from.replace('_', ' ')} booking to ${to.replace('_', ' ')}`,
+    });
+  }
+}
+
+/**
+ * Move a booking to a new status and stamp the matching timestamp.
+ * The update only applies if the booking is still in `from`, so two concurrent
+ * transitions can't both succeed; the loser gets a CONFLICT error.
+ */
+export async function transitionBooking(
+  bookingId: string,
+  from: BookingStatus,
+  to: BookingStatus,
+  updates: Record<string, unknown> = {}
+) {
+  if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+  assertTransition(from, to);
+
+  const timestampColumn = TRANSITION_TIMESTAMPS[to];
+
+  const { data: booking, error } = await supabaseAdmin
+    .from('bookings')
+    .update({
+      status: to,
+      ...(timestampColumn && { [timestampColumn]: new Date().toISOString() }),
+      ...updates,
+    })
+    .eq('id', bookingId)
+    .eq('status', from)
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (!booking) {
+    throw new TRPCError({
+      code: 'CONFLICT',
+      message: 'This booking was updated by someone else. Please refresh and try again.',
+    });
+  }
+
+  return booking;
+}
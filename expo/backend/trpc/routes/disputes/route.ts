@@ -0,0 +1,802 @@
+/**
+ * Disputes tRPC Router
+ * Damage claims and other booking disputes, resolved by an admin against the security deposit
+ */
+
+import { z } from 'zod';
+import { router, protectedProcedure, adminProcedure } from '../../create-context';
+import { supabaseAdmin } from '../../../../lib/supabase';
+import { paymentsLedger } from '../payments/ledger';
+import { cloudinaryService } from '../../../../services/cloudinary';
+import { addDays } from 'date-fns';
+import type { Database } from '../../../../types/database';
+
+type Tables = Database['public']['Tables'];
+
+type DisputeRow = Tables['disputes']['Row'];
+
+// How long after a booking ends either party can still open a dispute
+export const DISPUTE_FILING_WINDOW_DAYS = 3;
+
+// How long after resolution either party can appeal
+const APPEAL_WINDOW_DAYS = 7;
+
+const MAX_EVIDENCE_PHOTOS = 10;
+
+// Disputes an admin can still resolve
+const RESOLVABLE_STATUSES = ['open', 'under_review'];
+
+const disputeTypeEnum = z.enum([
+  'damage',
+  'missing_equipment',
+  'inaccurate_listing',
+  'late_return',
+  'no_show',
+  'inappropriate_behavior',
+]);
+
+const openDisputeInput = z.object({
+  bookingId: z.string().uuid(),
+  disputeType: disputeTypeEnum,
+  description: z.string().min(20).max(2000),
+  // Photos (base64 encoded)
+  evidence: z.array(z.string()).max(MAX_EVIDENCE_PHOTOS).optional(),
+});
+
+const resolveDisputeInput = z
+  .object({
+    disputeId: z.string().uuid(),
+    resolution: z.string().min(10).max(2000),
+    adminNotes: z.string().max(2000).optional(),
+    depositAction: z.enum(['release', 'capture', 'partial_capture']),
+    partialCaptureAmount: z.number().positive().optional(),
+    refundAmount: z.number().positive().optional(),
+  })
+  .refine(
+    (input) =>
+      input.depositAction !== 'partial_capture' || input.partialCaptureAmount !== undefined,
+    {
+      message: 'partialCaptureAmount is required for a partial capture',
+      path: ['partialCaptureAmount'],
+    }
+  );
+
+export const disputesRouter = router({
+  /**
+   * Open a dispute on a booking (renter or owner)
+   */
+  open: protectedProcedure
+    .input(openDisputeInput)
+    .mutation(async ({ input, ctx }) => {
+      if (!supabaseAdmin) throw new Error('Supabase not configured');
+      if (!ctx.user) throw new Error('Not authenticated');
+
+      const { data: booking } = await supabaseAdmin
+        .from('bookings')
+        .select('*, listing:listings(id, title)')
+        .eq('id', input.bookingId)
+        .single();
+
+      if (!booking) throw new Error('Booking not found');
+
+      // Verify user is renter or owner
+      if (booking.renter_id !== ctx.user.id && booking.owner_id !== ctx.user.id) {
+        throw new Error('Unauthorized');
+      }
+
+      if (!['confirmed', 'in_progress', 'completed'].includes(booking.status)) {
+        throw new Error('Disputes can only be opened on confirmed or completed bookings');
+      }
+
+      const filingDeadline = addDays(new Date(booking.end_date), DISPUTE_FILING_WINDOW_DAYS);
+      if (new Date() > filingDeadline) {
+        throw new Error(
+          `Disputes must be opened within ${DISPUTE_FILING_WINDOW_DAYS} days of the rental ending`
+        );
+      }
+
+      // Only one active dispute per booking
+      const { data: existing } = await supabaseAdmin
+        .from('disputes')
+        .select('id')
+        .eq('booking_id', input.bookingId)
+        .in('status', ['open', 'under_review', 'resolving'])
+        .maybeSingle();
+
+      if (existing) {
+        throw new Error('A dispute is already open for this booking');
+      }
+
+      const evidenceUrls = await uploadEvidence(input.bookingId, input.evidence);
+
+      const respondentId =
+        booking.renter_id === ctx.user.id ? booking.owner_id : booking.renter_id;
+
+      const { data: dispute, error } = await supabaseAdmin
+        .from('disputes')
+        .insert({
+          booking_id: input.bookingId,
+          initiator_id: ctx.user.id,
+          respondent_id: respondentId,
+          dispute_type: input.disputeType,
+          description: input.description,
+          evidence_urls: evidenceUrls,
+          status: 'open',
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      // Let the other party know they need to respond
+      await supabaseAdmin.from('notifications').insert({
+        user_id: respondentId,
+        type: 'booking',
+        title: 'A dispute was opened',
+        message: `A dispute was opened on your booking for "${booking.listing.title}". Please respond with your side.`,
+        booking_id: booking.id,
+        action_url: `${process.env.APP_URL}/disputes/${dispute.id}`,
+        channels: ['push', 'email'],
+      });
+
+      return { success: true, dispute };
+    }),
+
+  /**
+   * Add evidence photos to an active dispute (either party)
+   */
+  uploadEvidence: protectedProcedure
+    .input(
+      z.object({
+        disputeId: z.string().uuid(),
+        photos: z.array(z.string()).min(1).max(MAX_EVIDENCE_PHOTOS),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      if (!supabaseAdmin) throw new Error('Supabase not configured');
+      if (!ctx.user) throw new Error('Not authenticated');
+
+      const dispute = await getDisputeForParticipant(input.disputeId, ctx.user.id);
+
+      if (!['open', 'under_review'].includes(dispute.status)) {
+        throw new Error('Evidence can only be added to an active dispute');
+      }
+
+      // Each party keeps their own evidence list
+      const isInitiator = dispute.initiator_id === ctx.user.id;
+      const currentUrls: string[] =
+        (isInitiator ? dispute.evidence_urls : dispute.respondent_evidence_urls) || [];
+
+      if (currentUrls.length + input.photos.length > MAX_EVIDENCE_PHOTOS) {
+        throw new Error(`A maximum of ${MAX_EVIDENCE_PHOTOS} evidence photos is allowed`);
+      }
+
+      const uploadedUrls = await uploadEvidence(dispute.booking_id, input.photos);
+      const evidenceUrls = [...currentUrls, ...uploadedUrls];
+
+      const { data: updatedDispute, error } = await supabaseAdmin
+        .from('disputes')
+        .update({
+          ...(isInitiator
+            ? { evidence_urls: evidenceUrls }
+            : { respondent_evidence_urls: evidenceUrls }),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', input.disputeId)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return { success: true, dispute: updatedDispute };
+    }),
+
+  /**
+   * Respond to a dispute (respondent only)
+   */
+  respond: protectedProcedure
+    .input(
+      z.object({
+        disputeId: z.string().uuid(),
+        response: z.string().min(20).max(2000),
+        evidence: z.array(z.string()).max(MAX_EVIDENCE_PHOTOS).optional(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      if (!supabaseAdmin) throw new Error('Supabase not configured');
+      if (!ctx.user) throw new Error('Not authenticated');
+
+      const dispute = await getDisputeForParticipant(input.disputeId, ctx.user.id);
+
+      if (dispute.respondent_id !== ctx.user.id) {
+        throw new Error('Only the respondent can reply to this dispute');
+      }
+
+      if (dispute.status !== 'open') {
+        throw new Error('This dispute is no longer accepting responses');
+      }
+
+      if (dispute.respondent_response) {
+        throw new Error('You have already responded to this dispute');
+      }
+
+      const evidenceUrls = await uploadEvidence(dispute.booking_id, input.evidence);
+
+      // Both sides have been heard, so the dispute moves to admin review
+      const { data: updatedDispute, error } = await supabaseAdmin
+        .from('disputes')
+        .update({
+          respondent_response: input.response,
+          respondent_evidence_urls: [
+            ...(dispute.respondent_evidence_urls || []),
+            ...evidenceUrls,
+          ],
+          responded_at: new Date().toISOString(),
+          status: 'under_review',
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', input.disputeId)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      await supabaseAdmin.from('notifications').insert({
+        user_id: dispute.initiator_id,
+        type: 'booking',
+        title: 'Dispute response received',
+        message: 'The other party has responded to your dispute. Our team will review it shortly.',
+        booking_id: dispute.booking_id,
+        action_url: `${process.env.APP_URL}/disputes/${dispute.id}`,
+        channels: ['push'],
+      });
+
+      return { success: true, dispute: updatedDispute };
+    }),
+
+  /**
+   * Get dispute by ID (participants only)
+   */
+  getById: protectedProcedure
+    .input(z.string().uuid())
+    .query(async ({ input: disputeId, ctx }) => {
+      if (!supabaseAdmin) throw new Error('Supabase not configured');
+      if (!ctx.user) throw new Error('Not authenticated');
+
+      const { data: dispute, error } = await supabaseAdmin
+        .from('disputes')
+        .select(
+          `
+          *,
+          booking:bookings (
+            id,
+            status,
+            start_date,
+            end_date,
+            security_deposit,
+            deposit_released,
+            deposit_captured,
+            listing:listings (
+              id,
+              title
+            )
+          ),
+          initiator:profiles!initiator_id (
+            id,
+            first_name,
+            last_name,
+            avatar_url
+          ),
+          respondent:profiles!respondent_id (
+            id,
+            first_name,
+            last_name,
+            avatar_url
+          )
+        `
+        )
+        .eq('id', disputeId)
+        .single();
+
+      if (error || !dispute) throw new Error('Dispute not found');
+
+      if (dispute.initiator_id !== ctx.user.id && dispute.respondent_id !== ctx.user.id) {
+        throw new Error('Unauthorized');
+      }
+
+      // Admin notes are internal
+      return { ...dispute, admin_notes: null };
+    }),
+
+  /**
+   * Get disputes the current user is involved in
+   */
+  getMyDisputes: protectedProcedure
+    .input(
+      z
+        .object({
+          status: z.enum(['open', 'under_review', 'resolving', 'resolved', 'closed']).optional(),
+        })
+        .optional()
+    )
+    .query(async ({ input, ctx }) => {
+      if (!supabaseAdmin) throw new Error('Supabase not configured');
+      if (!ctx.user) throw new Error('Not authenticated');
+
+      let query = supabaseAdmin
+        .from('disputes')
+        .select(
+          `
+          id,
+          booking_id,
+          initiator_id,
+          respondent_id,
+          dispute_type,
+          status,
+          deposit_action,
+          appeal_submitted,
+          created_at,
+          resolved_at,
+          booking:bookings (
+            id,
+            start_date,
+            end_date,
+            listing:listings (
+              id,
+              title
+            )
+          )
+        `
+        )
+        .or(`initiator_id.eq.${ctx.user.id},respondent_id.eq.${ctx.user.id}`);
+
+      if (input?.status) {
+        query = query.eq('status', input.status);
+      }
+
+      const { data: disputes, error } = await query.order('created_at', {
+        ascending: false,
+      });
+
+      if (error) throw error;
+
+      return disputes || [];
+    }),
+
+  /**
+   * Submit an appeal against a resolution (either party, once). The resolution
+   * stands and its money stays where it is; an admin answers with decideAppeal.
+   */
+  appeal: protectedProcedure
+    .input(
+      z.object({
+        disputeId: z.string().uuid(),
+        appealText: z.string().min(50).max(2000),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      if (!supabaseAdmin) throw new Error('Supabase not configured');
+      if (!ctx.user) throw new Error('Not authenticated');
+
+      const dispute = await getDisputeForParticipant(input.disputeId, ctx.user.id);
+
+      if (dispute.status !== 'resolved') {
+        throw new Error('Only resolved disputes can be appealed');
+      }
+
+      if (dispute.appeal_submitted) {
+        throw new Error('An appeal has already been submitted for this dispute');
+      }
+
+      const appealDeadline = addDays(new Date(dispute.resolved_at), APPEAL_WINDOW_DAYS);
+      if (new Date() > appealDeadline) {
+        throw new Error(`Appeals must be submitted within ${APPEAL_WINDOW_DAYS} days of resolution`);
+      }
+
+      const { data: updatedDispute, error } = await supabaseAdmin
+        .from('disputes')
+        .update({
+          appeal_submitted: true,
+          appeal_text: input.appealText,
+          appealed_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', input.disputeId)
+        .eq('status', 'resolved')
+        .eq('appeal_submitted', false)
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!updatedDispute) {
+        throw new Error('An appeal has already been submitted for this dispute');
+      }
+
+      return { success: true, dispute: updatedDispute };
+    }),
+
+  /**
+   * List disputes awaiting review or an appeal decision (admin only)
+   */
+  listForReview: adminProcedure
+    .input(
+      z.object({
+        status: z.enum(['open', 'under_review', 'resolving', 'resolved', 'closed']).optional(),
+        limit: z.number().min(1).max(100).default(20),
+        offset: z.number().min(0).default(0),
+      })
+    )
+    .query(async ({ input }) => {
+      if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+      let query = supabaseAdmin
+        .from('disputes')
+        .select('*, booking:bookings(*)', { count: 'exact' });
+
+      if (input.status) {
+        query = query.eq('status', input.status);
+      } else {
+        query = query.or(
+          'status.in.(open,under_review,resolving),and(status.eq.resolved,appeal_submitted.eq.true)'
+        );
+      }
+
+      const { data: disputes, count, error } = await query
+        .order('created_at', { ascending: true })
+        .range(input.offset, input.offset + input.limit - 1);
+
+      if (error) throw error;
+
+      return {
+        disputes: disputes || [],
+        total: count || 0,
+        hasMore: (count || 0) > input.offset + input.limit,
+      };
+    }),
+
+  /**
+   * Resolve a dispute and settle the security deposit (admin only). Each dispute
+   * is resolved once; appeals go through decideAppeal.
+   */
+  resolve: adminProcedure
+    .input(resolveDisputeInput)
+    .mutation(async ({ input }) => {
+      if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+      const { data: dispute } = await supabaseAdmin
+        .from('disputes')
+        .select('*, booking:bookings(*)')
+        .eq('id', input.disputeId)
+        .single();
+
+      if (!dispute) throw new Error('Dispute not found');
+
+      if (!RESOLVABLE_STATUSES.includes(dispute.status) || dispute.appeal_submitted) {
+        throw new Error('Dispute has already been resolved');
+      }
+
+      const booking = dispute.booking;
+
+      if (
+        input.depositAction === 'partial_capture' &&
+        input.partialCaptureAmount! > booking.security_deposit
+      ) {
+        throw new Error('Partial capture cannot exceed the security deposit');
+      }
+
+      if (input.refundAmount && input.refundAmount > booking.total_amount) {
+        throw new Error('Refund cannot exceed the amount paid');
+      }
+
+      const depositHeld =
+        !!booking.stripe_deposit_hold_id && !booking.deposit_released && !booking.deposit_captured;
+
+      if (input.depositAction !== 'release' && !depositHeld) {
+        throw new Error('The security deposit is no longer held for this booking');
+      }
+
+      // Claim the dispute before any money moves, so a second resolve (a double
+      // click, or two admins at once) can't capture or refund again. The decision is
+      // stored with the claim, so a settlement that stops part way can be resumed.
+      const { data: claimed, error: claimError } = await supabaseAdmin
+        .from('disputes')
+        .update({
+          status: 'resolving',
+          resolution: input.resolution,
+          admin_notes: input.adminNotes,
+          deposit_action: input.depositAction,
+          partial_capture_amount: input.partialCaptureAmount,
+          refund_amount: input.refundAmount,
+          settlement_error: null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', input.disputeId)
+        .in('status', RESOLVABLE_STATUSES)
+        .eq('appeal_submitted', false)
+        .select()
+        .maybeSingle();
+
+      if (claimError) throw claimError;
+      if (!claimed) throw new Error('Dispute has already been resolved');
+
+      return settleDispute(claimed, booking, dispute);
+    }),
+
+  /**
+   * Finish settling a dispute whose resolution stopped part way, e.g. a refund Stripe
+   * declined after the deposit was captured (admin only). Steps already done are
+   * skipped; the decision made in resolve is kept.
+   */
+  resumeResolution: adminProcedure
+    .input(z.object({ disputeId: z.string().uuid() }))
+    .mutation(async ({ input }) => {
+      if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+      // Claim the stopped settlement so two admins can't resume it at once
+      const { data: dispute, error } = await supabaseAdmin
+        .from('disputes')
+        .update({ settlement_error: null, updated_at: new Date().toISOString() })
+        .eq('id', input.disputeId)
+        .eq('status', 'resolving')
+        .not('settlement_error', 'is', null)
+        .select('*, booking:bookings(*)')
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!dispute) throw new Error('This dispute has no stopped settlement to resume');
+
+      return settleDispute(dispute, dispute.booking, null);
+    }),
+
+  /**
+   * Decide an appeal and close the dispute (admin only)
+   */
+  decideAppeal: adminProcedure
+    .input(
+      z.object({
+        disputeId: z.string().uuid(),
+        appealDecision: z.string().min(10).max(2000),
+      })
+    )
+    .mutation(async ({ input }) => {
+      if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+      const { data: dispute } = await supabaseAdmin
+        .from('disputes')
+        .select('*')
+        .eq('id', input.disputeId)
+        .single();
+
+      if (!dispute) throw new Error('Dispute not found');
+
+      if (dispute.status !== 'resolved' || !dispute.appeal_submitted || dispute.appeal_decision) {
+        throw new Error('There is no pending appeal for this dispute');
+      }
+
+      const decidedAt = new Date().toISOString();
+
+      const { data: updatedDispute, error } = await supabaseAdmin
+        .from('disputes')
+        .update({
+          appeal_decision: input.appealDecision,
+          appeal_decided_at: decidedAt,
+          status: 'closed',
+          updated_at: decidedAt,
+        })
+        .eq('id', input.disputeId)
+        .eq('status', 'resolved')
+        .is('appeal_decision', null)
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!updatedDispute) throw new Error('There is no pending appeal for this dispute');
+
+      await supabaseAdmin.from('notifications').insert(
+        [dispute.initiator_id, dispute.respondent_id].map((userId) => ({
+          user_id: userId,
+          type: 'booking',
+          title: 'Appeal decided',
+          message: input.appealDecision,
+          booking_id: dispute.booking_id,
+          action_url: `${process.env.APP_URL}/disputes/${dispute.id}`,
+          channels: ['push', 'email'],
+        }))
+      );
+
+      return { success: true, dispute: updatedDispute };
+    }),
+});
+
+/**
+ * Helper: Settle a claimed dispute's deposit and refund as stored on it, then mark it
+ * resolved. Steps already done (recorded on the booking and the dispute) are skipped,
+ * so a settlement that stopped part way can be run again. If nothing moved, the claim
+ * is given back to the dispute as it was before; otherwise it stays resolving with
+ * the reason in settlement_error, for resumeResolution.
+ */
+async function settleDispute(
+  dispute: DisputeRow,
+  booking: Tables['bookings']['Row'],
+  before: DisputeRow | null
+) {
+  if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+  const ledgerContext = { bookingId: booking.id, userId: booking.renter_id };
+  const depositHeld =
+    !!booking.stripe_deposit_hold_id && !booking.deposit_released && !booking.deposit_captured;
+  let moneyMoved = false;
+  let updatedDispute;
+
+  try {
+    // Settle the deposit hold, recording it on the booking straight away
+    const bookingUpdates: Tables['bookings']['Update'] = {};
+
+    if (depositHeld && dispute.deposit_action === 'capture') {
+      await paymentsLedger.captureDeposit(ledgerContext, booking.stripe_deposit_hold_id!, {
+        amount: booking.security_deposit,
+      });
+      bookingUpdates.deposit_captured = true;
+    } else if (depositHeld && dispute.deposit_action === 'partial_capture') {
+      // Capturing less than the authorized amount releases the remainder
+      await paymentsLedger.captureDeposit(ledgerContext, booking.stripe_deposit_hold_id!, {
+        amount: dispute.partial_capture_amount!,
+        partial: true,
+      });
+      bookingUpdates.deposit_captured = true;
+    } else if (depositHeld) {
+      await paymentsLedger.releaseDeposit(ledgerContext, booking.stripe_deposit_hold_id!, {
+        amount: booking.security_deposit,
+      });
+      bookingUpdates.deposit_released = true;
+      bookingUpdates.deposit_release_date = new Date().toISOString();
+    }
+
+    if (Object.keys(bookingUpdates).length > 0) {
+      moneyMoved = true;
+      const { error } = await supabaseAdmin
+        .from('bookings')
+        .update(bookingUpdates)
+        .eq('id', booking.id);
+
+      if (error) throw error;
+    }
+
+    // Refund part of the rental if the renter was wronged
+    if (dispute.refund_amount && !dispute.refund_issued_at && booking.stripe_payment_intent_id) {
+      await paymentsLedger.createRefund(
+        ledgerContext,
+        booking.stripe_payment_intent_id,
+        dispute.refund_amount,
+        'requested_by_customer'
+      );
+      moneyMoved = true;
+
+      const { error } = await supabaseAdmin
+        .from('disputes')
+        .update({ refund_issued_at: new Date().toISOString() })
+        .eq('id', dispute.id);
+
+      if (error) throw error;
+    }
+
+    const resolvedAt = new Date().toISOString();
+
+    const { data, error } = await supabaseAdmin
+      .from('disputes')
+      .update({ status: 'resolved', resolved_at: resolvedAt, updated_at: resolvedAt })
+      .eq('id', dispute.id)
+      .eq('status', 'resolving')
+      .select()
+      .single();
+
+    if (error) throw error;
+    updatedDispute = data;
+
+    await releaseHeldPayout(booking.id);
+  } catch (error) {
+    if (!moneyMoved && before) {
+      const { error: revertError } = await supabaseAdmin
+        .from('disputes')
+        .update({
+          status: before.status,
+          resolution: before.resolution,
+          admin_notes: before.admin_notes,
+          deposit_action: before.deposit_action,
+          partial_capture_amount: before.partial_capture_amount,
+          refund_amount: before.refund_amount,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', dispute.id)
+        .eq('status', 'resolving');
+
+      if (revertError) console.error(`Error releasing dispute ${dispute.id}:`, revertError);
+      throw error;
+    }
+
+    const reason = error instanceof Error ? error.message : 'Settlement failed';
+    console.error(`Dispute ${dispute.id} was only partly settled:`, error);
+
+    const { error: recordError } = await supabaseAdmin
+      .from('disputes')
+      .update({ settlement_error: reason, updated_at: new Date().toISOString() })
+      .eq('id', dispute.id)
+      .eq('status', 'resolving');
+
+    if (recordError) {
+      console.error(`Error recording dispute ${dispute.id} settlement:`, recordError);
+    }
+
+    throw new Error(
+      `The dispute was only partly settled (${reason}). Check the payments ledger, then finish it with resumeResolution.`
+    );
+  }
+
+  // Notify both parties
+  const { error: notificationError } = await supabaseAdmin.from('notifications').insert(
+    [dispute.initiator_id, dispute.respondent_id].map((userId) => ({
+      user_id: userId,
+      type: 'booking',
+      title: 'Dispute resolved',
+      message: dispute.resolution,
+      booking_id: booking.id,
+      action_url: `${process.env.APP_URL}/disputes/${dispute.id}`,
+      channels: ['push', 'email'],
+    }))
+  );
+
+  if (notificationError) {
+    console.error(`Error notifying parties of dispute ${dispute.id}:`, notificationError);
+  }
+
+  return { success: true, dispute: updatedDispute };
+}
+
+/**
+ * Helper: Load a dispute and verify the user is one of its parties
+ */
+async function getDisputeForParticipant(disputeId: string, userId: string) {
+  if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+  const { data: dispute } = await supabaseAdmin
+    .from('disputes')
+    .select('*')
+    .eq('id', disputeId)
+    .single();
+
+  if (!dispute) throw new Error('Dispute not found');
+
+  if (dispute.initiator_id !== userId && dispute.respondent_id !== userId) {
+    throw new Error('Unauthorized');
+  }
+
+  return dispute;
+}
+
+/**
+ * Helper: Return a payout held for a dispute to the payout scheduler's queue
+ */
+async function releaseHeldPayout(bookingId: string) {
+  if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+  const { error } = await supabaseAdmin
+    .from('payouts')
+    .update({ status: 'pending', updated_at: new Date().toISOString() })
+    .eq('booking_id', bookingId)
+    .eq('status', 'on_hold');
+
+  if (error) throw error;
+}
+
+/**
+ * Helper: Upload base64 evidence photos to Cloudinary
+ */
+async function uploadEvidence(bookingId: string, photos: string[] = []): Promise<string[]> {
+  const uploads = await Promise.all(
+    photos.map((photoData) => cloudinaryService.uploadBase64(photoData, `disputes/${bookingId}`))
+  );
+
+  return uploads.map((upload) => upload.secureUrl);
+}
+
+export default disputesRouter;
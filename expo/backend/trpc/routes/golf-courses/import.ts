@@ -0,0 +1,269 @@
+/**
+ * Golf Course Import
+ * Parses CSV and GeoJSON course lists into rows for import_golf_courses
+ */
+
+import { z } from 'zod';
+
+// Larger files should be split; the whole batch is upserted in one statement
+export const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+export const MAX_IMPORT_ROWS = 5000;
+
+const PROVINCES = ['AB', 'BC', 'MB', 'NB', 'NL', 'NS', 'NT', 'NU', 'ON', 'PE', 'QC', 'SK', 'YT'] as const;
+
+export const importedCourseSchema = z.object({
+  name: z.string().trim().min(2).max(200),
+  address: z.string().trim().min(1).max(300),
+  city: z.string().trim().min(1).max(100),
+  province: z
+    .string()
+    .trim()
+    .transform((province) => province.toUpperCase())
+    .pipe(z.enum(PROVINCES)),
+  postal_code: z.string().trim().max(10).nullable(),
+  latitude: z.coerce.number().min(-90).max(90),
+  longitude: z.coerce.number().min(-180).max(180),
+  phone: z.string().trim().max(30).nullable(),
+  website: z.string().trim().max(300).nullable(),
+  holes: z.coerce.number().int().min(1).max(72).nullable(),
+});
+
+export type ImportedCourse = z.infer<typeof importedCourseSchema>;
+
+// Features are checked one by one, so a bad feature is reported against its index
+// instead of failing the whole file
+const featureCollectionSchema = z.object({
+  type: z.literal('FeatureCollection'),
+  features: z.array(z.unknown()),
+});
+
+const featureSchema = z.object({
+  properties: z.record(z.string(), z.unknown()).nullish(),
+  geometry: z.unknown(),
+});
+
+// Coordinates are [longitude, latitude], optionally followed by altitude
+const pointSchema = z.object({
+  type: z.literal('Point'),
+  coordinates: z.tuple([z.number(), z.number()], z.number()),
+});
+
+export interface ImportError {
+  // 1-based data row (CSV) or feature index (GeoJSON)
+  row: number;
+  message: string;
+}
+
+export interface ParsedImport {
+  courses: ImportedCourse[];
+  errors: ImportError[];
+}
+
+// Column names seen in public course lists, mapped to our fields
+const HEADER_ALIASES: Record<string, keyof ImportedCourse> = {
+  name: 'name',
+  course: 'name',
+  course_name: 'name',
+  address: 'address',
+  street: 'address',
+  city: 'city',
+  town: 'city',
+  province: 'province',
+  prov: 'province',
+  state: 'province',
+  postal_code: 'postal_code',
+  postalcode: 'postal_code',
+  postal: 'postal_code',
+  zip: 'postal_code',
+  latitude: 'latitude',
+  lat: 'latitude',
+  longitude: 'longitude',
+  lng: 'longitude',
+  lon: 'longitude',
+  long: 'longitude',
+  phone: 'phone',
+  telephone: 'phone',
+  website: 'website',
+  url: 'website',
+  holes: 'holes',
+};
+
+/**
+ * Parse a CSV file with a header row. Fields may be quoted per RFC 4180.
+ */
+export function parseCoursesCsv(content: string): ParsedImport {
+  const [header, ...rows] = parseCsvRows(content.replace(/^\uFEFF/, ''));
+  if (!header) return { courses: [], errors: [{ row: 0, message: 'File is empty' }] };
+
+  const columns = header.map((name) => HEADER_ALIASES[normalizeHeader(name)]);
+  const missing = (['name', 'address', 'city', 'province', 'latitude', 'longitude'] as const)
+    .filter((field) => !columns.includes(field));
+
+  if (missing.length > 0) {
+    return {
+      courses: [],
+      errors: [{ row: 0, message: `Missing required columns: ${missing.join(', ')}` }],
+    };
+  }
+
+  const records = rows
+    .filter((row) => row.some((value) => value.trim() !== ''))
+    .map((row) => {
+      const record: Record<string, string> = {};
+      columns.forEach((field, i) => {
+        if (field && row[i] !== undefined) record[field] = row[i];
+      });
+      return record;
+    });
+
+  return validateRecords(records);
+}
+
+/**
+ * Parse a GeoJSON FeatureCollection of Point features. Course details are read from
+ * each feature's properties using the same names as the CSV columns.
+ */
+export function parseCoursesGeoJson(content: string): ParsedImport {
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch {
+    return { courses: [], errors: [{ row: 0, message: 'File is not valid JSON' }] };
+  }
+
+  const collection = featureCollectionSchema.safeParse(json);
+  if (!collection.success) {
+    return { courses: [], errors: [{ row: 0, message: 'Expected a GeoJSON FeatureCollection' }] };
+  }
+
+  const records = collection.data.features.map((raw) => {
+    const feature = featureSchema.safeParse(raw);
+    const record: Record<string, unknown> = {};
+    if (!feature.success) return record;
+
+    for (const [key, value] of Object.entries(feature.data.properties ?? {})) {
+      const field = HEADER_ALIASES[normalizeHeader(key)];
+      if (field && value !== null && value !== undefined) record[field] = String(value);
+    }
+
+    // Coordinates come from the geometry only; non-points are rejected by validation
+    const point = pointSchema.safeParse(feature.data.geometry);
+    if (point.success) {
+      [record.longitude, record.latitude] = point.data.coordinates;
+    } else {
+      delete record.latitude;
+      delete record.longitude;
+    }
+
+    return record;
+  });
+
+  return validateRecords(records);
+}
+
+/**
+ * Helper: Validate raw records, dropping blank optional values and duplicate courses
+ */
+function validateRecords(records: Record<string, unknown>[]): ParsedImport {
+  const courses: ImportedCourse[] = [];
+  const errors: ImportError[] = [];
+  const seen = new Set<string>();
+
+  if (records.length > MAX_IMPORT_ROWS) {
+    return {
+      courses: [],
+      errors: [{ row: 0, message: `Imports are limited to ${MAX_IMPORT_ROWS} courses` }],
+    };
+  }
+
+  records.forEach((record, i) => {
+    const result = importedCourseSchema.safeParse({
+      ...record,
+      postal_code: blankToNull(record.postal_code),
+      phone: blankToNull(record.phone),
+      website: blankToNull(record.website),
+      holes: blankToNull(record.holes),
+    });
+
+    if (!result.success) {
+      errors.push({
+        row: i + 1,
+        message: result.error.issues
+          .map((issue) => `${issue.path.join('.') || 'row'}: ${issue.message}`)
+          .join('; '),
+      });
+      return;
+    }
+
+    // Matches the golf_courses unique index
+    const key = [
+      result.data.name.toLowerCase(),
+      result.data.city.toLowerCase(),
+      result.data.province,
+    ].join('|');
+
+    if (seen.has(key)) {
+      errors.push({ row: i + 1, message: `Duplicate of an earlier row: ${result.data.name}` });
+      return;
+    }
+
+    seen.add(key);
+    courses.push(result.data);
+  });
+
+  return { courses, errors };
+}
+
+/**
+ * Helper: Split CSV content into rows of fields, honouring quoted commas,
+ * escaped quotes and line breaks inside quotes
+ */
+function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function normalizeHeader(name: string): string {
+  return name.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+function blankToNull(value: unknown): unknown {
+  return typeof value === 'string' && value.trim() === '' ? null : value ?? null;
+}
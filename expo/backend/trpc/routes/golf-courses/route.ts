@@ -0,0 +1,405 @@
+/**
+ * Golf Courses tRPC Router
+ * Course directory, user-submitted courses and bulk imports
+ */
+
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { router, publicProcedure, protectedProcedure, adminProcedure } from '../../create-context';
+import { supabaseAdmin } from '../../../../lib/supabase';
+import { listingFromRow } from '../../../../lib/domain';
+import type { Database } from '../../../../types/database';
+import {
+  MAX_IMPORT_BYTES,
+  importedCourseSchema,
+  parseCoursesCsv,
+  parseCoursesGeoJson,
+} from './import';
+
+type GolfCourseSearchRow =
+  Database['public']['Functions']['search_golf_courses']['Returns'][number];
+
+// Postgres unique_violation: a course with this name already exists in the city
+const UNIQUE_VIOLATION = '23505';
+
+// Keeps one user from flooding the moderation queue
+const MAX_PENDING_SUBMISSIONS = 5;
+
+// Listings shown on a course's detail page
+const COURSE_LISTINGS_LIMIT = 20;
+
+const submitCourseInput = importedCourseSchema
+  .omit({ postal_code: true, phone: true, website: true, holes: true })
+  .extend({
+    postalCode: z.string().trim().max(10).optional(),
+    phone: z.string().trim().max(30).optional(),
+    website: z.string().url().max(300).optional(),
+    holes: z.number().int().min(1).max(72).optional(),
+    notes: z.string().max(500).optional(),
+  });
+
+export const golfCoursesRouter = router({
+  /**
+   * Search courses by name or city, nearest first when a location is given
+   */
+  search: publicProcedure
+    .input(
+      z.object({
+        query: z.string().max(100).optional(),
+        userLat: z.number().min(-90).max(90).optional(),
+        userLng: z.number().min(-180).max(180).optional(),
+        limit: z.number().min(1).max(50).default(20),
+        offset: z.number().min(0).default(0),
+      })
+    )
+    .query(async ({ input }) => {
+      if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+      const { data: courses, error } = await supabaseAdmin.rpc('search_golf_courses', {
+        p_query: input.query?.trim() || null,
+        p_user_lat: input.userLat ?? null,
+        p_user_lng: input.userLng ?? null,
+        p_limit: input.limit,
+        p_offset: input.offset,
+      });
+
+      if (error) throw error;
+
+      const total = courses?.[0]?.total_count ?? 0;
+
+      return {
+        golfCourses: (courses || []).map(toGolfCourse),
+        total,
+        hasMore: total > input.offset + input.limit,
+      };
+    }),
+
+  /**
+   * Get a course with its coordinates and the listings picking up there
+   */
+  getById: publicProcedure.input(z.string().uuid()).query(async ({ input: golfCourseId }) => {
+    if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+    const [{ data: courses, error }, { data: listings, error: listingsError }] =
+      await Promise.all([
+        supabaseAdmin.rpc('search_golf_courses', {
+          p_golf_course_id: golfCourseId,
+          p_limit: 1,
+        }),
+        supabaseAdmin
+          .from('listings')
+          .select(
+            `
+            *,
+            owner:profiles!owner_id (
+              id,
+              first_name,
+              last_name,
+              avatar_url,
+              overall_rating,
+              total_reviews,
+              verification_levels
+            ),
+            photos:listing_photos (
+              id,
+              url,
+              position,
+              is_primary
+            )
+          `
+          )
+          .eq('golf_course_id', golfCourseId)
+          .eq('is_active', true)
+          .eq('is_draft', false)
+          .order('average_rating', { ascending: false })
+          .limit(COURSE_LISTINGS_LIMIT),
+      ]);
+
+    if (error) throw error;
+    if (listingsError) throw listingsError;
+    if (!courses || courses.length === 0) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Golf course not found' });
+    }
+
+    return {
+      ...toGolfCourse(courses[0]),
+      listings: (listings || []).map((listing) => listingFromRow(listing)),
+    };
+  }),
+
+  /**
+   * Suggest a course that is missing from the directory. It is added once a
+   * moderator approves it.
+   */
+  submit: protectedProcedure.input(submitCourseInput).mutation(async ({ ctx, input }) => {
+    if (!supabaseAdmin) throw new Error('Supabase not configured');
+    if (!ctx.user) throw new Error('Not authenticated');
+
+    const { data: existing } = await supabaseAdmin
+      .from('golf_courses')
+      .select('id')
+      .ilike('name', escapeLike(input.name))
+      .ilike('city', escapeLike(input.city))
+      .eq('province', input.province)
+      .maybeSingle();
+
+    if (existing) {
+      throw new TRPCError({
+        code: 'CONFLICT',
+        message: 'This course is already in the directory',
+      });
+    }
+
+    const { data: pending } = await supabaseAdmin
+      .from('golf_course_submissions')
+      .select('id, name, city')
+      .eq('submitted_by', ctx.user.id)
+      .eq('status', 'pending');
+
+    if (
+      pending?.some(
+        (submission) =>
+          submission.name.toLowerCase() === input.name.toLowerCase() &&
+          submission.city.toLowerCase() === input.city.toLowerCase()
+      )
+    ) {
+      throw new TRPCError({
+        code: 'CONFLICT',
+        message: 'You have already submitted this course',
+      });
+    }
+
+    if ((pending?.length || 0) >= MAX_PENDING_SUBMISSIONS) {
+      throw new TRPCError({
+        code: 'PRECONDITION_FAILED',
+        message: `You can have up to ${MAX_PENDING_SUBMISSIONS} courses awaiting review`,
+      });
+    }
+
+    const { data: submission, error } = await supabaseAdmin
+      .from('golf_course_submissions')
+      .insert({
+        submitted_by: ctx.user.id,
+        name: input.name,
+        address: input.address,
+        city: input.city,
+        province: input.province,
+        postal_code: input.postalCode,
+        location: `SRID=4326;POINT(${input.longitude} ${input.latitude})`,
+        phone: input.phone,
+        website: input.website,
+        holes: input.holes,
+        notes: input.notes,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return submission;
+  }),
+
+  /**
+   * Get the current user's submissions and their review status
+   */
+  getMySubmissions: protectedProcedure.query(async ({ ctx }) => {
+    if (!supabaseAdmin) throw new Error('Supabase not configured');
+    if (!ctx.user) throw new Error('Not authenticated');
+
+    const { data: submissions, error } = await supabaseAdmin
+      .from('golf_course_submissions')
+      .select('*')
+      .eq('submitted_by', ctx.user.id)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    return submissions || [];
+  }),
+
+  /**
+   * Admin: Get the submission moderation queue, oldest first
+   */
+  listSubmissions: adminProcedure
+    .input(
+      z.object({
+        status: z.enum(['pending', 'approved', 'rejected']).default('pending'),
+        limit: z.number().min(1).max(100).default(20),
+        offset: z.number().min(0).default(0),
+      })
+    )
+    .query(async ({ input }) => {
+      if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+      const { data: submissions, count, error } = await supabaseAdmin
+        .from('golf_course_submissions')
+        .select('*, submitter:profiles!submitted_by(id, first_name, last_name, email)', {
+          count: 'exact',
+        })
+        .eq('status', input.status)
+        .order('created_at', { ascending: true })
+        .range(input.offset, input.offset + input.limit - 1);
+
+      if (error) throw error;
+
+      return {
+        submissions: submissions || [],
+        total: count || 0,
+        hasMore: (count || 0) > input.offset + input.limit,
+      };
+    }),
+
+  /**
+   * Admin: Approve a submission, adding the course to the directory, or reject it
+   */
+  reviewSubmission: adminProcedure
+    .input(
+      z.object({
+        submissionId: z.string().uuid(),
+        approve: z.boolean(),
+        notes: z.string().max(500).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+      const { data: submission } = await supabaseAdmin
+        .from('golf_course_submissions')
+        .select('*')
+        .eq('id', input.submissionId)
+        .single();
+
+      if (!submission) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Submission not found' });
+      }
+
+      if (submission.status !== 'pending') {
+        throw new TRPCError({
+          code: 'PRECONDITION_FAILED',
+          message: 'Submission has already been reviewed',
+        });
+      }
+
+      let golfCourseId: string | null = null;
+
+      if (input.approve) {
+        const { data: course, error: courseError } = await supabaseAdmin
+          .from('golf_courses')
+          .insert({
+            name: submission.name,
+            address: submission.address,
+            city: submission.city,
+            province: submission.province,
+            postal_code: submission.postal_code,
+            location: submission.location,
+            phone: submission.phone,
+            website: submission.website,
+            holes: submission.holes ?? undefined,
+            source: 'submission',
+          })
+          .select('id')
+          .single();
+
+        if (courseError) {
+          if (courseError.code === UNIQUE_VIOLATION) {
+            throw new TRPCError({
+              code: 'CONFLICT',
+              message: 'This course is already in the directory',
+            });
+          }
+          throw courseError;
+        }
+
+        golfCourseId = course.id;
+      }
+
+      const { data: reviewed, error } = await supabaseAdmin
+        .from('golf_course_submissions')
+        .update({
+          status: input.approve ? 'approved' : 'rejected',
+          reviewed_by: ctx.user.id,
+          reviewed_at: new Date().toISOString(),
+          review_notes: input.notes,
+          golf_course_id: golfCourseId,
+        })
+        .eq('id', input.submissionId)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      await supabaseAdmin.from('notifications').insert({
+        user_id: submission.submitted_by,
+        type: 'system',
+        title: input.approve ? 'Golf course added' : 'Golf course not added',
+        message: input.approve
+          ? `${submission.name} is now in the course directory. Thanks for the suggestion!`
+          : `We couldn't add ${submission.name} to the course directory.${input.notes ? ` ${input.notes}` : ''}`,
+        channels: ['push'],
+      });
+
+      return reviewed;
+    }),
+
+  /**
+   * Admin: Bulk import courses from a CSV or GeoJSON file. Existing courses with the
+   * same name and city are updated. Invalid rows are skipped and reported; with
+   * dryRun nothing is written.
+   */
+  importCourses: adminProcedure
+    .input(
+      z.object({
+        format: z.enum(['csv', 'geojson']),
+        content: z.string().min(1).max(MAX_IMPORT_BYTES),
+        // Recorded on each course, e.g. the name of the dataset
+        source: z.string().trim().min(1).max(100).default('import'),
+        dryRun: z.boolean().default(false),
+      })
+    )
+    .mutation(async ({ input }) => {
+      if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+      const { courses, errors } =
+        input.format === 'csv'
+          ? parseCoursesCsv(input.content)
+          : parseCoursesGeoJson(input.content);
+
+      if (input.dryRun || courses.length === 0) {
+        return { valid: courses.length, inserted: 0, updated: 0, errors };
+      }
+
+      const { data, error } = await supabaseAdmin.rpc('import_golf_courses', {
+        p_courses: courses,
+        p_source: input.source,
+      });
+
+      if (error) throw error;
+
+      return {
+        valid: courses.length,
+        inserted: data?.[0]?.inserted ?? 0,
+        updated: data?.[0]?.updated ?? 0,
+        errors,
+      };
+    }),
+});
+
+/**
+ * Helper: Drop the pagination total and round the distance
+ */
+function toGolfCourse({ total_count, ...course }: GolfCourseSearchRow) {
+  return {
+    ...course,
+    distance_km: course.distance_km !== null ? Math.round(course.distance_km * 10) / 10 : null,
+    listing_count: Number(course.listing_count),
+  };
+}
+
+/**
+ * Helper: Match a value exactly (ignoring case) with ilike
+ */
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+export default golfCoursesRouter;
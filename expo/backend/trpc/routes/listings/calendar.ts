@@ -0,0 +1,458 @@
+/**
+ * Listings Calendar tRPC Routes
+ * Day-by-day availability for a listing, owner-managed blocked dates, and iCal sync
+ */
+
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import {
+  addDays,
+  eachDayOfInterval,
+  endOfMonth,
+  format,
+  isAfter,
+  isBefore,
+  isValid,
+  parse,
+  parseISO,
+  startOfDay,
+} from 'date-fns';
+import { publicProcedure, protectedProcedure } from '../../create-context';
+import { supabaseAdmin } from '../../../../lib/supabase';
+import { getFeedUrl } from '../../../calendar/feed';
+import { syncCalendarImport } from '../../../calendar/imports';
+
+export type CalendarDayStatus =
+  | 'available'
+  | 'booked'
+  | 'blocked'
+  | 'prep_buffer'
+  | 'advance_notice';
+
+export interface CalendarDay {
+  date: string;
+  status: CalendarDayStatus;
+  // Owner only
+  bookingId?: string;
+  windowId?: string;
+  reason?: string | null;
+}
+
+// Bookings in these statuses hold their dates
+const ACTIVE_BOOKING_STATUSES = ['pending', 'confirmed', 'in_progress'];
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date');
+
+const dateRangeFields = {
+  listingId: z.string().uuid(),
+  startDate: dateString,
+  endDate: dateString,
+};
+
+const endsOnOrAfterStart = (input: { startDate: string; endDate: string }) =>
+  input.startDate <= input.endDate;
+
+const endBeforeStartError = { message: 'endDate must be on or after startDate', path: ['endDate'] };
+
+/**
+ * Get day-level availability for one month of a listing's calendar
+ */
+export const getCalendar = publicProcedure
+  .input(
+    z.object({
+      listingId: z.string().uuid(),
+      month: z
+        .string()
+        .regex(/^\d{4}-\d{2}$/, 'Expected a YYYY-MM month')
+        .refine((month) => isValid(parse(month, 'yyyy-MM', new Date())), 'Invalid month'),
+    })
+  )
+  .query(async ({ input, ctx }) => {
+    if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+    const { data: listing } = await supabaseAdmin
+      .from('listings')
+      .select('id, owner_id, is_active, is_draft, advance_notice_days, preparation_time_days')
+      .eq('id', input.listingId)
+      .single();
+
+    if (!listing) throw new TRPCError({ code: 'NOT_FOUND', message: 'Listing not found' });
+
+    // Inactive and draft listings are only visible to their owner
+    const isOwner = ctx.user?.id === listing.owner_id;
+    if ((!listing.is_active || listing.is_draft) && !isOwner) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Listing not found' });
+    }
+
+    const monthStart = parseISO(`${input.month}-01`);
+    const monthEnd = endOfMonth(monthStart);
+    const monthStartDate = format(monthStart, 'yyyy-MM-dd');
+    const monthEndDate = format(monthEnd, 'yyyy-MM-dd');
+
+    // A booking that ended just before the month can still cast its prep buffer into it
+    const { data: bookings, error: bookingsError } = await supabaseAdmin
+      .from('bookings')
+      .select('id, start_date, end_date, buffer_days')
+      .eq('listing_id', input.listingId)
+      .in('status', ACTIVE_BOOKING_STATUSES)
+      .lte('start_date', monthEndDate)
+      .gte('end_date', format(addDays(monthStart, -30), 'yyyy-MM-dd'));
+
+    if (bookingsError) throw bookingsError;
+
+    const { data: windows, error: windowsError } = await supabaseAdmin
+      .from('availability_windows')
+      .select('id, start_date, end_date, reason')
+      .eq('listing_id', input.listingId)
+      .eq('is_blocked', true)
+      .lte('start_date', monthEndDate)
+      .gte('end_date', monthStartDate);
+
+    if (windowsError) throw windowsError;
+
+    const earliestBookable = addDays(startOfDay(new Date()), listing.advance_notice_days || 0);
+
+    const days: CalendarDay[] = eachDayOfInterval({ start: monthStart, end: monthEnd }).map(
+      (day) => {
+        const date = format(day, 'yyyy-MM-dd');
+
+        const booking = bookings?.find((b) => b.start_date <= date && b.end_date >= date);
+        if (booking) {
+          return { date, status: 'booked', ...(isOwner && { bookingId: booking.id }) };
+        }
+
+        const window = windows?.find((w) => w.start_date <= date && w.end_date >= date);
+        if (window) {
+          return {
+            date,
+            status: 'blocked',
+            ...(isOwner && { windowId: window.id, reason: window.reason }),
+          };
+        }
+
+        const bufferedBooking = bookings?.find(
+          (b) =>
+            b.end_date < date &&
+            format(addDays(parseISO(b.end_date), b.buffer_days || 0), 'yyyy-MM-dd') >= date
+        );
+        if (bufferedBooking) {
+          return {
+            date,
+            status: 'prep_buffer',
+            ...(isOwner && { bookingId: bufferedBooking.id }),
+          };
+        }
+
+        if (isBefore(day, earliestBookable)) {
+          return { date, status: 'advance_notice' };
+        }
+
+        return { date, status: 'available' };
+      }
+    );
+
+    return {
+      listingId: input.listingId,
+      month: input.month,
+      advanceNoticeDays: listing.advance_notice_days || 0,
+      preparationTimeDays: listing.preparation_time_days || 0,
+      days,
+    };
+  });
+
+/**
+ * Block a date range on a listing's calendar (owner only)
+ */
+export const blockDates = protectedProcedure
+  .input(
+    z
+      .object({
+        ...dateRangeFields,
+        reason: z.enum(['personal_use', 'maintenance', 'other']),
+      })
+      .refine(endsOnOrAfterStart, endBeforeStartError)
+  )
+  .mutation(async ({ input, ctx }) => {
+    if (!supabaseAdmin) throw new Error('Supabase not configured');
+    if (!ctx.user) throw new Error('Not authenticated');
+
+    await assertListingOwner(input.listingId, ctx.user.id);
+
+    // Owners can't block dates a renter already holds. The database checks and
+    // inserts under the listing's row lock, so a booking can't slip in between.
+    const { data: window, error } = await supabaseAdmin.rpc('block_listing_dates', {
+      p_listing_id: input.listingId,
+      p_owner_id: ctx.user.id,
+      p_start_date: input.startDate,
+      p_end_date: input.endDate,
+      p_reason: input.reason,
+    });
+
+    if (error) throw blockError(error);
+
+    return { success: true, window };
+  });
+
+/**
+ * Unblock a date range, trimming or splitting any blocked windows it overlaps (owner only)
+ */
+export const unblockDates = protectedProcedure
+  .input(z.object(dateRangeFields).refine(endsOnOrAfterStart, endBeforeStartError))
+  .mutation(async ({ input, ctx }) => {
+    if (!supabaseAdmin) throw new Error('Supabase not configured');
+    if (!ctx.user) throw new Error('Not authenticated');
+
+    await assertListingOwner(input.listingId, ctx.user.id);
+
+    const { data: windows, error } = await supabaseAdmin
+      .from('availability_windows')
+      .select('*')
+      .eq('listing_id', input.listingId)
+      .eq('is_blocked', true)
+      .is('import_id', null) // Imported windows follow their source calendar
+      .lte('start_date', input.endDate)
+      .gte('end_date', input.startDate);
+
+    if (error) throw error;
+
+    const unblockStart = parseISO(input.startDate);
+    const unblockEnd = parseISO(input.endDate);
+
+    for (const window of windows || []) {
+      const windowStart = parseISO(window.start_date);
+      const windowEnd = parseISO(window.end_date);
+
+      // Whatever is left of the window on either side of the unblocked range
+      const remaining: { start_date: string; end_date: string }[] = [];
+      if (isBefore(windowStart, unblockStart)) {
+        remaining.push({
+          start_date: window.start_date,
+          end_date: format(addDays(unblockStart, -1), 'yyyy-MM-dd'),
+        });
+      }
+      if (isAfter(windowEnd, unblockEnd)) {
+        remaining.push({
+          start_date: format(addDays(unblockEnd, 1), 'yyyy-MM-dd'),
+          end_date: window.end_date,
+        });
+      }
+
+      if (remaining.length === 0) {
+        await supabaseAdmin.from('availability_windows').delete().eq('id', window.id);
+        continue;
+      }
+
+      await supabaseAdmin
+        .from('availability_windows')
+        .update(remaining[0])
+        .eq('id', window.id);
+
+      if (remaining[1]) {
+        await supabaseAdmin.from('availability_windows').insert({
+          listing_id: window.listing_id,
+          is_blocked: true,
+          reason: window.reason,
+          ...remaining[1],
+        });
+      }
+    }
+
+    return { success: true, updated: windows?.length || 0 };
+  });
+
+/**
+ * Get the secret iCalendar feed URL for a listing (owner only)
+ */
+export const getCalendarFeed = protectedProcedure
+  .input(z.object({ listingId: z.string().uuid() }))
+  .query(async ({ input, ctx }) => {
+    if (!supabaseAdmin) throw new Error('Supabase not configured');
+    if (!ctx.user) throw new Error('Not authenticated');
+
+    const listing = await assertListingOwner(input.listingId, ctx.user.id);
+
+    return { url: await getFeedUrl(input.listingId, listing.calendar_feed_version) };
+  });
+
+/**
+ * Replace the feed URL, cutting off anyone who had the old one (owner only)
+ */
+export const rotateCalendarFeed = protectedProcedure
+  .input(z.object({ listingId: z.string().uuid() }))
+  .mutation(async ({ input, ctx }) => {
+    if (!supabaseAdmin) throw new Error('Supabase not configured');
+    if (!ctx.user) throw new Error('Not authenticated');
+
+    const listing = await assertListingOwner(input.listingId, ctx.user.id);
+    const version = listing.calendar_feed_version + 1;
+
+    const { error } = await supabaseAdmin
+      .from('listings')
+      .update({ calendar_feed_version: version })
+      .eq('id', input.listingId);
+
+    if (error) throw error;
+
+    return { url: await getFeedUrl(input.listingId, version) };
+  });
+
+/**
+ * Import an external calendar from a URL or an uploaded .ics file as blocked dates (owner only)
+ */
+export const importCalendar = protectedProcedure
+  .input(
+    z
+      .object({
+        listingId: z.string().uuid(),
+        name: z.string().min(1).max(100),
+        url: z.string().url().optional(),
+        icsContent: z.string().max(2 * 1024 * 1024).optional(),
+      })
+      .refine((input) => !!input.url !== !!input.icsContent, {
+        message: 'Provide either a calendar URL or a file',
+        path: ['url'],
+      })
+  )
+  .mutation(async ({ input, ctx }) => {
+    if (!supabaseAdmin) throw new Error('Supabase not configured');
+    if (!ctx.user) throw new Error('Not authenticated');
+
+    await assertListingOwner(input.listingId, ctx.user.id);
+
+    const { data: calendarImport, error } = await supabaseAdmin
+      .from('calendar_imports')
+      .insert({
+        listing_id: input.listingId,
+        name: input.name,
+        source_url: input.url ?? null,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    try {
+      const result = await syncCalendarImport(calendarImport, input.icsContent);
+      return { success: true, calendarImport, ...result };
+    } catch (syncError) {
+      // Don't keep an import that never worked
+      await supabaseAdmin.from('calendar_imports').delete().eq('id', calendarImport.id);
+      throw syncError;
+    }
+  });
+
+/**
+ * List a listing's calendar imports (owner only)
+ */
+export const getCalendarImports = protectedProcedure
+  .input(z.object({ listingId: z.string().uuid() }))
+  .query(async ({ input, ctx }) => {
+    if (!supabaseAdmin) throw new Error('Supabase not configured');
+    if (!ctx.user) throw new Error('Not authenticated');
+
+    await assertListingOwner(input.listingId, ctx.user.id);
+
+    const { data: imports, error } = await supabaseAdmin
+      .from('calendar_imports')
+      .select('*')
+      .eq('listing_id', input.listingId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    return imports || [];
+  });
+
+/**
+ * Re-import a calendar now. Uploaded files pass the new file contents (owner only)
+ */
+export const syncCalendar = protectedProcedure
+  .input(
+    z.object({
+      importId: z.string().uuid(),
+      icsContent: z.string().max(2 * 1024 * 1024).optional(),
+    })
+  )
+  .mutation(async ({ input, ctx }) => {
+    if (!supabaseAdmin) throw new Error('Supabase not configured');
+    if (!ctx.user) throw new Error('Not authenticated');
+
+    const calendarImport = await getImportForOwner(input.importId, ctx.user.id);
+    const result = await syncCalendarImport(calendarImport, input.icsContent);
+
+    return { success: true, ...result };
+  });
+
+/**
+ * Remove a calendar import and the dates it blocked (owner only)
+ */
+export const removeCalendarImport = protectedProcedure
+  .input(z.object({ importId: z.string().uuid() }))
+  .mutation(async ({ input, ctx }) => {
+    if (!supabaseAdmin) throw new Error('Supabase not configured');
+    if (!ctx.user) throw new Error('Not authenticated');
+
+    await getImportForOwner(input.importId, ctx.user.id);
+
+    // Windows cascade with the import
+    const { error } = await supabaseAdmin
+      .from('calendar_imports')
+      .delete()
+      .eq('id', input.importId);
+
+    if (error) throw error;
+
+    return { success: true };
+  });
+
+/**
+ * Helper: Verify the user owns the listing
+ */
+async function assertListingOwner(listingId: string, userId: string) {
+  if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+  const { data: listing } = await supabaseAdmin
+    .from('listings')
+    .select('owner_id, calendar_feed_version')
+    .eq('id', listingId)
+    .single();
+
+  if (!listing || listing.owner_id !== userId) {
+    throw new Error('Unauthorized');
+  }
+
+  return listing;
+}
+
+async function getImportForOwner(importId: string, userId: string) {
+  if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+  const { data: calendarImport } = await supabaseAdmin
+    .from('calendar_imports')
+    .select('*, listing:listings(owner_id)')
+    .eq('id', importId)
+    .single();
+
+  if (!calendarImport || calendarImport.listing?.owner_id !== userId) {
+    throw new Error('Unauthorized');
+  }
+
+  return calendarImport;
+}
+
+/**
+ * Helper: Turn a block_listing_dates failure into a client-facing error
+ */
+function blockError(error: { code?: string; message: string }) {
+  switch (error.code) {
+    case '23P01': // exclusion_violation: an active booking holds some of the dates
+      return new TRPCError({
+        code: 'CONFLICT',
+        message: 'These dates overlap an existing booking. Cancel the booking first.',
+      });
+    case 'P0002': // no_data_found: missing, or not this owner's
+      return new TRPCError({ code: 'NOT_FOUND', message: 'Listing not found' });
+    default:
+      return error;
+  }
+}
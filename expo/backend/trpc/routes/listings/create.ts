@@ -0,0 +1,233 @@
+/**
+ * Listing Creation
+ * The fields an owner fills in when listing clubs, and the inserts shared by
+ * listings.create and draft publishing
+ */
+
+import { z } from 'zod';
+import { supabaseAdmin } from '../../../../lib/supabase';
+import {
+  clubTypeSchema,
+  conditionSchema,
+  flexSchema,
+  handednessSchema,
+  toDbEnum,
+} from '../../../../lib/domain';
+import { photoReviewColumns, type CheckedPhoto } from './photo-checks';
+
+export const MIN_LISTING_PHOTOS = 5;
+export const MAX_LISTING_PHOTOS = 10;
+
+// Field rules without defaults, so a partial draft save never fills in fields
+// the owner hasn't reached yet
+const listingFields = z.object({
+  // Basic info
+  title: z.string().min(10).max(60),
+  description: z.string().min(50).max(500),
+  clubType: clubTypeSchema,
+
+  // Specifications
+  brand: z.string().min(2),
+  model: z.string().optional(),
+  year: z.number().min(1990).max(new Date().getFullYear() + 1).optional(),
+  handedness: handednessSchema,
+  flex: flexSchema,
+  condition: conditionSchema,
+
+  // What's included
+  includesBag: z.boolean(),
+  bagType: z.string().optional(),
+  includesBalls: z.boolean(),
+  ballCount: z.number().min(0).optional(),
+  accessories: z.array(z.string()).optional(),
+  clubComposition: z
+    .object({
+      woods: z.number().optional(),
+      hybrids: z.number().optional(),
+      irons: z.number().optional(),
+      wedges: z.number().optional(),
+      putter: z.number().optional(),
+    })
+    .optional(),
+
+  // Pricing
+  dailyRate: z.number().min(20).max(500),
+  weeklyRate: z.number().optional(),
+  securityDeposit: z.number().min(50).max(300),
+
+  // Location
+  pickupLocationType: z.enum(['golf_course', 'residence', 'both', 'custom']),
+  golfCourseId: z.string().uuid().optional(),
+  address: z.string().optional(),
+  city: z.string().min(2),
+  province: z.string().min(2),
+  neighborhood: z.string().optional(),
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
+
+  // Delivery
+  deliveryAvailable: z.boolean(),
+  deliveryFee: z.number().min(0).optional(),
+  maxDeliveryDistanceKm: z.number().min(5).max(100).optional(),
+
+  // Availability
+  minimumRentalDays: z.number().min(1),
+  maximumRentalDays: z.number().min(1).optional(),
+  advanceNoticeDays: z.number().min(0),
+  preparationTimeDays: z.number().min(0),
+
+  // Booking settings
+  instantBooking: z.boolean(),
+  responseTimeCommitmentHours: z.number().min(1).max(72),
+  cancellationPolicy: z.enum(['flexible', 'moderate', 'strict']),
+  specialInstructions: z.string().max(500).optional(),
+});
+
+const { shape } = listingFields;
+
+const listingFieldsWithDefaults = listingFields.extend({
+  includesBag: shape.includesBag.default(false),
+  includesBalls: shape.includesBalls.default(false),
+  securityDeposit: shape.securityDeposit.default(100),
+  deliveryAvailable: shape.deliveryAvailable.default(false),
+  minimumRentalDays: shape.minimumRentalDays.default(1),
+  advanceNoticeDays: shape.advanceNoticeDays.default(1),
+  preparationTimeDays: shape.preparationTimeDays.default(0),
+  instantBooking: shape.instantBooking.default(false),
+  responseTimeCommitmentHours: shape.responseTimeCommitmentHours.default(24),
+  cancellationPolicy: shape.cancellationPolicy.default('moderate'),
+});
+
+export const createListingInput = listingFieldsWithDefaults.extend({
+  // Photos (base64 encoded)
+  photos: z.array(z.string()).min(MIN_LISTING_PHOTOS).max(MAX_LISTING_PHOTOS),
+
+  // Status
+  isDraft: z.boolean().default(false),
+});
+
+export type CreateListingFields = z.infer<typeof listingFieldsWithDefaults>;
+
+/**
+ * Draft fields: any subset, each checked against the same rules as a full listing
+ */
+export const listingDraftFields = listingFields.partial();
+
+export type ListingDraftFields = z.infer<typeof listingDraftFields>;
+
+/**
+ * Everything a draft needs before it can be published. Listings need coordinates,
+ * or a golf course to borrow them from, to show up in radius and map searches.
+ */
+export const publishableListingFields = listingFieldsWithDefaults.refine(
+  (fields) =>
+    !!fields.golfCourseId || (fields.latitude !== undefined && fields.longitude !== undefined),
+  { message: 'Pick a golf course or drop a pin for pickup', path: ['latitude'] }
+);
+
+/**
+ * Insert a listings row from validated fields
+ */
+export async function insertListing(
+  ownerId: string,
+  input: CreateListingFields & { isDraft?: boolean }
+) {
+  if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+  // Listings without coordinates fall back to their golf course's location,
+  // otherwise they never match a radius search
+  let location: string | null = null;
+  if (input.latitude !== undefined && input.longitude !== undefined) {
+    location = `SRID=4326;POINT(${input.longitude} ${input.latitude})`;
+  } else if (input.golfCourseId) {
+    const { data: golfCourse } = await supabaseAdmin
+      .from('golf_courses')
+      .select('location')
+      .eq('id', input.golfCourseId)
+      .single();
+    location = golfCourse?.location ?? null;
+  }
+
+  const { data: listing, error } = await supabaseAdmin
+    .from('listings')
+    .insert({
+      owner_id: ownerId,
+      title: input.title,
+      description: input.description,
+      club_type: toDbEnum(input.clubType),
+      brand: input.brand,
+      model: input.model,
+      year: input.year,
+      handedness: input.handedness,
+      flex: toDbEnum(input.flex),
+      condition: toDbEnum(input.condition),
+      includes_bag: input.includesBag,
+      bag_type: input.bagType,
+      includes_balls: input.includesBalls,
+      ball_count: input.ballCount,
+      accessories: input.accessories,
+      club_composition: input.clubComposition,
+      daily_rate: input.dailyRate,
+      weekly_rate: input.weeklyRate,
+      security_deposit: input.securityDeposit,
+      pickup_location_type: input.pickupLocationType,
+      golf_course_id: input.golfCourseId,
+      location,
+      address: input.address,
+      city: input.city,
+      province: input.province,
+      neighborhood: input.neighborhood,
+      delivery_available: input.deliveryAvailable,
+      delivery_fee: input.deliveryFee,
+      max_delivery_distance_km: input.maxDeliveryDistanceKm,
+      minimum_rental_days: input.minimumRentalDays,
+      maximum_rental_days: input.maximumRentalDays,
+      advance_notice_days: input.advanceNoticeDays,
+      preparation_time_days: input.preparationTimeDays,
+      instant_booking: input.instantBooking,
+      response_time_commitment_hours: input.responseTimeCommitmentHours,
+      cancellation_policy: input.cancellationPolicy,
+      special_instructions: input.specialInstructions,
+      is_draft: !!input.isDraft,
+      published_at: input.isDraft ? null : new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return listing;
+}
+
+/**
+ * Save uploaded photos against a listing
+ */
+export async function insertListingPhotos(listingId: string, photos: CheckedPhoto[]) {
+  if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+  const photoRecords = listingPhotoRecords(listingId, photos);
+
+  const { error } = await supabaseAdmin.from('listing_photos').insert(photoRecords);
+
+  if (error) {
+    console.error('Error saving photos:', error);
+  }
+
+  return photoRecords;
+}
+
+/**
+ * listing_photos rows for uploaded photos, in order, first photo as the primary
+ */
+export function listingPhotoRecords(listingId: string, photos: CheckedPhoto[]) {
+  return photos.map((photo, index) => ({
+    listing_id: listingId,
+    url: photo.secureUrl,
+    cloudinary_public_id: photo.publicId,
+    position: index,
+    is_primary: index === 0,
+    width: photo.width,
+    height: photo.height,
+    ...photoReviewColumns(photo),
+  }));
+}
@@ -0,0 +1,382 @@
+/**
+ * Listing Drafts tRPC Routes
+ * Listings built up step by step by the listing wizard, autosaved as the owner
+ * goes and resumable on any device until they are published
+ */
+
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { protectedProcedure } from '../../create-context';
+import { supabaseAdmin } from '../../../../lib/supabase';
+import { cloudinaryService } from '../../../../services/cloudinary';
+import { listingFromRow } from '../../../../lib/domain';
+import type { Database } from '../../../../types/database';
+import {
+  MAX_LISTING_PHOTOS,
+  MIN_LISTING_PHOTOS,
+  insertListing,
+  listingDraftFields,
+  listingPhotoRecords,
+  publishableListingFields,
+  type ListingDraftFields,
+} from './create';
+import { uploadListingPhotos } from './photo-checks';
+
+type DraftRow = Database['public']['Tables']['listing_drafts']['Row'];
+
+const draftPhotoSchema = z.object({
+  url: z.string(),
+  publicId: z.string(),
+  width: z.number(),
+  height: z.number(),
+  // Image check results, carried onto the listing photo when the draft is published
+  phash: z.string().nullable().optional(),
+  review: z
+    .object({
+      status: z.enum(['approved', 'flagged', 'rejected']),
+      reasons: z.array(z.string()),
+    })
+    .optional(),
+});
+
+type DraftPhoto = z.infer<typeof draftPhotoSchema>;
+
+export interface ListingDraft {
+  id: string;
+  fields: ListingDraftFields;
+  photos: string[];
+  currentStep: string | null;
+  version: number;
+  // What still stands between the draft and publishing, by field
+  errors: Record<string, string>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Keeps abandoned drafts (and their uploaded photos) from piling up
+const MAX_DRAFTS_PER_OWNER = 10;
+
+const DRAFT_PHOTOS_FOLDER = 'listing-drafts';
+
+const staleDraftError = () =>
+  new TRPCError({
+    code: 'CONFLICT',
+    message: 'This draft was changed on another device. Reload it to keep editing.',
+  });
+
+/**
+ * Create a draft, or save changes to one. Only the fields sent are changed; the
+ * version must match the draft's current version so two devices autosaving the
+ * same draft can't overwrite each other.
+ */
+export const saveDraft = protectedProcedure
+  .input(
+    z
+      .object({
+        draftId: z.string().uuid().optional(),
+        version: z.number().int().min(1).optional(),
+        fields: listingDraftFields.default({}),
+        clearFields: z.array(listingDraftFields.keyof()).optional(),
+        // Photo URLs already on the draft, in order, plus new base64 photos to upload
+        photos: z.array(z.string()).max(MAX_LISTING_PHOTOS).optional(),
+        currentStep: z.string().max(40).optional(),
+      })
+      .refine((input) => !input.draftId || input.version !== undefined, {
+        message: 'version is required when saving an existing draft',
+        path: ['version'],
+      })
+  )
+  .mutation(async ({ input, ctx }) => {
+    if (!supabaseAdmin) throw new Error('Supabase not configured');
+    if (!ctx.user) throw new Error('Not authenticated');
+
+    if (!input.draftId) {
+      const { count } = await supabaseAdmin
+        .from('listing_drafts')
+        .select('id', { count: 'exact', head: true })
+        .eq('owner_id', ctx.user.id);
+
+      if ((count || 0) >= MAX_DRAFTS_PER_OWNER) {
+        throw new TRPCError({
+          code: 'PRECONDITION_FAILED',
+          message: `You can keep up to ${MAX_DRAFTS_PER_OWNER} drafts. Publish or delete one first.`,
+        });
+      }
+
+      const photos = await uploadDraftPhotos(input.photos ?? [], [], ctx.user.id);
+
+      const { data: draft, error } = await supabaseAdmin
+        .from('listing_drafts')
+        .insert({
+          owner_id: ctx.user.id,
+          fields: input.fields,
+          photos,
+          current_step: input.currentStep ?? null,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        await deleteDraftPhotos(photos);
+        throw error;
+      }
+
+      return draftFromRow(draft);
+    }
+
+    const draft = await getDraftForOwner(input.draftId, ctx.user.id);
+    if (draft.version !== input.version) throw staleDraftError();
+
+    const fields: ListingDraftFields = { ...(draft.fields as ListingDraftFields), ...input.fields };
+    for (const field of input.clearFields ?? []) delete fields[field];
+
+    const currentPhotos = draftPhotos(draft);
+    const photos =
+      input.photos !== undefined
+        ? await uploadDraftPhotos(input.photos, currentPhotos, ctx.user.id)
+        : currentPhotos;
+
+    // Conditional on the version read above, in case another save landed since
+    const { data: saved, error } = await supabaseAdmin
+      .from('listing_drafts')
+      .update({
+        fields,
+        photos,
+        ...(input.currentStep !== undefined && { current_step: input.currentStep }),
+        version: draft.version + 1,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', draft.id)
+      .eq('version', draft.version)
+      .select()
+      .maybeSingle();
+
+    const keptUrls = new Set(photos.map((photo) => photo.url));
+    const currentUrls = new Set(currentPhotos.map((photo) => photo.url));
+
+    if (error || !saved) {
+      // Drop this save's uploads; the draft still points at its old photos
+      await deleteDraftPhotos(photos.filter((photo) => !currentUrls.has(photo.url)));
+      if (error) throw error;
+      throw staleDraftError();
+    }
+
+    await deleteDraftPhotos(currentPhotos.filter((photo) => !keptUrls.has(photo.url)));
+
+    return draftFromRow(saved);
+  });
+
+/**
+ * Get the user's drafts, most recently edited first
+ */
+export const getDrafts = protectedProcedure.query(async ({ ctx }) => {
+  if (!supabaseAdmin) throw new Error('Supabase not configured');
+  if (!ctx.user) throw new Error('Not authenticated');
+
+  const { data: drafts, error } = await supabaseAdmin
+    .from('listing_drafts')
+    .select('*')
+    .eq('owner_id', ctx.user.id)
+    .order('updated_at', { ascending: false });
+
+  if (error) throw error;
+
+  return (drafts || []).map(draftFromRow);
+});
+
+/**
+ * Get one draft to resume it
+ */
+export const getDraft = protectedProcedure
+  .input(z.string().uuid())
+  .query(async ({ input: draftId, ctx }) => {
+    if (!supabaseAdmin) throw new Error('Supabase not configured');
+    if (!ctx.user) throw new Error('Not authenticated');
+
+    return draftFromRow(await getDraftForOwner(draftId, ctx.user.id));
+  });
+
+/**
+ * Delete a draft and its uploaded photos
+ */
+export const deleteDraft = protectedProcedure
+  .input(z.string().uuid())
+  .mutation(async ({ input: draftId, ctx }) => {
+    if (!supabaseAdmin) throw new Error('Supabase not configured');
+    if (!ctx.user) throw new Error('Not authenticated');
+
+    const draft = await getDraftForOwner(draftId, ctx.user.id);
+
+    const { error } = await supabaseAdmin.from('listing_drafts').delete().eq('id', draft.id);
+
+    if (error) throw error;
+
+    await deleteDraftPhotos(draftPhotos(draft));
+
+    return { success: true };
+  });
+
+/**
+ * Publish a draft as a listing. Runs the full listing validation; when the draft
+ * isn't ready, returns what's missing or invalid by field instead of publishing.
+ */
+export const publishDraft = protectedProcedure
+  .input(
+    z.object({
+      draftId: z.string().uuid(),
+      version: z.number().int().min(1),
+    })
+  )
+  .mutation(async ({ input, ctx }) => {
+    if (!supabaseAdmin) throw new Error('Supabase not configured');
+    if (!ctx.user) throw new Error('Not authenticated');
+
+    const draft = await getDraftForOwner(input.draftId, ctx.user.id);
+    if (draft.version !== input.version) throw staleDraftError();
+
+    const errors = draftErrors(draft);
+    if (Object.keys(errors).length > 0) {
+      return { published: false as const, errors };
+    }
+
+    // Claim the draft so a second publish from another device can't create a duplicate
+    const { data: claimed } = await supabaseAdmin
+      .from('listing_drafts')
+      .update({ version: draft.version + 1, updated_at: new Date().toISOString() })
+      .eq('id', draft.id)
+      .eq('version', draft.version)
+      .select('id')
+      .maybeSingle();
+
+    if (!claimed) throw staleDraftError();
+
+    const listing = await insertListing(ctx.user.id, publishableListingFields.parse(draft.fields));
+
+    // The photos move to the listing and the draft row goes in one transaction;
+    // the Cloudinary assets stay, as the listing now uses them
+    const { data: photoRecords, error } = await supabaseAdmin.rpc('publish_listing_draft', {
+      p_draft_id: draft.id,
+      p_version: draft.version + 1,
+      p_listing_id: listing.id,
+      p_photos: listingPhotoRecords(
+        listing.id,
+        draftPhotos(draft).map((photo) => ({ ...photo, secureUrl: photo.url }))
+      ),
+    });
+
+    if (error) {
+      // Nothing was moved, so the draft can be published again
+      await supabaseAdmin.from('listings').delete().eq('id', listing.id);
+      if (error.code === '40001') throw staleDraftError();
+      throw error;
+    }
+
+    return {
+      published: true as const,
+      listing: listingFromRow({ ...listing, photos: photoRecords }),
+    };
+  });
+
+/**
+ * Helper: Get a draft, checking the user owns it
+ */
+async function getDraftForOwner(draftId: string, userId: string) {
+  if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+  const { data: draft } = await supabaseAdmin
+    .from('listing_drafts')
+    .select('*')
+    .eq('id', draftId)
+    .single();
+
+  if (!draft || draft.owner_id !== userId) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Draft not found' });
+  }
+
+  return draft;
+}
+
+/**
+ * Helper: Keep the draft photos still listed, in the order given, and upload the
+ * rest through the listing photo checks
+ */
+async function uploadDraftPhotos(
+  photos: string[],
+  currentPhotos: DraftPhoto[],
+  ownerId: string
+): Promise<DraftPhoto[]> {
+  const currentByUrl = new Map(currentPhotos.map((photo) => [photo.url, photo]));
+
+  const newPhotos = [...new Set(photos.filter((photo) => !currentByUrl.has(photo)))];
+  const uploaded = await uploadListingPhotos(newPhotos, { folder: DRAFT_PHOTOS_FOLDER, ownerId });
+  const uploadedByData = new Map(newPhotos.map((photo, index) => [photo, uploaded[index]]));
+
+  return photos.map((photo) => {
+    const current = currentByUrl.get(photo);
+    if (current) return current;
+
+    const upload = uploadedByData.get(photo)!;
+    return {
+      url: upload.secureUrl,
+      publicId: upload.publicId,
+      width: upload.width,
+      height: upload.height,
+      phash: upload.phash,
+      review: upload.review,
+    };
+  });
+}
+
+/**
+ * Helper: Remove draft photos from Cloudinary
+ */
+async function deleteDraftPhotos(photos: DraftPhoto[]) {
+  if (photos.length === 0) return;
+
+  await cloudinaryService.deleteImages(photos.map((photo) => photo.publicId));
+}
+
+/**
+ * Helper: Publish errors for a draft by field, first problem per field
+ */
+function draftErrors(draft: DraftRow): Record<string, string> {
+  const errors: Record<string, string> = {};
+
+  const parsed = publishableListingFields.safeParse(draft.fields);
+  if (!parsed.success) {
+    for (const issue of parsed.error.issues) {
+      const field = String(issue.path[0] ?? 'fields');
+      errors[field] ??= issue.message;
+    }
+  }
+
+  const photoCount = draftPhotos(draft).length;
+  if (photoCount < MIN_LISTING_PHOTOS) {
+    errors.photos = `Add at least ${MIN_LISTING_PHOTOS} photos (${photoCount} so far)`;
+  }
+
+  return errors;
+}
+
+/**
+ * Helper: Map a listing_drafts row for the wizard
+ */
+function draftFromRow(row: DraftRow): ListingDraft {
+  return {
+    id: row.id,
+    fields: row.fields as ListingDraftFields,
+    photos: draftPhotos(row).map((photo) => photo.url),
+    currentStep: row.current_step,
+    version: row.version,
+    errors: draftErrors(row),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Helper: Read a draft's photos column
+ */
+function draftPhotos(row: Pick<DraftRow, 'photos'>): DraftPhoto[] {
+  return z.array(draftPhotoSchema).parse(row.photos);
+}
@@ -0,0 +1,118 @@
+/**
+ * Listing Photo Checks
+ * The image checks every listing photo goes through on upload, and the
+ * listing_photos review columns they produce
+ */
+
+import { TRPCError } from '@trpc/server';
+import { supabaseAdmin } from '../../../../lib/supabase';
+import {
+  cloudinaryService,
+  type ListingPhotoUpload,
+  type UploadResult,
+} from '../../../../services/cloudinary';
+import {
+  ImageRejectedError,
+  aspectRatio,
+  minResolution,
+  noDuplicatesAcrossOwners,
+  type ImageCheck,
+  type ImageVerdict,
+  type SimilarPhoto,
+} from '../../../../services/image-validation';
+
+// Perceptual hashes this many bits apart or closer count as the same photo
+const MAX_DUPLICATE_DISTANCE = 6;
+
+// A photo as uploaded, with the results of its checks when it went through them
+export type CheckedPhoto = Pick<UploadResult, 'secureUrl' | 'publicId' | 'width' | 'height'> & {
+  phash?: string | null;
+  review?: ImageVerdict;
+};
+
+export const listingPhotoChecks: ImageCheck[] = [
+  // Long side 800px, short side 600px, in either orientation
+  minResolution(800, 600),
+  // Nothing wider than 2:1 or taller than 1:2
+  aspectRatio(0.5, 2),
+  noDuplicatesAcrossOwners(findSimilarListingPhotos),
+];
+
+/**
+ * Upload listing photos through the image checks. If any upload fails or is
+ * rejected, the others are deleted and the first error is thrown.
+ */
+export async function uploadListingPhotos(
+  images: string[],
+  options: { folder: string; ownerId: string; listingId?: string }
+): Promise<ListingPhotoUpload[]> {
+  const results = await Promise.allSettled(
+    images.map((imageData) =>
+      cloudinaryService.uploadListingPhoto(imageData, {
+        folder: options.folder,
+        checks: listingPhotoChecks,
+        context: { ownerId: options.ownerId, listingId: options.listingId },
+      })
+    )
+  );
+
+  const failure = results.find((result) => result.status === 'rejected');
+
+  if (failure) {
+    const uploaded = results.flatMap((result) =>
+      result.status === 'fulfilled' ? [result.value.publicId] : []
+    );
+    if (uploaded.length > 0) await cloudinaryService.deleteImages(uploaded);
+
+    const error = failure.reason;
+    if (error instanceof ImageRejectedError) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+    }
+    throw error;
+  }
+
+  return results.flatMap((result) => (result.status === 'fulfilled' ? [result.value] : []));
+}
+
+/**
+ * Folder a listing's photos are uploaded to
+ */
+export function listingPhotoFolder(listingId: string) {
+  return `listings/${listingId}`;
+}
+
+/**
+ * listing_photos columns for a checked photo. Flagged photos stay visible and
+ * wait in the admin review queue.
+ */
+export function photoReviewColumns(photo: CheckedPhoto) {
+  return {
+    phash: photo.phash ?? null,
+    review_status: photo.review?.status === 'flagged' ? ('flagged' as const) : ('approved' as const),
+    review_reasons: photo.review?.reasons.length ? photo.review.reasons : null,
+  };
+}
+
+/**
+ * Helper: Photos on other owners' listings with a perceptual hash close to this one
+ */
+async function findSimilarListingPhotos(
+  phash: string,
+  context: { ownerId: string }
+): Promise<SimilarPhoto[]> {
+  if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+  const { data, error } = await supabaseAdmin.rpc('find_similar_listing_photos', {
+    p_phash: phash,
+    p_owner_id: context.ownerId,
+    p_max_distance: MAX_DUPLICATE_DISTANCE,
+  });
+
+  if (error) throw error;
+
+  return (data || []).map((match) => ({
+    photoId: match.photo_id,
+    listingId: match.listing_id,
+    distance: match.distance,
+  }));
+}
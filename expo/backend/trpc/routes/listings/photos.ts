@@ -0,0 +1,420 @@
+/**
+ * Listing Photos tRPC Routes
+ * Add, replace, remove and reorder a listing's photos (owner only), and review
+ * photos the image checks flagged (admin). Positions always run 0..n-1 and the
+ * photo at position 0 is the primary photo. Removed and replaced photos are
+ * queued in media_deletions and deleted from Cloudinary by the
+ * delete-orphaned-media job.
+ */
+
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { protectedProcedure, adminProcedure } from '../../create-context';
+import { supabaseAdmin } from '../../../../lib/supabase';
+import { cloudinaryService } from '../../../../services/cloudinary';
+import { MAX_LISTING_PHOTOS, MIN_LISTING_PHOTOS } from './create';
+import {
+  listingPhotoFolder,
+  photoReviewColumns,
+  uploadListingPhotos,
+  type CheckedPhoto,
+} from './photo-checks';
+
+// Postgres invalid_parameter_value: raised by set_listing_photo_order for an incomplete order
+const INVALID_PARAMETER_VALUE = '22023';
+
+const photoFields = {
+  listingId: z.string().uuid(),
+  photoId: z.string().uuid(),
+};
+
+/**
+ * Upload photos and add them after the listing's existing photos
+ */
+export const addPhotos = protectedProcedure
+  .input(
+    z.object({
+      listingId: z.string().uuid(),
+      // Base64 encoded
+      photos: z.array(z.string()).min(1).max(MAX_LISTING_PHOTOS),
+    })
+  )
+  .mutation(async ({ input, ctx }) => {
+    if (!supabaseAdmin) throw new Error('Supabase not configured');
+    if (!ctx.user) throw new Error('Not authenticated');
+
+    await assertListingOwner(input.listingId, ctx.user.id);
+
+    // Checked again when the photos are saved; this just avoids uploading for nothing
+    const existing = await getListingPhotos(input.listingId);
+
+    if (existing.length + input.photos.length > MAX_LISTING_PHOTOS) {
+      throw new TRPCError({
+        code: 'PRECONDITION_FAILED',
+        message: `Listings can have up to ${MAX_LISTING_PHOTOS} photos (this one has ${existing.length})`,
+      });
+    }
+
+    const uploadedPhotos = await uploadListingPhotos(input.photos, {
+      folder: listingPhotoFolder(input.listingId),
+      ownerId: ctx.user.id,
+      listingId: input.listingId,
+    });
+
+    try {
+      const photos = await appendListingPhotos(input.listingId, uploadedPhotos);
+      return { success: true, photos };
+    } catch (error) {
+      // Nothing references the uploads, so they can go straight away
+      await cloudinaryService.deleteImages(uploadedPhotos.map((photo) => photo.publicId));
+      throw error;
+    }
+  });
+
+/**
+ * Swap one photo's image for a new upload, keeping its position
+ */
+export const replacePhoto = protectedProcedure
+  .input(
+    z.object({
+      ...photoFields,
+      // Base64 encoded
+      photo: z.string(),
+    })
+  )
+  .mutation(async ({ input, ctx }) => {
+    if (!supabaseAdmin) throw new Error('Supabase not configured');
+    if (!ctx.user) throw new Error('Not authenticated');
+
+    await assertListingOwner(input.listingId, ctx.user.id);
+    await getPhotoForListing(input.listingId, input.photoId);
+
+    const [uploaded] = await uploadListingPhotos([input.photo], {
+      folder: listingPhotoFolder(input.listingId),
+      ownerId: ctx.user.id,
+      listingId: input.listingId,
+    });
+
+    // Changing cloudinary_public_id queues the old asset for deletion
+    const { error } = await supabaseAdmin
+      .from('listing_photos')
+      .update({
+        url: uploaded.secureUrl,
+        cloudinary_public_id: uploaded.publicId,
+        width: uploaded.width,
+        height: uploaded.height,
+        ...photoReviewColumns(uploaded),
+        reviewed_by: null,
+        reviewed_at: null,
+      })
+      .eq('id', input.photoId);
+
+    if (error) {
+      await cloudinaryService.deleteImage(uploaded.publicId);
+      throw error;
+    }
+
+    return { success: true, photos: await getListingPhotos(input.listingId) };
+  });
+
+/**
+ * Remove a photo. Published listings keep at least the minimum number of photos.
+ */
+export const removePhoto = protectedProcedure
+  .input(z.object(photoFields))
+  .mutation(async ({ input, ctx }) => {
+    if (!supabaseAdmin) throw new Error('Supabase not configured');
+    if (!ctx.user) throw new Error('Not authenticated');
+
+    const listing = await assertListingOwner(input.listingId, ctx.user.id);
+    await getPhotoForListing(input.listingId, input.photoId);
+
+    const existing = await getListingPhotos(input.listingId);
+
+    if (!listing.is_draft && existing.length <= MIN_LISTING_PHOTOS) {
+      throw new TRPCError({
+        code: 'PRECONDITION_FAILED',
+        message: `Listings need at least ${MIN_LISTING_PHOTOS} photos. Add or replace one instead.`,
+      });
+    }
+
+    // Deleting the row queues its Cloudinary asset for deletion
+    const { error } = await supabaseAdmin
+      .from('listing_photos')
+      .delete()
+      .eq('id', input.photoId);
+
+    if (error) throw error;
+
+    await setPhotoOrder(
+      input.listingId,
+      existing.map((photo) => photo.id).filter((id) => id !== input.photoId)
+    );
+
+    return { success: true, photos: await getListingPhotos(input.listingId) };
+  });
+
+/**
+ * Put a listing's photos in a new order. The first photo becomes the primary photo.
+ */
+export const reorderPhotos = protectedProcedure
+  .input(
+    z.object({
+      listingId: z.string().uuid(),
+      // Every photo of the listing, in the new order
+      photoIds: z.array(z.string().uuid()).min(1).max(MAX_LISTING_PHOTOS),
+    })
+  )
+  .mutation(async ({ input, ctx }) => {
+    if (!supabaseAdmin) throw new Error('Supabase not configured');
+    if (!ctx.user) throw new Error('Not authenticated');
+
+    await assertListingOwner(input.listingId, ctx.user.id);
+
+    await setPhotoOrder(input.listingId, input.photoIds);
+
+    return { success: true, photos: await getListingPhotos(input.listingId) };
+  });
+
+/**
+ * Make a photo the primary photo by moving it to the front
+ */
+export const setPrimaryPhoto = protectedProcedure
+  .input(z.object(photoFields))
+  .mutation(async ({ input, ctx }) => {
+    if (!supabaseAdmin) throw new Error('Supabase not configured');
+    if (!ctx.user) throw new Error('Not authenticated');
+
+    await assertListingOwner(input.listingId, ctx.user.id);
+    await getPhotoForListing(input.listingId, input.photoId);
+
+    const existing = await getListingPhotos(input.listingId);
+
+    await setPhotoOrder(input.listingId, [
+      input.photoId,
+      ...existing.map((photo) => photo.id).filter((id) => id !== input.photoId),
+    ]);
+
+    return { success: true, photos: await getListingPhotos(input.listingId) };
+  });
+
+/**
+ * Admin: Photos the image checks flagged, oldest first
+ */
+export const listFlaggedPhotos = adminProcedure
+  .input(
+    z.object({
+      limit: z.number().min(1).max(100).default(20),
+      offset: z.number().min(0).default(0),
+    })
+  )
+  .query(async ({ input }) => {
+    if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+    const { data: photos, count, error } = await supabaseAdmin
+      .from('listing_photos')
+      .select(
+        `
+        id,
+        url,
+        width,
+        height,
+        review_reasons,
+        created_at,
+        listing:listings (
+          id,
+          title,
+          owner_id
+        )
+      `,
+        { count: 'exact' }
+      )
+      .eq('review_status', 'flagged')
+      .order('created_at', { ascending: true })
+      .range(input.offset, input.offset + input.limit - 1);
+
+    if (error) throw error;
+
+    return {
+      items: photos || [],
+      total: count || 0,
+      hasMore: (count || 0) > input.offset + input.limit,
+    };
+  });
+
+/**
+ * Admin: Approve a flagged photo, or reject it, removing it from the listing and
+ * telling the owner why
+ */
+export const reviewPhoto = adminProcedure
+  .input(
+    z.object({
+      photoId: z.string().uuid(),
+      approve: z.boolean(),
+      notes: z.string().max(500).optional(),
+    })
+  )
+  .mutation(async ({ input, ctx }) => {
+    if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+    const { data: photo } = await supabaseAdmin
+      .from('listing_photos')
+      .select('id, listing_id, review_status, listing:listings(owner_id, title)')
+      .eq('id', input.photoId)
+      .single();
+
+    if (!photo) throw new TRPCError({ code: 'NOT_FOUND', message: 'Photo not found' });
+
+    if (photo.review_status !== 'flagged') {
+      throw new TRPCError({
+        code: 'PRECONDITION_FAILED',
+        message: 'This photo has already been reviewed',
+      });
+    }
+
+    if (input.approve) {
+      const { error } = await supabaseAdmin
+        .from('listing_photos')
+        .update({
+          review_status: 'approved',
+          reviewed_by: ctx.user.id,
+          reviewed_at: new Date().toISOString(),
+        })
+        .eq('id', photo.id);
+
+      if (error) throw error;
+
+      return { success: true };
+    }
+
+    // Deleting the row queues its Cloudinary asset for deletion
+    const { error } = await supabaseAdmin.from('listing_photos').delete().eq('id', photo.id);
+
+    if (error) throw error;
+
+    const remaining = await getListingPhotos(photo.listing_id);
+    await setPhotoOrder(
+      photo.listing_id,
+      remaining.map((remainingPhoto) => remainingPhoto.id)
+    );
+
+    if (photo.listing) {
+      await supabaseAdmin.from('notifications').insert({
+        user_id: photo.listing.owner_id,
+        type: 'system',
+        title: 'Photo removed',
+        message: `We removed a photo from ${photo.listing.title}.${input.notes ? ` ${input.notes}` : ''}`,
+        channels: ['push'],
+      });
+    }
+
+    return { success: true };
+  });
+
+/**
+ * Add uploaded photos after a listing's existing photos, up to the maximum
+ */
+export async function appendListingPhotos(listingId: string, photos: CheckedPhoto[]) {
+  if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+  const existing = await getListingPhotos(listingId);
+
+  if (existing.length + photos.length > MAX_LISTING_PHOTOS) {
+    throw new TRPCError({
+      code: 'PRECONDITION_FAILED',
+      message: `Listings can have up to ${MAX_LISTING_PHOTOS} photos (this one has ${existing.length})`,
+    });
+  }
+
+  const { error } = await supabaseAdmin.from('listing_photos').insert(
+    photos.map((photo, index) => ({
+      listing_id: listingId,
+      url: photo.secureUrl,
+      cloudinary_public_id: photo.publicId,
+      position: existing.length + index,
+      is_primary: existing.length + index === 0,
+      width: photo.width,
+      height: photo.height,
+      ...photoReviewColumns(photo),
+    }))
+  );
+
+  if (error) throw error;
+
+  return getListingPhotos(listingId);
+}
+
+/**
+ * Verify the user owns the listing
+ */
+export async function assertListingOwner(listingId: string, userId: string) {
+  if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+  const { data: listing } = await supabaseAdmin
+    .from('listings')
+    .select('owner_id, is_draft')
+    .eq('id', listingId)
+    .single();
+
+  if (!listing || listing.owner_id !== userId) {
+    throw new Error('Unauthorized');
+  }
+
+  return listing;
+}
+
+/**
+ * Get a listing's photos in position order
+ */
+export async function getListingPhotos(listingId: string) {
+  if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+  const { data: photos, error } = await supabaseAdmin
+    .from('listing_photos')
+    .select('id, url, position, is_primary, width, height')
+    .eq('listing_id', listingId)
+    .order('position', { ascending: true });
+
+  if (error) throw error;
+
+  return photos || [];
+}
+
+/**
+ * Helper: Check the photo belongs to the listing
+ */
+async function getPhotoForListing(listingId: string, photoId: string) {
+  if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+  const { data: photo } = await supabaseAdmin
+    .from('listing_photos')
+    .select('id')
+    .eq('id', photoId)
+    .eq('listing_id', listingId)
+    .maybeSingle();
+
+  if (!photo) throw new TRPCError({ code: 'NOT_FOUND', message: 'Photo not found' });
+
+  return photo;
+}
+
+/**
+ * Helper: Renumber photos in the given order, which must list every photo once
+ */
+async function setPhotoOrder(listingId: string, photoIds: string[]) {
+  if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+  const { error } = await supabaseAdmin.rpc('set_listing_photo_order', {
+    p_listing_id: listingId,
+    p_photo_ids: photoIds,
+  });
+
+  if (error?.code === INVALID_PARAMETER_VALUE) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'The new order must include every photo of the listing exactly once',
+    });
+  }
+
+  if (error) throw error;
+}
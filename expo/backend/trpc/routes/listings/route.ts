@@ -4,87 +4,36 @@
  */
 
 import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
 import { router, publicProcedure, protectedProcedure } from '../../create-context';
 import { supabaseAdmin } from '../../../../lib/supabase';
-import { cloudinaryService } from '../../../../services/cloudinary';
-import { searchListings } from './search';
-
-const createListingInput = z.object({
-  // Basic info
-  title: z.string().min(10).max(60),
-  description: z.string().min(50).max(500),
-  clubType: z.enum([
-    'driver',
-    'fairway_wood',
-    'hybrid',
-    'iron_set',
-    'wedge_set',
-    'putter',
-    'complete_set',
-  ]),
-
-  // Specifications
-  brand: z.string().min(2),
-  model: z.string().optional(),
-  year: z.number().min(1990).max(new Date().getFullYear() + 1).optional(),
-  handedness: z.enum(['right', 'left']),
-  flex: z.enum(['extra_stiff', 'stiff', 'regular', 'senior', 'ladies']),
-  condition: z.enum(['excellent', 'very_good', 'good', 'fair']),
-
-  // What's included
-  includesBag: z.boolean().default(false),
-  bagType: z.string().optional(),
-  includesBalls: z.boolean().default(false),
-  ballCount: z.number().min(0).optional(),
-  accessories: z.array(z.string()).optional(),
-  clubComposition: z
-    .object({
-      woods: z.number().optional(),
-      hybrids: z.number().optional(),
-      irons: z.number().optional(),
-      wedges: z.number().optional(),
-      putter: z.number().optional(),
-    })
-    .optional(),
-
-  // Pricing
-  dailyRate: z.number().min(20).max(500),
-  weeklyRate: z.number().optional(),
-  securityDeposit: z.number().min(50).max(300).default(100),
-
-  // Location
-  pickupLocationType: z.enum(['golf_course', 'residence', 'both', 'custom']),
-  golfCourseId: z.string().uuid().optional(),
-  address: z.string().optional(),
-  city: z.string().min(2),
-  province: z.string().min(2),
-  neighborhood: z.string().optional(),
-  latitude: z.number().min(-90).max(90).optional(),
-  longitude: z.number().min(-180).max(180).optional(),
-
-  // Delivery
-  deliveryAvailable: z.boolean().default(false),
-  deliveryFee: z.number().min(0).optional(),
-  maxDeliveryDistanceKm: z.number().min(5).max(100).optional(),
-
-  // Availability
-  minimumRentalDays: z.number().min(1).default(1),
-  maximumRentalDays: z.number().min(1).optional(),
-  advanceNoticeDays: z.number().min(0).default(1),
-  preparationTimeDays: z.number().min(0).default(0),
-
-  // Booking settings
-  instantBooking: z.boolean().default(false),
-  responseTimeCommitmentHours: z.number().min(1).max(72).default(24),
-  cancellationPolicy: z.enum(['flexible', 'moderate', 'strict']).default('moderate'),
-  specialInstructions: z.string().max(500).optional(),
-
-  // Photos (base64 encoded)
-  photos: z.array(z.string()).min(5).max(10),
-
-  // Status
-  isDraft: z.boolean().default(false),
-});
+import { listingFromRow } from '../../../../lib/domain';
+import { searchListings, searchListingsInBounds, suggestListings } from './search';
+import {
+  getCalendar,
+  blockDates,
+  unblockDates,
+  getCalendarFeed,
+  rotateCalendarFeed,
+  importCalendar,
+  getCalendarImports,
+  syncCalendar,
+  removeCalendarImport,
+} from './calendar';
+import { createListingInput, insertListing, insertListingPhotos } from './create';
+import { saveDraft, getDrafts, getDraft, deleteDraft, publishDraft } from './drafts';
+import { updateListing } from './update';
+import { getHistory } from './versions';
+import {
+  addPhotos,
+  replacePhoto,
+  removePhoto,
+  reorderPhotos,
+  setPrimaryPhoto,
+  listFlaggedPhotos,
+  reviewPhoto,
+} from './photos';
+import { listingPhotoFolder, uploadListingPhotos } from './photo-checks';
 
 export const listingsRouter = router({
   /**
@@ -92,6 +41,16 @@ export const listingsRouter = router({
    */
   search: searchListings,
 
+  /**
+   * Map search: listings, or clusters when zoomed out, inside a viewport
+   */
+  searchInBounds: searchListingsInBounds,
+
+  /**
+   * Search-as-you-type suggestions (brands, models, club types, cities, golf courses)
+   */
+  suggest: suggestListings,
+
   /**
    * Get listing by ID
    */
@@ -144,7 +103,7 @@ export const listingsRouter = router({
       .update({ view_count: (listing.view_count || 0) + 1 })
       .eq('id', listingId);
 
-    return listing;
+    return listingFromRow(listing);
   }),
 
   /**
@@ -157,128 +116,105 @@ export const listingsRouter = router({
       if (!ctx.user) throw new Error('Not authenticated');
 
       try {
-        // Create listing
-        const { data: listing, error: listingError } = await supabaseAdmin
-          .from('listings')
-          .insert({
-            owner_id: ctx.user.id,
-            title: input.title,
-            description: input.description,
-            club_type: input.clubType,
-            brand: input.brand,
-            model: input.model,
-            year: input.year,
-            handedness: input.handedness,
-            flex: input.flex,
-            condition: input.condition,
-            includes_bag: input.includesBag,
-            bag_type: input.bagType,
-            includes_balls: input.includesBalls,
-            ball_count: input.ballCount,
-            accessories: input.accessories,
-            club_composition: input.clubComposition,
-            daily_rate: input.dailyRate,
-            weekly_rate: input.weeklyRate,
-            security_deposit: input.securityDeposit,
-            pickup_location_type: input.pickupLocationType,
-            golf_course_id: input.golfCourseId,
-            address: input.address,
-            city: input.city,
-            province: input.province,
-            neighborhood: input.neighborhood,
-            delivery_available: input.deliveryAvailable,
-            delivery_fee: input.deliveryFee,
-            max_delivery_distance_km: input.maxDeliveryDistanceKm,
-            minimum_rental_days: input.minimumRentalDays,
-            maximum_rental_days: input.maximumRentalDays,
-            advance_notice_days: input.advanceNoticeDays,
-            preparation_time_days: input.preparationTimeDays,
-            instant_booking: input.instantBooking,
-            response_time_commitment_hours: input.responseTimeCommitmentHours,
-            cancellation_policy: input.cancellationPolicy,
-            special_instructions: input.specialInstructions,
-            is_draft: input.isDraft,
-          })
-          .select()
-          .single();
-
-        if (listingError) throw listingError;
-
-        // Upload photos to Cloudinary
-        const photoUploads = input.photos.map((photoData, index) =>
-          cloudinaryService.uploadListingPhoto(listing.id, photoData, index)
-        );
-
-        const uploadedPhotos = await Promise.all(photoUploads);
-
-        // Save photo records to database
-        const photoRecords = uploadedPhotos.map((photo, index) => ({
-          listing_id: listing.id,
-          url: photo.secureUrl,
-          cloudinary_public_id: photo.publicId,
-          position: index,
-          is_primary: index === 0,
-          width: photo.width,
-          height: photo.height,
-        }));
-
-        const { error: photosError } = await supabaseAdmin
-          .from('listing_photos')
-          .insert(photoRecords);
-
-        if (photosError) {
-          console.error('Error saving photos:', photosError);
+        const listing = await insertListing(ctx.user.id, input);
+
+        // Upload photos to Cloudinary through the image checks
+        let uploadedPhotos;
+        try {
+          uploadedPhotos = await uploadListingPhotos(input.photos, {
+            folder: listingPhotoFolder(listing.id),
+            ownerId: ctx.user.id,
+            listingId: listing.id,
+          });
+        } catch (uploadError) {
+          // A listing can't go live without its photos
+          await supabaseAdmin.from('listings').delete().eq('id', listing.id);
+          throw uploadError;
         }
 
+        const photoRecords = await insertListingPhotos(listing.id, uploadedPhotos);
+
         return {
           success: true,
-          listing: {
-            ...listing,
-            photos: photoRecords,
-          },
+          listing: listingFromRow({ ...listing, photos: photoRecords }),
         };
       } catch (error) {
+        // Rejected photos keep their reasons for the owner
+        if (error instanceof TRPCError) throw error;
         console.error('Error creating listing:', error);
         throw new Error('Failed to create listing');
       }
     }),
 
   /**
-   * Update listing
+   * Create a draft or autosave changes to one (partial validation)
    */
-  update: protectedProcedure
-    .input(
-      z.object({
-        listingId: z.string().uuid(),
-        updates: createListingInput.partial(),
-      })
-    )
-    .mutation(async ({ input, ctx }) => {
-      if (!supabaseAdmin) throw new Error('Supabase not configured');
-      if (!ctx.user) throw new Error('Not authenticated');
+  saveDraft,
 
-      // Verify ownership
-      const { data: listing } = await supabaseAdmin
-        .from('listings')
-        .select('owner_id')
-        .eq('id', input.listingId)
-        .single();
+  /**
+   * Get the user's drafts to resume on any device
+   */
+  getDrafts,
 
-      if (!listing || listing.owner_id !== ctx.user.id) {
-        throw new Error('Unauthorized');
-      }
+  /**
+   * Get one draft
+   */
+  getDraft,
 
-      const { data, error } = await supabaseAdmin
-        .from('listings')
-        .update(input.updates as any)
-        .eq('id', input.listingId)
-        .select()
-        .single();
+  /**
+   * Delete a draft and its photos
+   */
+  deleteDraft,
 
-      if (error) throw error;
+  /**
+   * Publish a draft (full validation, per-field errors when it isn't ready)
+   */
+  publish: publishDraft,
 
-      return { success: true, listing: data };
-    }),
+  /**
+   * Update a listing's fields (owner only); pricing is locked while bookings depend on it
+   */
+  update: updateListing,
+
+  /**
+   * Versions of a listing's details with what each one changed (owner only)
+   */
+  getHistory,
+
+  /**
+   * Upload photos and add them to the end of a listing (owner only)
+   */
+  addPhotos,
+
+  /**
+   * Swap a photo's image, keeping its position (owner only)
+   */
+  replacePhoto,
+
+  /**
+   * Remove a photo (owner only)
+   */
+  removePhoto,
+
+  /**
+   * Put a listing's photos in a new order, first photo primary (owner only)
+   */
+  reorderPhotos,
+
+  /**
+   * Move a photo to the front as the primary photo (owner only)
+   */
+  setPrimaryPhoto,
+
+  /**
+   * Admin: Photos flagged by the image checks, oldest first
+   */
+  listFlaggedPhotos,
+
+  /**
+   * Admin: Approve a flagged photo, or reject and remove it
+   */
+  reviewPhoto,
 
   /**
    * Delete listing
@@ -300,20 +236,8 @@ export const listingsRouter = router({
         throw new Error('Unauthorized');
       }
 
-      // Delete photos from Cloudinary
-      const { data: photos } = await supabaseAdmin
-        .from('listing_photos')
-        .select('cloudinary_public_id')
-        .eq('listing_id', listingId);
-
-      if (photos && photos.length > 0) {
-        const publicIds = photos
-          .map((p) => p.cloudinary_public_id)
-          .filter(Boolean) as string[];
-        await cloudinaryService.deleteImages(publicIds);
-      }
-
-      // Delete listing (cascade will delete photos)
+      // Delete listing. The cascade deletes its photos, which queues their
+      // Cloudinary assets for the delete-orphaned-media job.
       const { error } = await supabaseAdmin
         .from('listings')
         .delete()
@@ -349,9 +273,54 @@ export const listingsRouter = router({
 
     if (error) throw error;
 
-    return listings || [];
+    return (listings || []).map((listing) => listingFromRow(listing));
   }),
 
+  /**
+   * Get a month of day-level availability
+   */
+  getCalendar,
+
+  /**
+   * Block dates on a listing's calendar (owner only)
+   */
+  blockDates,
+
+  /**
+   * Unblock dates on a listing's calendar (owner only)
+   */
+  unblockDates,
+
+  /**
+   * Get the secret iCal feed URL (owner only)
+   */
+  getCalendarFeed,
+
+  /**
+   * Replace the iCal feed URL (owner only)
+   */
+  rotateCalendarFeed,
+
+  /**
+   * Import an external calendar as blocked dates (owner only)
+   */
+  importCalendar,
+
+  /**
+   * List external calendar imports (owner only)
+   */
+  getCalendarImports,
+
+  /**
+   * Re-sync an external calendar (owner only)
+   */
+  syncCalendar,
+
+  /**
+   * Remove an external calendar and its blocked dates (owner only)
+   */
+  removeCalendarImport,
+
   /**
    * Toggle favorite
    */
@@ -418,13 +387,18 @@ export const listingsRouter = router({
             last_name,
             avatar_url,
             overall_rating,
-            total_reviews
+            total_reviews,
+            verification_levels,
+            created_at
           ),
           photos:listing_photos (
             id,
             url,
             position,
             is_primary
+          ),
+          golf_course:golf_courses (
+            name
           )
         )
       `
@@ -434,7 +408,9 @@ export const listingsRouter = router({
 
     if (error) throw error;
 
-    return favorites?.map((f) => f.listing) || [];
+    return (favorites || [])
+      .filter((favorite) => favorite.listing)
+      .map((favorite) => listingFromRow(favorite.listing, true));
   }),
 });
 
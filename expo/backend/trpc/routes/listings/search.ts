@@ -6,6 +6,46 @@
 import { z } from 'zod';
 import { publicProcedure } from '../../create-context';
 import { supabaseAdmin } from '../../../../lib/supabase';
+import type { Database } from '../../../../types/database';
+import {
+  CLUB_TYPES,
+  CONDITIONS,
+  FLEXES,
+  HANDEDNESS,
+  clubTypeSchema,
+  conditionSchema,
+  flexSchema,
+  fromDbEnum,
+  handednessSchema,
+  listingFromRow,
+  toDbEnum,
+  type ClubType,
+  type Listing,
+  type ListingRow,
+} from '../../../../lib/domain';
+
+// Daily rate buckets counted by search_listing_facets
+const PRICE_BUCKETS = [
+  { value: '0-25', min: 0, max: 25 },
+  { value: '25-50', min: 25, max: 50 },
+  { value: '50-75', min: 50, max: 75 },
+  { value: '75-100', min: 75, max: 100 },
+  { value: '100+', min: 100, max: null },
+] as const;
+
+// Below this zoom the map gets clusters instead of individual pins
+const CLUSTER_MAX_ZOOM = 13;
+const MAX_MAP_LISTINGS = 300;
+
+const CLUB_TYPE_LABELS: Record<ClubType, string> = {
+  driver: 'Drivers',
+  'fairway-wood': 'Fairway Woods',
+  hybrid: 'Hybrids',
+  'iron-set': 'Iron Sets',
+  'wedge-set': 'Wedge Sets',
+  putter: 'Putters',
+  'complete-set': 'Complete Sets',
+};
 
 export const searchListingsInput = z.object({
   // Location
@@ -14,27 +54,20 @@ export const searchListingsInput = z.object({
   radiusKm: z.number().min(5).max(500).default(50),
 
   // Filters
-  clubTypes: z
-    .array(
-      z.enum([
-        'driver',
-        'fairway_wood',
-        'hybrid',
-        'iron_set',
-        'wedge_set',
-        'putter',
-        'complete_set',
-      ])
-    )
-    .optional(),
+  clubTypes: z.array(clubTypeSchema).optional(),
   priceMin: z.number().min(0).optional(),
   priceMax: z.number().max(1000).optional(),
-  handedness: z.enum(['right', 'left']).optional(),
-  flex: z
-    .array(z.enum(['extra_stiff', 'stiff', 'regular', 'senior', 'ladies']))
-    .optional(),
+  handedness: handednessSchema.optional(),
+  flex: z.array(flexSchema).optional(),
+  conditions: z.array(conditionSchema).optional(),
   instantBooking: z.boolean().optional(),
   deliveryAvailable: z.boolean().optional(),
+  brands: z.array(z.string()).optional(),
+  models: z.array(z.string()).optional(),
+  city: z.string().optional(),
+  province: z.string().optional(),
+  // Center the radius on this course instead of the user; its listings rank first
+  golfCourseId: z.string().uuid().optional(),
 
   // Availability
   startDate: z.string().optional(),
@@ -46,13 +79,36 @@ export const searchListingsInput = z.object({
   // Pagination
   limit: z.number().min(1).max(100).default(20),
   offset: z.number().min(0).default(0),
+  // Offset of the next page, set by useInfiniteQuery; takes precedence over offset
+  cursor: z.number().min(0).nullish(),
 
   // Sort
   sortBy: z
-    .enum(['distance', 'price_asc', 'price_desc', 'rating', 'newest', 'popular'])
+    .enum(['relevance', 'distance', 'price_asc', 'price_desc', 'rating', 'newest', 'popular'])
     .default('distance'),
+
+  // Also return match counts per filter value for the filter sheet
+  includeFacets: z.boolean().default(false),
 });
 
+type SearchInput = z.input<typeof searchListingsInput>;
+
+export interface FacetCount<T extends string = string> {
+  value: T;
+  count: number;
+}
+
+export interface SearchFacets {
+  clubType: FacetCount<(typeof CLUB_TYPES)[number]>[];
+  flex: FacetCount<(typeof FLEXES)[number]>[];
+  handedness: FacetCount<(typeof HANDEDNESS)[number]>[];
+  condition: FacetCount<(typeof CONDITIONS)[number]>[];
+  brand: FacetCount[];
+  price: (FacetCount & { min: number; max: number | null })[];
+  instantBooking: number;
+  deliveryAvailable: number;
+}
+
 export const searchListings = publicProcedure
   .input(searchListingsInput)
   .query(async ({ input }) => {
@@ -61,179 +117,376 @@ export const searchListings = publicProcedure
     }
 
     try {
-      // Build the query
-      let query = supabaseAdmin
-        .from('listings')
-        .select(
-          `
-          *,
-          owner:profiles!owner_id (
-            id,
-            first_name,
-            last_name,
-            avatar_url,
-            overall_rating,
-            total_reviews,
-            verification_levels,
-            response_rate
-          ),
-          photos:listing_photos (
-            id,
-            url,
-            position,
-            is_primary
-          )
-        `
-        )
-        .eq('is_active', true)
-        .eq('is_draft', false);
-
-      // Apply filters
-      if (input.clubTypes && input.clubTypes.length > 0) {
-        query = query.in('club_type', input.clubTypes);
-      }
+      const hasUserLocation = input.userLat !== undefined && input.userLng !== undefined;
+      const hasLocation = hasUserLocation || input.golfCourseId !== undefined;
+      const searchQuery = input.searchQuery?.trim() || null;
+      const offset = input.cursor ?? input.offset;
 
-      if (input.priceMin !== undefined) {
-        query = query.gte('daily_rate', input.priceMin);
-      }
+      // Nothing to rank without a query or a location
+      let sortBy = input.sortBy;
+      if (sortBy === 'relevance' && !searchQuery) sortBy = 'distance';
+      if (sortBy === 'distance' && !hasLocation) sortBy = 'newest';
 
-      if (input.priceMax !== undefined) {
-        query = query.lte('daily_rate', input.priceMax);
-      }
+      const filters = {
+        p_user_lat: hasUserLocation ? input.userLat : null,
+        p_user_lng: hasUserLocation ? input.userLng : null,
+        p_radius_km: input.radiusKm,
+        ...toFilterParams(input),
+      };
 
-      if (input.handedness) {
-        query = query.eq('handedness', input.handedness);
-      }
+      // Filtering, radius, availability, sorting and pagination all happen in PostGIS
+      const [{ data: matches, error: searchError }, facets] = await Promise.all([
+        supabaseAdmin.rpc('search_listings', {
+          ...filters,
+          p_sort_by: sortBy,
+          p_limit: input.limit,
+          p_offset: offset,
+        }),
+        input.includeFacets ? getFacets(filters) : Promise.resolve(undefined),
+      ]);
 
-      if (input.flex && input.flex.length > 0) {
-        query = query.in('flex', input.flex);
-      }
+      if (searchError) throw searchError;
 
-      if (input.instantBooking !== undefined) {
-        query = query.eq('instant_booking', input.instantBooking);
-      }
+      const total = matches?.[0]?.total_count ?? 0;
 
-      if (input.deliveryAvailable !== undefined) {
-        query = query.eq('delivery_available', input.deliveryAvailable);
+      if (!matches || matches.length === 0) {
+        return { listings: [], total, hasMore: false, nextCursor: null, facets };
       }
 
-      // Search query (title, description, brand)
-      if (input.searchQuery) {
-        query = query.or(
-          `title.ilike.%${input.searchQuery}%,description.ilike.%${input.searchQuery}%,brand.ilike.%${input.searchQuery}%`
+      const listingsById = await loadListings(matches.map((m) => m.listing_id));
+
+      // Keep the order search_listings returned
+      const orderedListings = matches
+        .filter((match) => listingsById.has(match.listing_id))
+        .map((match) =>
+          listingFromRow({
+            ...listingsById.get(match.listing_id)!,
+            distance_km:
+              match.distance_km !== null ? Math.round(match.distance_km * 10) / 10 : null,
+            latitude: match.latitude,
+            longitude: match.longitude,
+          })
         );
-      }
 
-      // Apply sorting
-      switch (input.sortBy) {
-        case 'price_asc':
-          query = query.order('daily_rate', { ascending: true });
-          break;
-        case 'price_desc':
-          query = query.order('daily_rate', { ascending: false });
-          break;
-        case 'rating':
-          query = query.order('average_rating', { ascending: false });
-          break;
-        case 'newest':
-          query = query.order('created_at', { ascending: false });
-          break;
-        case 'popular':
-          query = query.order('booking_count', { ascending: false });
-          break;
-        default:
-          // Distance sorting handled below
-          break;
-      }
+      const hasMore = offset + matches.length < total;
 
-      // Apply pagination
-      query = query.range(input.offset, input.offset + input.limit - 1);
+      return {
+        listings: orderedListings,
+        total,
+        hasMore,
+        nextCursor: hasMore ? offset + matches.length : null,
+        facets,
+      };
+    } catch (error) {
+      console.error('Error searching listings:', error);
+      throw new Error('Failed to search listings');
+    }
+  });
 
-      const { data: listings, error } = await query;
+const latLngInput = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+});
 
-      if (error) throw error;
+export const searchListingsInBoundsInput = searchListingsInput
+  .omit({
+    userLat: true,
+    userLng: true,
+    radiusKm: true,
+    limit: true,
+    offset: true,
+    cursor: true,
+    sortBy: true,
+    includeFacets: true,
+  })
+  .extend({
+    ne: latLngInput,
+    sw: latLngInput,
+    zoom: z.number().min(0).max(22),
+  })
+  .refine((input) => input.sw.lat <= input.ne.lat, {
+    message: 'sw must be south of ne',
+    path: ['sw'],
+  });
 
-      // Calculate distances if location provided
-      let listingsWithDistance = listings || [];
-      if (input.userLat && input.userLng) {
-        listingsWithDistance = listings
-          ?.map((listing) => {
-            // Extract lat/lng from PostGIS geography
-            // This is a simplified version - in production, use proper PostGIS queries
-            const distance = calculateDistance(
-              input.userLat!,
-              input.userLng!,
-              43.651070, // Placeholder - should extract from listing.location
-              -79.347015
-            );
-
-            return {
-              ...listing,
-              distance_km: Math.round(distance * 10) / 10,
-            };
-          })
-          .filter((listing) => listing.distance_km <= input.radiusKm)
-          .sort((a, b) => {
-            if (input.sortBy === 'distance') {
-              return a.distance_km - b.distance_km;
-            }
-            return 0;
-          }) || [];
-      }
+type InBoundsRow = Database['public']['Functions']['search_listings_in_bounds']['Returns'][number];
 
-      // Filter by availability
-      if (input.startDate && input.endDate) {
-        const availableListings = [];
-        for (const listing of listingsWithDistance) {
-          const { data: conflictingBookings } = await supabaseAdmin
-            .from('bookings')
-            .select('id')
-            .eq('listing_id', listing.id)
-            .in('status', ['confirmed', 'in_progress'])
-            .or(
-              `and(start_date.lte.${input.endDate},end_date.gte.${input.startDate})`
-            );
-
-          if (!conflictingBookings || conflictingBookings.length === 0) {
-            availableListings.push(listing);
-          }
-        }
-        listingsWithDistance = availableListings;
-      }
+export interface MapCluster {
+  id: string;
+  latitude: number;
+  longitude: number;
+  count: number;
+  minDailyRate: number;
+}
+
+export interface ListingsInBounds {
+  clusters: MapCluster[];
+  listings: Listing[];
+  total: number;
+  truncated: boolean;
+}
+
+export const searchListingsInBounds = publicProcedure
+  .input(searchListingsInBoundsInput)
+  .query(async ({ input }): Promise<ListingsInBounds> => {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    try {
+      // sw.lng > ne.lng means the viewport crosses the antimeridian; the database splits it
+      const { data: rows, error } = await supabaseAdmin.rpc('search_listings_in_bounds', {
+        p_sw_lat: input.sw.lat,
+        p_sw_lng: input.sw.lng,
+        p_ne_lat: input.ne.lat,
+        p_ne_lng: input.ne.lng,
+        p_zoom: Math.floor(input.zoom),
+        ...toFilterParams(input),
+        p_cluster_max_zoom: CLUSTER_MAX_ZOOM,
+        p_max_listings: MAX_MAP_LISTINGS,
+      });
+
+      if (error) throw error;
+
+      const total = rows?.[0]?.total_count ?? 0;
+      const pins = (rows || []).filter((row: InBoundsRow) => row.listing_id !== null);
+      const listingsById = await loadListings(pins.map((row: InBoundsRow) => row.listing_id!));
 
       return {
-        listings: listingsWithDistance,
-        total: listingsWithDistance.length,
-        hasMore: listingsWithDistance.length === input.limit,
+        clusters: (rows || [])
+          .filter((row: InBoundsRow) => row.listing_id === null)
+          .map((row: InBoundsRow) => ({
+            id: `${row.latitude.toFixed(5)},${row.longitude.toFixed(5)}`,
+            latitude: row.latitude,
+            longitude: row.longitude,
+            count: Number(row.listing_count),
+            minDailyRate: Number(row.min_daily_rate),
+          })),
+        listings: pins
+          .filter((row: InBoundsRow) => listingsById.has(row.listing_id!))
+          .map((row: InBoundsRow) =>
+            listingFromRow({
+              ...listingsById.get(row.listing_id!)!,
+              latitude: row.latitude,
+              longitude: row.longitude,
+            })
+          ),
+        total,
+        // More matches than pins; the app should ask the user to zoom in
+        truncated: input.zoom >= CLUSTER_MAX_ZOOM && total > pins.length,
       };
     } catch (error) {
-      console.error('Error searching listings:', error);
+      console.error('Error searching listings in bounds:', error);
       throw new Error('Failed to search listings');
     }
   });
 
-// Helper function to calculate distance between two coordinates
-function calculateDistance(
-  lat1: number,
-  lng1: number,
-  lat2: number,
-  lng2: number
-): number {
-  const R = 6371; // Earth's radius in km
-  const dLat = toRad(lat2 - lat1);
-  const dLng = toRad(lng2 - lng1);
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(toRad(lat1)) *
-      Math.cos(toRad(lat2)) *
-      Math.sin(dLng / 2) *
-      Math.sin(dLng / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
+// The structured filters of a search, without location, query, paging or sort
+export type SearchFilter = Pick<
+  z.input<typeof searchListingsInput>,
+  | 'clubTypes'
+  | 'priceMin'
+  | 'priceMax'
+  | 'handedness'
+  | 'flex'
+  | 'conditions'
+  | 'instantBooking'
+  | 'deliveryAvailable'
+  | 'brands'
+  | 'models'
+  | 'city'
+  | 'province'
+  | 'golfCourseId'
+>;
+
+export interface SearchSuggestion {
+  label: string;
+  detail: string | null;
+  count: number;
+  // Merge into the search input when the suggestion is tapped
+  filter: SearchFilter;
+}
+
+export const suggestListings = publicProcedure
+  .input(z.string().max(100))
+  .query(async ({ input: prefix }) => {
+    if (!supabaseAdmin) {
+      throw new Error('Supabase admin client not configured');
+    }
+
+    const suggestions = {
+      brands: [] as SearchSuggestion[],
+      models: [] as SearchSuggestion[],
+      clubTypes: [] as SearchSuggestion[],
+      cities: [] as SearchSuggestion[],
+      golfCourses: [] as SearchSuggestion[],
+    };
+
+    if (!prefix.trim()) return suggestions;
+
+    const { data, error } = await supabaseAdmin.rpc('suggest_listings', {
+      p_prefix: prefix,
+      p_limit: 5,
+    });
+
+    if (error) {
+      console.error('Error suggesting listings:', error);
+      throw new Error('Failed to load suggestions');
+    }
+
+    for (const row of data || []) {
+      const count = Number(row.listing_count);
+
+      switch (row.kind) {
+        case 'brand':
+          suggestions.brands.push({
+            label: row.label,
+            detail: null,
+            count,
+            filter: { brands: [row.value] },
+          });
+          break;
+        case 'model':
+          suggestions.models.push({
+            label: row.label,
+            detail: row.detail,
+            count,
+            filter: { brands: [row.detail!], models: [row.value] },
+          });
+          break;
+        case 'club_type': {
+          const clubType = fromDbEnum(row.value) as ClubType;
+          suggestions.clubTypes.push({
+            label: CLUB_TYPE_LABELS[clubType] ?? row.label,
+            detail: null,
+            count,
+            filter: { clubTypes: [clubType] },
+          });
+          break;
+        }
+        case 'city':
+          suggestions.cities.push({
+            label: row.label,
+            detail: null,
+            count,
+            filter: { city: row.value, province: row.detail ?? undefined },
+          });
+          break;
+        case 'golf_course':
+          suggestions.golfCourses.push({
+            label: row.label,
+            detail: row.detail,
+            count,
+            filter: { golfCourseId: row.value },
+          });
+          break;
+      }
+    }
+
+    return suggestions;
+  });
+
+/**
+ * Helper: Map search filters to the parameters shared by the search functions
+ */
+function toFilterParams(
+  input: SearchFilter & Pick<SearchInput, 'startDate' | 'endDate' | 'searchQuery'>
+) {
+  return {
+    p_club_types: input.clubTypes?.length ? input.clubTypes.map(toDbEnum) : null,
+    p_price_min: input.priceMin ?? null,
+    p_price_max: input.priceMax ?? null,
+    p_handedness: input.handedness ?? null,
+    p_flex: input.flex?.length ? input.flex.map(toDbEnum) : null,
+    p_conditions: input.conditions?.length ? input.conditions.map(toDbEnum) : null,
+    p_instant_booking: input.instantBooking ?? null,
+    p_delivery_available: input.deliveryAvailable ?? null,
+    p_brands: input.brands?.length ? input.brands : null,
+    p_models: input.models?.length ? input.models : null,
+    p_city: input.city ?? null,
+    p_province: input.province ?? null,
+    p_golf_course_id: input.golfCourseId ?? null,
+    p_start_date: input.startDate ?? null,
+    p_end_date: input.endDate ?? null,
+    // Full-text match with brand aliases and typo tolerance
+    p_search_query: input.searchQuery?.trim() || null,
+  };
+}
+
+/**
+ * Helper: Load listings with their owner and photos, keyed by ID
+ */
+async function loadListings(listingIds: string[]): Promise<Map<string, ListingRow>> {
+  if (listingIds.length === 0) return new Map();
+
+  const { data: listings, error } = await supabaseAdmin!
+    .from('listings')
+    .select(
+      `
+      *,
+      owner:profiles!owner_id (
+        id,
+        first_name,
+        last_name,
+        avatar_url,
+        overall_rating,
+        total_reviews,
+        verification_levels,
+        response_rate
+      ),
+      photos:listing_photos (
+        id,
+        url,
+        position,
+        is_primary
+      )
+    `
+    )
+    .in('id', listingIds);
+
+  if (error) throw error;
+
+  return new Map((listings || []).map((listing: ListingRow) => [listing.id, listing]));
 }
 
-function toRad(degrees: number): number {
-  return degrees * (Math.PI / 180);
+/**
+ * Helper: Count matches per filter value. Every known option is listed, with zero
+ * counts for options that have no matches, so the filter sheet can disable them.
+ */
+async function getFacets(
+  filters: Omit<Database['public']['Functions']['search_listing_facets']['Args'], 'p_brand_limit'>
+): Promise<SearchFacets> {
+  const { data, error } = await supabaseAdmin!.rpc('search_listing_facets', filters);
+  if (error) throw error;
+
+  const counts = new Map<string, number>();
+  const brand: FacetCount[] = [];
+
+  for (const row of data || []) {
+    if (row.facet === 'brand') {
+      brand.push({ value: row.value, count: Number(row.listing_count) });
+    } else {
+      // Enum facets come back in their database spelling
+      counts.set(`${row.facet}:${fromDbEnum(row.value)}`, Number(row.listing_count));
+    }
+  }
+
+  const countsFor = <T extends string>(facet: string, values: readonly T[]) =>
+    values.map((value) => ({ value, count: counts.get(`${facet}:${value}`) ?? 0 }));
+
+  return {
+    clubType: countsFor('club_type', CLUB_TYPES),
+    flex: countsFor('flex', FLEXES),
+    handedness: countsFor('handedness', HANDEDNESS),
+    condition: countsFor('condition', CONDITIONS),
+    brand,
+    price: PRICE_BUCKETS.map((bucket) => ({
+      ...bucket,
+      count: counts.get(`price:${bucket.value}`) ?? 0,
+    })),
+    instantBooking: counts.get('instant_booking:true') ?? 0,
+    deliveryAvailable: counts.get('delivery_available:true') ?? 0,
+  };
 }
 
 export default searchListings;
@@ -0,0 +1,162 @@
+/**
+ * Listing Updates
+ * Owner edits to a listing, limited to the fields an owner may change. Pricing
+ * terms stay fixed while a booking made on them is confirmed or under way.
+ */
+
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { protectedProcedure } from '../../create-context';
+import { supabaseAdmin } from '../../../../lib/supabase';
+import { listingFromRow, toDbEnum } from '../../../../lib/domain';
+import type { Database } from '../../../../types/database';
+import { listingDraftFields } from './create';
+
+type ListingsUpdate = Database['public']['Tables']['listings']['Update'];
+
+// Photos are managed with addPhotos, replacePhoto, removePhoto and reorderPhotos.
+// Unknown keys are rejected rather than dropped, so typos don't look like saves.
+const editableListingFields = listingDraftFields
+  .extend({ isDraft: z.boolean().optional() })
+  .strict()
+  .refine((fields) => (fields.latitude === undefined) === (fields.longitude === undefined), {
+    message: 'Send latitude and longitude together',
+    path: ['latitude'],
+  });
+
+type EditableListingFields = z.infer<typeof editableListingFields>;
+
+// The listings column each editable field is written to. Coordinates are
+// written together as the location point.
+export const LISTING_COLUMNS = {
+  title: 'title',
+  description: 'description',
+  clubType: 'club_type',
+  brand: 'brand',
+  model: 'model',
+  year: 'year',
+  handedness: 'handedness',
+  flex: 'flex',
+  condition: 'condition',
+  includesBag: 'includes_bag',
+  bagType: 'bag_type',
+  includesBalls: 'includes_balls',
+  ballCount: 'ball_count',
+  accessories: 'accessories',
+  clubComposition: 'club_composition',
+  dailyRate: 'daily_rate',
+  weeklyRate: 'weekly_rate',
+  securityDeposit: 'security_deposit',
+  pickupLocationType: 'pickup_location_type',
+  golfCourseId: 'golf_course_id',
+  address: 'address',
+  city: 'city',
+  province: 'province',
+  neighborhood: 'neighborhood',
+  deliveryAvailable: 'delivery_available',
+  deliveryFee: 'delivery_fee',
+  maxDeliveryDistanceKm: 'max_delivery_distance_km',
+  minimumRentalDays: 'minimum_rental_days',
+  maximumRentalDays: 'maximum_rental_days',
+  advanceNoticeDays: 'advance_notice_days',
+  preparationTimeDays: 'preparation_time_days',
+  instantBooking: 'instant_booking',
+  responseTimeCommitmentHours: 'response_time_commitment_hours',
+  cancellationPolicy: 'cancellation_policy',
+  specialInstructions: 'special_instructions',
+  isDraft: 'is_draft',
+} as const satisfies Record<
+  Exclude<keyof EditableListingFields, 'latitude' | 'longitude'>,
+  keyof ListingsUpdate
+>;
+
+export type ListingColumnField = keyof typeof LISTING_COLUMNS;
+
+// Domain enum spellings ('iron-set') that are stored with underscores
+export const DB_ENUM_FIELDS: ListingColumnField[] = ['clubType', 'flex', 'condition'];
+
+// What a renter is charged and refunded. update_listing refuses to change these
+// while a booking made on them is confirmed or in progress.
+const BOOKING_LOCKED_COLUMN_LABELS: Record<string, string> = {
+  daily_rate: 'daily rate',
+  weekly_rate: 'weekly rate',
+  security_deposit: 'security deposit',
+  delivery_fee: 'delivery fee',
+  cancellation_policy: 'cancellation policy',
+};
+
+/**
+ * Update a listing's fields (owner only). The database checks the pricing lock
+ * and applies the update under the listing's row lock; pricing changes are
+ * recorded in listing_price_history.
+ */
+export const updateListing = protectedProcedure
+  .input(
+    z.object({
+      listingId: z.string().uuid(),
+      updates: editableListingFields,
+    })
+  )
+  .mutation(async ({ input, ctx }) => {
+    if (!supabaseAdmin) throw new Error('Supabase not configured');
+    if (!ctx.user) throw new Error('Not authenticated');
+
+    const { data, error } = await supabaseAdmin.rpc('update_listing', {
+      p_listing_id: input.listingId,
+      p_owner_id: ctx.user.id,
+      p_updates: toListingColumns(input.updates),
+    });
+
+    if (error) throw updateError(error);
+
+    return { success: true, listing: listingFromRow(data) };
+  });
+
+/**
+ * Helper: Map editable fields to listings columns, skipping fields left out
+ */
+function toListingColumns(fields: EditableListingFields): ListingsUpdate {
+  const row: Record<string, unknown> = {};
+
+  for (const [field, column] of Object.entries(LISTING_COLUMNS) as [
+    ListingColumnField,
+    keyof ListingsUpdate,
+  ][]) {
+    const value = fields[field];
+    if (value === undefined) continue;
+
+    row[column] = DB_ENUM_FIELDS.includes(field) ? toDbEnum(value as string) : value;
+  }
+
+  if (fields.latitude !== undefined && fields.longitude !== undefined) {
+    row.location = `SRID=4326;POINT(${fields.longitude} ${fields.latitude})`;
+  }
+
+  return row as ListingsUpdate;
+}
+
+/**
+ * Helper: Turn an update_listing failure into a client-facing error
+ */
+function updateError(error: { code?: string; message: string; details?: string; hint?: string }) {
+  switch (error.code) {
+    case '55006': {
+      // object_in_use: bookings depend on the pricing terms being changed
+      const count = Number(error.details);
+      const fields = (error.hint ?? '')
+        .split(',')
+        .map((column) => BOOKING_LOCKED_COLUMN_LABELS[column] ?? column)
+        .join(', ');
+      return new TRPCError({
+        code: 'PRECONDITION_FAILED',
+        message: `The ${fields} can't change while ${count} confirmed or in-progress booking${
+          count === 1 ? ' depends' : 's depend'
+        } on ${count === 1 ? 'it' : 'them'}. Try again once they're completed or cancelled.`,
+      });
+    }
+    case 'P0002': // no_data_found: missing, or not this owner's
+      return new TRPCError({ code: 'NOT_FOUND', message: 'Listing not found' });
+    default:
+      return error;
+  }
+}
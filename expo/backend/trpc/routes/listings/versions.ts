@@ -0,0 +1,124 @@
+/**
+ * Listing Versions
+ * Snapshots of a listing's details, one per change, written by the database.
+ * Bookings keep the version they were made against, so disputes can be settled
+ * against what the listing said at the time.
+ */
+
+import { z } from 'zod';
+import { protectedProcedure } from '../../create-context';
+import { supabaseAdmin } from '../../../../lib/supabase';
+import { fromDbEnum } from '../../../../lib/domain';
+import type { Database } from '../../../../types/database';
+import type { ListingDraftFields } from './create';
+import { assertListingOwner } from './photos';
+import { DB_ENUM_FIELDS, LISTING_COLUMNS, type ListingColumnField } from './update';
+
+type ListingVersionRow = Pick<
+  Database['public']['Tables']['listing_versions']['Row'],
+  'id' | 'version' | 'snapshot' | 'created_at'
+>;
+
+export interface ListingVersion {
+  id: string;
+  version: number;
+  createdAt: string;
+  // The listing's details as they were, with the same names as listings.create
+  fields: ListingDraftFields;
+}
+
+export interface ListingFieldChange {
+  field: keyof ListingDraftFields;
+  from: unknown;
+  to: unknown;
+}
+
+/**
+ * A listing's versions, newest first, each with the fields it changed (owner only).
+ * The first version is the listing as created and has no changes.
+ */
+export const getHistory = protectedProcedure
+  .input(
+    z.object({
+      listingId: z.string().uuid(),
+      limit: z.number().min(1).max(50).default(20),
+      offset: z.number().min(0).default(0),
+    })
+  )
+  .query(async ({ input, ctx }) => {
+    if (!supabaseAdmin) throw new Error('Supabase not configured');
+    if (!ctx.user) throw new Error('Not authenticated');
+
+    await assertListingOwner(input.listingId, ctx.user.id);
+
+    // One extra row, so the oldest version on the page can be compared with the one before it
+    const { data: rows, count, error } = await supabaseAdmin
+      .from('listing_versions')
+      .select('id, version, snapshot, created_at', { count: 'exact' })
+      .eq('listing_id', input.listingId)
+      .order('version', { ascending: false })
+      .range(input.offset, input.offset + input.limit);
+
+    if (error) throw error;
+
+    const versions = (rows || []).map(listingVersionFromRow);
+
+    return {
+      items: versions.slice(0, input.limit).map((version, index) => {
+        const previous = versions[index + 1];
+        return {
+          ...version,
+          changes: previous ? fieldChanges(previous.fields, version.fields) : [],
+        };
+      }),
+      total: count || 0,
+      hasMore: (count || 0) > input.offset + input.limit,
+    };
+  });
+
+/**
+ * Map a listing_versions row to a ListingVersion
+ */
+export function listingVersionFromRow(row: ListingVersionRow): ListingVersion {
+  return {
+    id: row.id,
+    version: row.version,
+    createdAt: row.created_at,
+    fields: snapshotFields(row.snapshot),
+  };
+}
+
+/**
+ * Helper: Read a snapshot's columns back into listing field names and spellings
+ */
+function snapshotFields(snapshot: ListingVersionRow['snapshot']): ListingDraftFields {
+  const columns = (snapshot ?? {}) as Record<string, unknown>;
+  const fields: Record<string, unknown> = {};
+
+  for (const [field, column] of Object.entries(LISTING_COLUMNS) as [ListingColumnField, string][]) {
+    const value = columns[column];
+    if (value === undefined || value === null) continue;
+
+    fields[field] = DB_ENUM_FIELDS.includes(field) ? fromDbEnum(value as string) : value;
+  }
+
+  if (columns.latitude != null && columns.longitude != null) {
+    fields.latitude = columns.latitude;
+    fields.longitude = columns.longitude;
+  }
+
+  return fields as ListingDraftFields;
+}
+
+/**
+ * Helper: Fields whose values differ between two versions
+ */
+function fieldChanges(before: ListingDraftFields, after: ListingDraftFields): ListingFieldChange[] {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]) as Set<
+    keyof ListingDraftFields
+  >;
+
+  return [...fields]
+    .filter((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map((field) => ({ field, from: before[field] ?? null, to: after[field] ?? null }));
+}
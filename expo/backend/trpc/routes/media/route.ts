@@ -0,0 +1,265 @@
+/**
+ * Media tRPC Router
+ * Signed direct-to-Cloudinary uploads. The app uploads straight to Cloudinary
+ * with a signature from getUploadSignature, then confirmUpload checks the asset
+ * and links it to a listing, the user's avatar or a message.
+ */
+
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { router, protectedProcedure } from '../../create-context';
+import { supabaseAdmin } from '../../../../lib/supabase';
+import { cloudinaryService } from '../../../../services/cloudinary';
+import { appendListingPhotos, assertListingOwner } from '../listings/photos';
+import { listingPhotoFolder, uploadListingPhotos } from '../listings/photo-checks';
+
+const uploadPurposeSchema = z.enum(['listing', 'avatar', 'message']);
+
+type UploadPurpose = z.infer<typeof uploadPurposeSchema>;
+
+const ALLOWED_FORMATS = ['jpg', 'png', 'webp', 'heic'];
+
+// Smallest images worth showing, in either orientation, and the largest file
+// accepted, per purpose
+const UPLOAD_LIMITS: Record<
+  UploadPurpose,
+  { minLongSide: number; minShortSide: number; maxBytes: number }
+> = {
+  listing: { minLongSide: 800, minShortSide: 600, maxBytes: 10 * 1024 * 1024 },
+  avatar: { minLongSide: 200, minShortSide: 200, maxBytes: 5 * 1024 * 1024 },
+  message: { minLongSide: 100, minShortSide: 100, maxBytes: 10 * 1024 * 1024 },
+};
+
+const uploadTargetSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('listing'), listingId: z.string().uuid() }),
+  z.object({ type: z.literal('avatar') }),
+  z.object({ type: z.literal('message'), messageId: z.string().uuid() }),
+]);
+
+export const mediaRouter = router({
+  /**
+   * Get a signature for uploading one image straight to Cloudinary. Uploads land
+   * in a folder of the user's own and stay unused until confirmed.
+   */
+  getUploadSignature: protectedProcedure
+    .input(z.object({ purpose: uploadPurposeSchema }))
+    .mutation(async ({ input, ctx }) => {
+      if (!ctx.user) throw new Error('Not authenticated');
+
+      const limits = UPLOAD_LIMITS[input.purpose];
+
+      return {
+        ...cloudinaryService.generateUploadSignature(uploadFolder(ctx.user.id, input.purpose)),
+        allowedFormats: ALLOWED_FORMATS,
+        maxBytes: limits.maxBytes,
+      };
+    }),
+
+  /**
+   * Check an uploaded image and link it to a listing, the user's avatar or a
+   * message. Images that fail the checks are deleted from Cloudinary.
+   */
+  confirmUpload: protectedProcedure
+    .input(
+      z.object({
+        publicId: z.string().min(1).max(255),
+        target: uploadTargetSchema,
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      if (!supabaseAdmin) throw new Error('Supabase not configured');
+      if (!ctx.user) throw new Error('Not authenticated');
+
+      const folder = uploadFolder(ctx.user.id, input.target.type);
+
+      // Only the user's own uploads for this purpose can be linked
+      if (!input.publicId.startsWith(`${folder}/`)) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: 'This upload belongs to someone else' });
+      }
+
+      const image = await cloudinaryService.getImage(input.publicId);
+
+      if (!image) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Upload not found. Try uploading again.' });
+      }
+
+      const problem = uploadProblem(image, folder, UPLOAD_LIMITS[input.target.type]);
+      if (problem) {
+        await cloudinaryService.deleteImage(image.publicId);
+        throw new TRPCError({ code: 'BAD_REQUEST', message: problem });
+      }
+
+      // Set once this call links the upload; from then on it's never deleted here
+      let linked = false;
+
+      try {
+        switch (input.target.type) {
+          case 'listing': {
+            const { listingId } = input.target;
+            await assertListingOwner(listingId, ctx.user.id);
+
+            // Listing photos are copied through the image checks, which also strip
+            // EXIF data, and the direct upload is then removed
+            const [photo] = await uploadListingPhotos([image.secureUrl], {
+              folder: listingPhotoFolder(listingId),
+              ownerId: ctx.user.id,
+              listingId,
+            });
+
+            let photos;
+            try {
+              photos = await appendListingPhotos(listingId, [photo]);
+            } catch (error) {
+              await cloudinaryService.deleteImage(photo.publicId);
+              throw error;
+            }
+            linked = true;
+
+            // The photo is linked now, so the direct upload goes through the
+            // delete-orphaned-media queue rather than failing the request
+            await supabaseAdmin
+              .from('media_deletions')
+              .upsert({ public_id: image.publicId }, { ignoreDuplicates: true });
+
+            return { success: true, url: photo.secureUrl, photos };
+          }
+
+          case 'avatar': {
+            const { data: profile } = await supabaseAdmin
+              .from('profiles')
+              .select('avatar_url')
+              .eq('id', ctx.user.id)
+              .single();
+
+            const { error } = await supabaseAdmin
+              .from('profiles')
+              .update({ avatar_url: image.secureUrl })
+              .eq('id', ctx.user.id);
+
+            if (error) throw error;
+            linked = true;
+
+            // A replaced avatar uploaded here goes through the delete-orphaned-media queue
+            const previousPublicId =
+              profile?.avatar_url && profile.avatar_url !== image.secureUrl
+                ? uploadPublicId(profile.avatar_url, folder)
+                : null;
+
+            if (previousPublicId && previousPublicId !== image.publicId) {
+              await supabaseAdmin
+                .from('media_deletions')
+                .upsert({ public_id: previousPublicId }, { ignoreDuplicates: true });
+            }
+
+            return { success: true, url: image.secureUrl };
+          }
+
+          case 'message': {
+            const { data: message } = await supabaseAdmin
+              .from('messages')
+              .select('id, sender_id, image_url')
+              .eq('id', input.target.messageId)
+              .single();
+
+            if (!message || message.sender_id !== ctx.user.id) {
+              throw new TRPCError({ code: 'NOT_FOUND', message: 'Message not found' });
+            }
+
+            if (message.image_url) {
+              throw new TRPCError({
+                code: 'PRECONDITION_FAILED',
+                message: 'This message already has an image',
+              });
+            }
+
+            const { error } = await supabaseAdmin
+              .from('messages')
+              .update({ image_url: image.secureUrl })
+              .eq('id', message.id);
+
+            if (error) throw error;
+            linked = true;
+
+            return { success: true, url: image.secureUrl };
+          }
+        }
+      } catch (error) {
+        // An upload nothing links to is an orphan; the app uploads again on retry.
+        // The same upload may have been confirmed for something else before.
+        if (!linked && !(await isUploadLinked(image.secureUrl))) {
+          await cloudinaryService.deleteImage(image.publicId);
+        }
+        throw error;
+      }
+    }),
+});
+
+/**
+ * Helper: Folder a user's uploads for one purpose go in
+ */
+function uploadFolder(userId: string, purpose: UploadPurpose) {
+  return `uploads/${userId}/${purpose}`;
+}
+
+/**
+ * Helper: Whether an avatar or a message already uses an uploaded image
+ */
+async function isUploadLinked(url: string): Promise<boolean> {
+  if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+  const [{ count: avatars }, { count: messages }] = await Promise.all([
+    supabaseAdmin
+      .from('profiles')
+      .select('id', { count: 'exact', head: true })
+      .eq('avatar_url', url),
+    supabaseAdmin
+      .from('messages')
+      .select('id', { count: 'exact', head: true })
+      .eq('image_url', url),
+  ]);
+
+  return (avatars || 0) > 0 || (messages || 0) > 0;
+}
+
+/**
+ * Helper: The public ID of a Cloudinary delivery URL, if it's an upload in the
+ * given folder
+ */
+function uploadPublicId(url: string, folder: string): string | null {
+  // .../image/upload/v1712345678/uploads/<user>/<purpose>/<name>.jpg
+  const match = url.match(/\/upload\/(?:v\d+\/)?(.+?)(?:\.[a-z0-9]+)?$/i);
+  const publicId = match?.[1];
+  return publicId?.startsWith(`${folder}/`) ? publicId : null;
+}
+
+/**
+ * Helper: Why an uploaded image can't be used, or null if it can
+ */
+function uploadProblem(
+  image: { publicId: string; folder: string; format: string; width: number; height: number; bytes: number },
+  folder: string,
+  limits: { minLongSide: number; minShortSide: number; maxBytes: number }
+): string | null {
+  // Accounts using fixed folders leave the folder empty; the public ID prefix was checked
+  if (image.folder && image.folder !== folder) {
+    return 'This upload is in the wrong folder';
+  }
+
+  if (!ALLOWED_FORMATS.includes(image.format)) {
+    return `Upload a JPEG, PNG, WebP or HEIC image (got ${image.format.toUpperCase()})`;
+  }
+
+  const longSide = Math.max(image.width, image.height);
+  const shortSide = Math.min(image.width, image.height);
+  if (longSide < limits.minLongSide || shortSide < limits.minShortSide) {
+    return `Images must be at least ${limits.minLongSide}×${limits.minShortSide} pixels (got ${image.width}×${image.height})`;
+  }
+
+  if (image.bytes > limits.maxBytes) {
+    return `Images can be up to ${Math.round(limits.maxBytes / 1024 / 1024)} MB`;
+  }
+
+  return null;
+}
+
+export default mediaRouter;
@@ -0,0 +1,235 @@
+/**
+ * Payments Ledger
+ * Wraps every Stripe money movement so it leaves a row in the payments table,
+ * including the failed attempts
+ */
+
+import { supabaseAdmin } from '../../../../lib/supabase';
+import {
+  stripeService,
+  CreatePaymentIntentParams,
+  CreateDepositHoldParams,
+} from '../../../../services/stripe';
+
+export type PaymentType =
+  | 'rental'
+  | 'rental_void'
+  | 'deposit_hold'
+  | 'deposit_capture'
+  | 'deposit_release'
+  | 'refund'
+  | 'payout';
+
+export type PaymentStatus = 'pending' | 'succeeded' | 'failed' | 'refunded';
+
+/**
+ * Who a ledger row belongs to: the renter for charges and refunds, the owner for payouts
+ */
+export interface LedgerContext {
+  bookingId: string;
+  userId: string;
+}
+
+interface LedgerRecord {
+  amount: number;
+  paymentType: PaymentType;
+  status: PaymentStatus;
+  stripePaymentIntentId?: string | null;
+  stripeRefundId?: string | null;
+  stripeTransferId?: string | null;
+  failureReason?: string | null;
+}
+
+/**
+ * Helper: Map a Stripe PaymentIntent status onto the ledger status
+ */
+function statusFromIntent(status: string): PaymentStatus {
+  switch (status) {
+    case 'succeeded':
+    case 'requires_capture': // Authorized hold
+      return 'succeeded';
+    case 'canceled':
+      return 'failed';
+    default:
+      return 'pending';
+  }
+}
+
+function statusFromRefund(status: string | null): PaymentStatus {
+  switch (status) {
+    case 'succeeded':
+      return 'succeeded';
+    case 'failed':
+    case 'canceled':
+      return 'failed';
+    default:
+      return 'pending';
+  }
+}
+
+/**
+ * Helper: Insert a payments row. A ledger write failure is logged rather than thrown,
+ * because the money has already moved by the time we get here.
+ */
+async function recordPayment(context: LedgerContext, record: LedgerRecord) {
+  if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+  const { error } = await supabaseAdmin.from('payments').insert({
+    booking_id: context.bookingId,
+    user_id: context.userId,
+    amount: record.amount,
+    payment_type: record.paymentType,
+    status: record.status,
+    stripe_payment_intent_id: record.stripePaymentIntentId ?? null,
+    stripe_refund_id: record.stripeRefundId ?? null,
+    stripe_transfer_id: record.stripeTransferId ?? null,
+    failure_reason: record.failureReason ?? null,
+    processed_at: record.status === 'pending' ? null : new Date().toISOString(),
+  });
+
+  if (error) {
+    console.error('Error recording payment in ledger:', error, context, record);
+  }
+}
+
+/**
+ * Helper: Run a Stripe call and record its outcome, success or failure
+ */
+async function withLedger<T>(
+  context: LedgerContext,
+  attempt: Pick<LedgerRecord, 'amount' | 'paymentType' | 'stripePaymentIntentId'>,
+  call: () => Promise<T>,
+  toRecord: (result: T) => Partial<LedgerRecord> & Pick<LedgerRecord, 'status'>
+): Promise<T> {
+  let result: T;
+
+  try {
+    result = await call();
+  } catch (error: any) {
+    await recordPayment(context, {
+      ...attempt,
+      status: 'failed',
+      failureReason: error?.message || 'Unknown Stripe error',
+    });
+    throw error;
+  }
+
+  await recordPayment(context, { ...attempt, ...toRecord(result) });
+  return result;
+}
+
+export const paymentsLedger = {
+  /**
+   * Charge the renter for the rental
+   */
+  createPaymentIntent: (context: LedgerContext, params: CreatePaymentIntentParams) =>
+    withLedger(
+      context,
+      { amount: params.amount, paymentType: 'rental' },
+      () => stripeService.createPaymentIntent(params),
+      (paymentIntent) => ({
+        status: statusFromIntent(paymentIntent.status),
+        stripePaymentIntentId: paymentIntent.id,
+      })
+    ),
+
+  /**
+   * Authorize the security deposit hold
+   */
+  createDepositHold: (context: LedgerContext, params: CreateDepositHoldParams) =>
+    withLedger(
+      context,
+      { amount: params.amount, paymentType: 'deposit_hold' },
+      () => stripeService.createDepositHold(params),
+      (paymentIntent) => ({
+        status: statusFromIntent(paymentIntent.status),
+        stripePaymentIntentId: paymentIntent.id,
+      })
+    ),
+
+  /**
+   * Capture the deposit hold, in full or in part
+   */
+  captureDeposit: (
+    context: LedgerContext,
+    paymentIntentId: string,
+    { amount, partial = false }: { amount: number; partial?: boolean }
+  ) =>
+    withLedger(
+      context,
+      { amount, paymentType: 'deposit_capture', stripePaymentIntentId: paymentIntentId },
+      () => stripeService.captureDeposit(paymentIntentId, partial ? amount : undefined),
+      (paymentIntent) => ({ status: statusFromIntent(paymentIntent.status) })
+    ),
+
+  /**
+   * Cancel an uncaptured PaymentIntent: a deposit hold, or a rental charge that never went through
+   */
+  releaseDeposit: (
+    context: LedgerContext,
+    paymentIntentId: string,
+    {
+      amount,
+      paymentType = 'deposit_release',
+    }: { amount: number; paymentType?: 'deposit_release' | 'rental_void' }
+  ) =>
+    withLedger(
+      context,
+      { amount, paymentType, stripePaymentIntentId: paymentIntentId },
+      () => stripeService.releaseDeposit(paymentIntentId),
+      (paymentIntent) => ({
+        status: paymentIntent.status === 'canceled' ? 'succeeded' : 'pending',
+      })
+    ),
+
+  /**
+   * Refund the renter
+   */
+  createRefund: (
+    context: LedgerContext,
+    paymentIntentId: string,
+    amount: number,
+    reason?: 'duplicate' | 'fraudulent' | 'requested_by_customer'
+  ) =>
+    withLedger(
+      context,
+      { amount, paymentType: 'refund', stripePaymentIntentId: paymentIntentId },
+      () => stripeService.createRefund(paymentIntentId, amount, reason),
+      (refund) => ({
+        amount: refund.amount,
+        status: statusFromRefund(refund.status),
+        stripeRefundId: refund.id,
+      })
+    ),
+
+  /**
+   * Pay the owner through Stripe Connect
+   */
+  createTransfer: (
+    context: LedgerContext,
+    amount: number,
+    connectedAccountId: string,
+    metadata: Record<string, string> = {},
+    idempotencyKey?: string,
+    transferGroup?: string
+  ) =>
+    withLedger(
+      context,
+      { amount, paymentType: 'payout' },
+      () =>
+        stripeService.createTransfer(
+          amount,
+          connectedAccountId,
+          metadata,
+          idempotencyKey,
+          transferGroup
+        ),
+      (transfer) => ({
+        amount: transfer.amount,
+        status: 'succeeded',
+        stripeTransferId: transfer.id,
+      })
+    ),
+};
+
+export default paymentsLedger;
@@ -0,0 +1,121 @@
+/**
+ * Payments tRPC Router
+ * Read access to the payments ledger so renters and owners can reconcile charges and payouts
+ */
+
+import { z } from 'zod';
+import { router, protectedProcedure } from '../../create-context';
+import { supabaseAdmin } from '../../../../lib/supabase';
+
+const paymentTypeEnum = z.enum([
+  'rental',
+  'rental_void',
+  'deposit_hold',
+  'deposit_capture',
+  'deposit_release',
+  'refund',
+  'payout',
+]);
+
+export const paymentsRouter = router({
+  /**
+   * Get the ledger for a booking (renter or owner)
+   */
+  getForBooking: protectedProcedure
+    .input(z.object({ bookingId: z.string().uuid() }))
+    .query(async ({ input, ctx }) => {
+      if (!supabaseAdmin) throw new Error('Supabase not configured');
+      if (!ctx.user) throw new Error('Not authenticated');
+
+      const { data: booking } = await supabaseAdmin
+        .from('bookings')
+        .select('id, renter_id, owner_id, total_amount, security_deposit')
+        .eq('id', input.bookingId)
+        .single();
+
+      if (!booking) throw new Error('Booking not found');
+
+      // Verify user is renter or owner
+      if (booking.renter_id !== ctx.user.id && booking.owner_id !== ctx.user.id) {
+        throw new Error('Unauthorized');
+      }
+
+      const { data: payments, error } = await supabaseAdmin
+        .from('payments')
+        .select('*')
+        .eq('booking_id', input.bookingId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      // Totals only count money that actually moved
+      const sumOf = (...types: string[]) =>
+        (payments || [])
+          .filter((p) => types.includes(p.payment_type) && p.status !== 'failed' && p.status !== 'pending')
+          .reduce((sum, p) => sum + Number(p.amount), 0);
+
+      return {
+        payments: payments || [],
+        summary: {
+          charged: sumOf('rental'),
+          refunded: sumOf('refund'),
+          depositCaptured: sumOf('deposit_capture'),
+          paidOut: sumOf('payout'),
+        },
+      };
+    }),
+
+  /**
+   * Get the current user's payment history (charges as renter, payouts as owner)
+   */
+  getMyHistory: protectedProcedure
+    .input(
+      z.object({
+        paymentType: paymentTypeEnum.optional(),
+        limit: z.number().min(1).max(100).default(20),
+        offset: z.number().min(0).default(0),
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      if (!supabaseAdmin) throw new Error('Supabase not configured');
+      if (!ctx.user) throw new Error('Not authenticated');
+
+      let query = supabaseAdmin
+        .from('payments')
+        .select(
+          `
+          *,
+          booking:bookings (
+            id,
+            start_date,
+            end_date,
+            status,
+            listing:listings (
+              id,
+              title
+            )
+          )
+        `,
+          { count: 'exact' }
+        )
+        .eq('user_id', ctx.user.id);
+
+      if (input.paymentType) {
+        query = query.eq('payment_type', input.paymentType);
+      }
+
+      const { data: payments, count, error } = await query
+        .order('created_at', { ascending: false })
+        .range(input.offset, input.offset + input.limit - 1);
+
+      if (error) throw error;
+
+      return {
+        payments: payments || [],
+        total: count || 0,
+        hasMore: (count || 0) > input.offset + input.limit,
+      };
+    }),
+});
+
+export default paymentsRouter;
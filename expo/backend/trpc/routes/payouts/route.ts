@@ -0,0 +1,166 @@
+/**
+ * Payouts tRPC Router
+ * Owner earnings per booking, and the admin tools for transferring due payouts and
+ * retrying failed ones
+ */
+
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { router, protectedProcedure, adminProcedure } from '../../create-context';
+import { supabaseAdmin } from '../../../../lib/supabase';
+import { MAX_PAYOUT_ATTEMPTS, processDuePayouts } from './scheduler';
+
+const payoutStatusEnum = z.enum(['pending', 'on_hold', 'processing', 'paid', 'failed']);
+
+export const payoutsRouter = router({
+  /**
+   * List the current owner's payouts with pending and paid totals
+   */
+  list: protectedProcedure
+    .input(
+      z.object({
+        status: payoutStatusEnum.optional(),
+        limit: z.number().min(1).max(100).default(20),
+        offset: z.number().min(0).default(0),
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      if (!supabaseAdmin) throw new Error('Supabase not configured');
+      if (!ctx.user) throw new Error('Not authenticated');
+
+      let query = supabaseAdmin
+        .from('payouts')
+        .select(
+          `
+          *,
+          booking:bookings (
+            id,
+            start_date,
+            end_date,
+            total_rental_fee,
+            delivery_fee,
+            listing:listings (
+              id,
+              title
+            )
+          )
+        `,
+          { count: 'exact' }
+        )
+        .eq('owner_id', ctx.user.id);
+
+      if (input.status) {
+        query = query.eq('status', input.status);
+      }
+
+      const { data: payouts, count, error } = await query
+        .order('created_at', { ascending: false })
+        .range(input.offset, input.offset + input.limit - 1);
+
+      if (error) throw error;
+
+      // Totals cover all of the owner's payouts, not just this page
+      const { data: allPayouts } = await supabaseAdmin
+        .from('payouts')
+        .select('amount, status')
+        .eq('owner_id', ctx.user.id);
+
+      const totals = { pending: 0, paid: 0 };
+      for (const payout of allPayouts || []) {
+        if (payout.status === 'paid') {
+          totals.paid += Number(payout.amount);
+        } else {
+          totals.pending += Number(payout.amount);
+        }
+      }
+
+      return {
+        payouts: payouts || [],
+        totals: {
+          pending: Math.round(totals.pending * 100) / 100,
+          paid: Math.round(totals.paid * 100) / 100,
+        },
+        total: count || 0,
+        hasMore: (count || 0) > input.offset + input.limit,
+      };
+    }),
+
+  /**
+   * Transfer all payouts whose dispute window has passed (admin only)
+   */
+  processDue: adminProcedure.mutation(async () => {
+    return processDuePayouts();
+  }),
+
+  /**
+   * Admin: Payouts that failed on every attempt and are no longer retried, oldest first
+   */
+  listFailed: adminProcedure
+    .input(
+      z.object({
+        limit: z.number().min(1).max(100).default(20),
+        offset: z.number().min(0).default(0),
+      })
+    )
+    .query(async ({ input }) => {
+      if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+      const { data: payouts, count, error } = await supabaseAdmin
+        .from('payouts')
+        .select(
+          `
+          *,
+          booking:bookings (
+            id,
+            listing:listings (
+              id,
+              title
+            )
+          ),
+          owner:profiles!owner_id (
+            id,
+            email
+          )
+        `,
+          { count: 'exact' }
+        )
+        .eq('status', 'failed')
+        .gte('attempts', MAX_PAYOUT_ATTEMPTS)
+        .order('updated_at', { ascending: true })
+        .range(input.offset, input.offset + input.limit - 1);
+
+      if (error) throw error;
+
+      return {
+        items: payouts || [],
+        total: count || 0,
+        hasMore: (count || 0) > input.offset + input.limit,
+      };
+    }),
+
+  /**
+   * Admin: Give a payout that ran out of attempts a fresh set, once the cause is fixed
+   */
+  retry: adminProcedure
+    .input(z.object({ payoutId: z.string().uuid() }))
+    .mutation(async ({ input }) => {
+      if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+      const { data: payout, error } = await supabaseAdmin
+        .from('payouts')
+        .update({ attempts: 0, updated_at: new Date().toISOString() })
+        .eq('id', input.payoutId)
+        .eq('status', 'failed')
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!payout) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'No failed payout with this ID' });
+      }
+
+      return { success: true, payout };
+    }),
+});
+
+export default payoutsRouter;
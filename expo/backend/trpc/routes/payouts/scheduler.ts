@@ -0,0 +1,421 @@
+/**
+ * Payout Scheduler
+ * Queues owner earnings when a booking completes and transfers them through Stripe Connect
+ * once the dispute window has passed
+ */
+
+import { addDays, addHours, format } from 'date-fns';
+import { supabaseAdmin } from '../../../../lib/supabase';
+import { stripeService } from '../../../../services/stripe';
+import { emailService } from '../../../../services/email';
+import type { Database } from '../../../../types/database';
+import { firstOf } from '../../../jobs/embeds';
+import { paymentsLedger } from '../payments/ledger';
+import { DISPUTE_FILING_WINDOW_DAYS } from '../disputes/route';
+
+type Tables = Database['public']['Tables'];
+
+// A payout with the booking and owner columns selected for transferring it. A to-one
+// embed can come back as an object or a one-element array depending on the join.
+type DuePayout = Tables['payouts']['Row'] & {
+  booking: PayoutBooking | PayoutBooking[] | null;
+  owner: PayoutOwner | PayoutOwner[] | null;
+};
+
+type PayoutBooking = Pick<Tables['bookings']['Row'], 'id' | 'total_rental_fee' | 'delivery_fee'> & {
+  listing: PayoutListing | PayoutListing[] | null;
+};
+
+type PayoutListing = Pick<Tables['listings']['Row'], 'title'>;
+
+type PayoutOwner = Pick<Tables['profiles']['Row'], 'email'>;
+
+// Maximum number of payouts transferred per run
+const PAYOUT_BATCH_SIZE = 50;
+
+// Failed transfers are retried on later runs up to this many attempts
+export const MAX_PAYOUT_ATTEMPTS = 3;
+
+// Payouts to owners without a payout account wait this long before the next check
+const PAYOUT_ACCOUNT_RECHECK_HOURS = 24;
+
+// Stripe usually lands a transfer in the owner's bank within this many days
+const PAYOUT_ARRIVAL_DAYS = 2;
+
+// A payout still processing after this long was interrupted between its transfer
+// and recording the result
+const STUCK_PAYOUT_MINUTES = 30;
+
+export interface ProcessPayoutsResult {
+  paid: number;
+  held: number;
+  skipped: number;
+  failed: number;
+}
+
+export interface ReconcilePayoutsResult {
+  paid: number;
+  failed: number;
+  errored: number;
+}
+
+/**
+ * Queue the owner payout for a completed booking. Safe to call more than once.
+ */
+export async function queuePayout(booking: {
+  id: string;
+  owner_id: string;
+  end_date: string;
+  total_rental_fee: number;
+  delivery_fee: number | null;
+}) {
+  if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+  // Either party can still open a dispute until the filing window closes
+  const disputeWindowEnd = addDays(new Date(booking.end_date), DISPUTE_FILING_WINDOW_DAYS);
+  const eligibleAt = disputeWindowEnd > new Date() ? disputeWindowEnd : new Date();
+
+  const { error } = await supabaseAdmin.from('payouts').upsert(
+    {
+      booking_id: booking.id,
+      owner_id: booking.owner_id,
+      amount: ownerEarningsFor(booking),
+      status: 'pending',
+      eligible_at: eligibleAt.toISOString(),
+    },
+    { onConflict: 'booking_id', ignoreDuplicates: true }
+  );
+
+  if (error) throw error;
+}
+
+/**
+ * Transfer every payout whose dispute window has passed. Payouts on hold for a dispute
+ * wait for the dispute to release them; failed payouts are retried until they run out
+ * of attempts, then wait for an admin (payouts.listFailed).
+ */
+export async function processDuePayouts(now: Date = new Date()): Promise<ProcessPayoutsResult> {
+  if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+  const result: ProcessPayoutsResult = { paid: 0, held: 0, skipped: 0, failed: 0 };
+
+  const { data: payouts, error } = await supabaseAdmin
+    .from('payouts')
+    .select(
+      `
+      *,
+      booking:bookings (
+        id,
+        total_rental_fee,
+        delivery_fee,
+        listing:listings (
+          title
+        )
+      ),
+      owner:profiles!owner_id (
+        email
+      )
+    `
+    )
+    .in('status', ['pending', 'failed'])
+    .lt('attempts', MAX_PAYOUT_ATTEMPTS)
+    .lte('eligible_at', now.toISOString())
+    .order('eligible_at', { ascending: true })
+    .limit(PAYOUT_BATCH_SIZE);
+
+  if (error) throw error;
+
+  for (const payout of payouts || []) {
+    try {
+      const outcome = await processPayout(payout, now);
+      result[outcome]++;
+    } catch (error) {
+      console.error(`Error processing payout ${payout.id}:`, error);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Settle payouts left in processing, by the transfer Stripe has for them. Payouts with
+ * a transfer are recorded as paid; the rest are marked failed so a later run retries them.
+ */
+export async function reconcileStuckPayouts(
+  now: Date = new Date()
+): Promise<ReconcilePayoutsResult> {
+  if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+  const result: ReconcilePayoutsResult = { paid: 0, failed: 0, errored: 0 };
+  const stuckBefore = new Date(now.getTime() - STUCK_PAYOUT_MINUTES * 60 * 1000);
+
+  const { data: payouts, error } = await supabaseAdmin
+    .from('payouts')
+    .select('id, amount, updated_at')
+    .eq('status', 'processing')
+    .lt('updated_at', stuckBefore.toISOString())
+    .order('updated_at', { ascending: true })
+    .limit(PAYOUT_BATCH_SIZE);
+
+  if (error) throw error;
+
+  for (const payout of payouts || []) {
+    try {
+      const transfer =
+        Number(payout.amount) > 0
+          ? await stripeService.findTransfer(payoutTransferGroup(payout.id))
+          : null;
+
+      // Only settle the payout if no run has claimed it again since it was read
+      const { data: settled, error: updateError } = await supabaseAdmin
+        .from('payouts')
+        .update(
+          transfer
+            ? {
+                status: 'paid',
+                stripe_transfer_id: transfer.id,
+                failure_reason: null,
+                paid_at: now.toISOString(),
+                updated_at: now.toISOString(),
+              }
+            : {
+                status: 'failed',
+                failure_reason: 'Transfer was interrupted before it completed',
+                updated_at: now.toISOString(),
+              }
+        )
+        .eq('id', payout.id)
+        .eq('status', 'processing')
+        .eq('updated_at', payout.updated_at)
+        .select('id')
+        .maybeSingle();
+
+      if (updateError) throw updateError;
+      if (settled) result[transfer ? 'paid' : 'failed']++;
+    } catch (error) {
+      console.error(`Error reconciling payout ${payout.id}:`, error);
+      result.errored++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Helper: Transfer a single payout, or hold it back if it is not ready
+ */
+async function processPayout(payout: DuePayout, now: Date): Promise<keyof ProcessPayoutsResult> {
+  if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+  // An active dispute may still capture the deposit or refund the renter
+  const { data: activeDispute, error: disputeError } = await supabaseAdmin
+    .from('disputes')
+    .select('id')
+    .eq('booking_id', payout.booking_id)
+    .in('status', ['open', 'under_review', 'resolving'])
+    .maybeSingle();
+
+  if (disputeError) throw disputeError;
+
+  // Held payouts leave the batch until the dispute is resolved and releases them
+  if (activeDispute) {
+    const { error: holdError } = await supabaseAdmin
+      .from('payouts')
+      .update({ status: 'on_hold', updated_at: now.toISOString() })
+      .eq('id', payout.id);
+
+    if (holdError) throw holdError;
+    return 'held';
+  }
+
+  const { data: payoutAccount, error: accountError } = await supabaseAdmin
+    .from('payout_accounts')
+    .select('stripe_account_id, payouts_enabled')
+    .eq('user_id', payout.owner_id)
+    .maybeSingle();
+
+  if (accountError) throw accountError;
+
+  // Leave it queued until the owner finishes Stripe onboarding, checking again later
+  // so unpaid owners don't fill every batch
+  if (!payoutAccount?.payouts_enabled) {
+    const { error: skipError } = await supabaseAdmin
+      .from('payouts')
+      .update({
+        status: 'pending',
+        failure_reason: 'Payout account is not set up to receive transfers',
+        eligible_at: addHours(now, PAYOUT_ACCOUNT_RECHECK_HOURS).toISOString(),
+        updated_at: now.toISOString(),
+      })
+      .eq('id', payout.id);
+
+    if (skipError) throw skipError;
+    return 'skipped';
+  }
+
+  // Anything refunded to the renter comes out of the owner's earnings, and deposit
+  // captured for damage goes to the owner in full
+  const { data: adjustments, error: adjustmentsError } = await supabaseAdmin
+    .from('payments')
+    .select('amount, payment_type, status')
+    .eq('booking_id', payout.booking_id)
+    .in('payment_type', ['refund', 'deposit_capture'])
+    .in('status', ['pending', 'succeeded']);
+
+  if (adjustmentsError) throw adjustmentsError;
+
+  const sumOf = (type: string, statuses: string[]) =>
+    (adjustments || [])
+      .filter((payment) => payment.payment_type === type && statuses.includes(payment.status))
+      .reduce((sum, payment) => sum + Number(payment.amount), 0);
+
+  const refunded = sumOf('refund', ['pending', 'succeeded']);
+  const depositCaptured = sumOf('deposit_capture', ['succeeded']);
+  const booking = firstOf(payout.booking);
+  if (!booking) throw new Error(`Booking ${payout.booking_id} not found`);
+
+  const amount = Math.max(
+    0,
+    Math.round((ownerEarningsFor(booking) - refunded + depositCaptured) * 100) / 100
+  );
+
+  // Claim the payout so overlapping runs can't transfer it twice
+  const { data: claimed, error: claimError } = await supabaseAdmin
+    .from('payouts')
+    .update({
+      status: 'processing',
+      amount,
+      attempts: payout.attempts + 1,
+      updated_at: now.toISOString(),
+    })
+    .eq('id', payout.id)
+    .eq('status', payout.status)
+    .select('id')
+    .maybeSingle();
+
+  if (claimError) throw claimError;
+  if (!claimed) return 'skipped';
+
+  if (amount === 0) {
+    const { error: paidError } = await supabaseAdmin
+      .from('payouts')
+      .update({ status: 'paid', paid_at: now.toISOString(), failure_reason: null })
+      .eq('id', payout.id);
+
+    if (paidError) throw paidError;
+    return 'paid';
+  }
+
+  // A payout has one transfer group, so an earlier attempt that reached Stripe but was
+  // never recorded is picked up here rather than transferred again
+  const transferGroup = payoutTransferGroup(payout.id);
+
+  let transfer;
+  try {
+    transfer =
+      (await stripeService.findTransfer(transferGroup)) ??
+      (await paymentsLedger.createTransfer(
+        { bookingId: payout.booking_id, userId: payout.owner_id },
+        amount,
+        payoutAccount.stripe_account_id,
+        { booking_id: payout.booking_id, payout_id: payout.id },
+        `payout-${payout.id}-${payout.attempts + 1}`,
+        transferGroup
+      ));
+  } catch (error) {
+    const failureReason = error instanceof Error ? error.message : 'Transfer failed';
+
+    const { error: failedError } = await supabaseAdmin
+      .from('payouts')
+      .update({
+        status: 'failed',
+        failure_reason: failureReason,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', payout.id);
+
+    if (failedError) throw failedError;
+
+    // Out of retries: admins pick it up from payouts.listFailed
+    if (payout.attempts + 1 >= MAX_PAYOUT_ATTEMPTS) {
+      console.error(
+        `Payout ${payout.id} failed ${MAX_PAYOUT_ATTEMPTS} times and needs an admin:`,
+        failureReason
+      );
+    }
+    return 'failed';
+  }
+
+  const { error: paidError } = await supabaseAdmin
+    .from('payouts')
+    .update({
+      status: 'paid',
+      stripe_transfer_id: transfer.id,
+      failure_reason: null,
+      paid_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', payout.id);
+
+  // Left processing; reconcile-payouts records it from the transfer
+  if (paidError) throw paidError;
+
+  // The money has moved, so a failed notification doesn't fail the payout
+  try {
+    await notifyPayoutSent(payout, firstOf(booking.listing)?.title ?? 'your listing', amount, now);
+  } catch (error) {
+    console.error(`Payout ${payout.id} was sent but the owner wasn't notified:`, error);
+  }
+
+  return 'paid';
+}
+
+/**
+ * Helper: Tell the owner a payout is on its way, in the app and by email
+ */
+async function notifyPayoutSent(
+  payout: DuePayout,
+  listingTitle: string,
+  amount: number,
+  now: Date
+) {
+  if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+  const { error } = await supabaseAdmin.from('notifications').insert({
+    user_id: payout.owner_id,
+    type: 'payout',
+    title: 'Payout sent',
+    message: `$${amount.toFixed(2)} for "${listingTitle}" is on its way to your bank account.`,
+    booking_id: payout.booking_id,
+    action_url: `${process.env.APP_URL}/earnings`,
+    channels: ['push', 'email'],
+  });
+
+  if (error) throw error;
+
+  const owner = firstOf(payout.owner);
+  if (owner?.email) {
+    await emailService.sendPayoutNotification(owner.email, {
+      amount,
+      bookingId: payout.booking_id,
+      listingTitle,
+      expectedDate: format(addDays(now, PAYOUT_ARRIVAL_DAYS), 'MMM d, yyyy'),
+    });
+  }
+}
+
+/**
+ * Helper: Owner's share of a booking (rental after platform fee, plus delivery)
+ */
+function ownerEarningsFor(booking: { total_rental_fee: number; delivery_fee: number | null }) {
+  const { ownerEarnings } = stripeService.calculateFees(Number(booking.total_rental_fee));
+  return Math.round((ownerEarnings + Number(booking.delivery_fee || 0)) * 100) / 100;
+}
+
+/**
+ * Helper: Stripe transfer group shared by every attempt at a payout
+ */
+function payoutTransferGroup(payoutId: string) {
+  return `payout-${payoutId}`;
+}
@@ -0,0 +1,62 @@
+/**
+ * Review Ratings
+ * Publication rules and rating aggregates shared by the reviews router and scheduled jobs
+ */
+
+import { supabaseAdmin } from '../../../../lib/supabase';
+
+// Reviews publish once both sides have reviewed, or this many days after the booking ends
+export const REVIEW_PUBLISH_DAYS = 14;
+
+/**
+ * Update listing average rating
+ */
+export async function updateListingRating(listingId: string) {
+  if (!supabaseAdmin) return;
+
+  const { data: reviews } = await supabaseAdmin
+    .from('reviews')
+    .select('overall_rating')
+    .eq('listing_id', listingId)
+    .eq('review_type', 'listing')
+    .not('published_at', 'is', null);
+
+  if (!reviews || reviews.length === 0) return;
+
+  const avgRating =
+    reviews.reduce((sum, r) => sum + r.overall_rating, 0) / reviews.length;
+
+  await supabaseAdmin
+    .from('listings')
+    .update({
+      average_rating: Math.round(avgRating * 100) / 100,
+      total_reviews: reviews.length,
+    })
+    .eq('id', listingId);
+}
+
+/**
+ * Update user average rating
+ */
+export async function updateUserRating(userId: string) {
+  if (!supabaseAdmin) return;
+
+  const { data: reviews } = await supabaseAdmin
+    .from('reviews')
+    .select('overall_rating')
+    .eq('reviewee_id', userId)
+    .not('published_at', 'is', null);
+
+  if (!reviews || reviews.length === 0) return;
+
+  const avgRating =
+    reviews.reduce((sum, r) => sum + r.overall_rating, 0) / reviews.length;
+
+  await supabaseAdmin
+    .from('profiles')
+    .update({
+      overall_rating: Math.round(avgRating * 100) / 100,
+      total_reviews: reviews.length,
+    })
+    .eq('id', userId);
+}
@@ -6,7 +6,9 @@
 import { z } from 'zod';
 import { router, protectedProcedure, publicProcedure } from '../../create-context';
 import { supabaseAdmin } from '../../../../lib/supabase';
+import { reviewFromRow, reviewToRow } from '../../../../lib/domain';
 import { addDays } from 'date-fns';
+import { REVIEW_PUBLISH_DAYS, updateListingRating, updateUserRating } from './ratings';
 
 const createListingReviewInput = z.object({
   bookingId: z.string().uuid(),
@@ -79,18 +81,22 @@ export const reviewsRouter = router({
       const { data: review, error: reviewError } = await supabaseAdmin
         .from('reviews')
         .insert({
-          booking_id: input.bookingId,
-          reviewer_id: ctx.user.id,
-          reviewee_id: booking.owner_id,
-          listing_id: booking.listing_id,
-          review_type: 'listing',
-          overall_rating: input.overallRating,
-          equipment_quality_rating: input.equipmentQualityRating,
-          cleanliness_rating: input.cleanlinessRating,
-          communication_rating: input.communicationRating,
-          accuracy_rating: input.accuracyRating,
-          value_rating: input.valueRating,
-          review_text: input.reviewText,
+          ...reviewToRow({
+            bookingId: input.bookingId,
+            reviewerId: ctx.user.id,
+            revieweeId: booking.owner_id,
+            listingId: booking.listing_id,
+            type: 'listing',
+            rating: input.overallRating,
+            ratings: {
+              equipmentQuality: input.equipmentQualityRating,
+              cleanliness: input.cleanlinessRating,
+              communication: input.communicationRating,
+              accuracy: input.accuracyRating,
+              value: input.valueRating,
+            },
+            text: input.reviewText,
+          }),
           private_feedback: input.privateFeedback,
         })
         .select()
@@ -112,10 +118,10 @@ export const reviewsRouter = router({
         .eq('review_type', 'renter')
         .single();
 
-      // If both reviewed or 14 days elapsed, publish reviews
-      const fourteenDaysAgo = addDays(new Date(), -14);
+      // If both reviewed or the review window has elapsed, publish reviews
+      const publishCutoff = addDays(new Date(), -REVIEW_PUBLISH_DAYS);
       const bookingEndDate = new Date(booking.end_date);
-      const shouldPublish = ownerReview || bookingEndDate < fourteenDaysAgo;
+      const shouldPublish = ownerReview || bookingEndDate < publishCutoff;
 
       if (shouldPublish) {
         const publishedAt = new Date().toISOString();
@@ -132,7 +138,7 @@ export const reviewsRouter = router({
         await updateUserRating(booking.owner_id);
       }
 
-      return { success: true, review };
+      return { success: true, review: reviewFromRow(review) };
     }),
 
   /**
@@ -182,16 +188,20 @@ export const reviewsRouter = router({
       const { data: review, error: reviewError } = await supabaseAdmin
         .from('reviews')
         .insert({
-          booking_id: input.bookingId,
-          reviewer_id: ctx.user.id,
-          reviewee_id: booking.renter_id,
-          review_type: 'renter',
-          overall_rating: input.overallRating,
-          communication_rating: input.communicationRating,
-          respect_rating: input.respectRating,
-          timeliness_rating: input.timelinessRating,
-          condition_on_return_rating: input.conditionOnReturnRating,
-          review_text: input.reviewText,
+          ...reviewToRow({
+            bookingId: input.bookingId,
+            reviewerId: ctx.user.id,
+            revieweeId: booking.renter_id,
+            type: 'renter',
+            rating: input.overallRating,
+            ratings: {
+              communication: input.communicationRating,
+              respect: input.respectRating,
+              timeliness: input.timelinessRating,
+              conditionOnReturn: input.conditionOnReturnRating,
+            },
+            text: input.reviewText,
+          }),
           private_feedback: input.privateFeedback,
         })
         .select()
@@ -213,10 +223,10 @@ export const reviewsRouter = router({
         .eq('review_type', 'listing')
         .single();
 
-      // If both reviewed or 14 days elapsed, publish reviews
-      const fourteenDaysAgo = addDays(new Date(), -14);
+      // If both reviewed or the review window has elapsed, publish reviews
+      const publishCutoff = addDays(new Date(), -REVIEW_PUBLISH_DAYS);
       const bookingEndDate = new Date(booking.end_date);
-      const shouldPublish = renterReview || bookingEndDate < fourteenDaysAgo;
+      const shouldPublish = renterReview || bookingEndDate < publishCutoff;
 
       if (shouldPublish) {
         const publishedAt = new Date().toISOString();
@@ -230,7 +240,7 @@ export const reviewsRouter = router({
         await updateUserRating(booking.renter_id);
       }
 
-      return { success: true, review };
+      return { success: true, review: reviewFromRow(review) };
     }),
 
   /**
@@ -279,7 +289,7 @@ export const reviewsRouter = router({
         .not('published_at', 'is', null);
 
       return {
-        reviews: reviews || [],
+        reviews: (reviews || []).map((review) => reviewFromRow(review)),
         total: count || 0,
         hasMore: (count || 0) > input.offset + input.limit,
       };
@@ -346,7 +356,7 @@ export const reviewsRouter = router({
       const { count } = await countQuery;
 
       return {
-        reviews: reviews || [],
+        reviews: (reviews || []).map((review) => reviewFromRow(review)),
         total: count || 0,
         hasMore: (count || 0) > input.offset + input.limit,
       };
@@ -399,7 +409,7 @@ export const reviewsRouter = router({
 
       if (error) throw error;
 
-      return { success: true, review: updatedReview };
+      return { success: true, review: reviewFromRow(updatedReview) };
     }),
 
   /**
@@ -429,57 +439,4 @@ export const reviewsRouter = router({
     }),
 });
 
-/**
- * Helper: Update listing average rating
- */
-async function updateListingRating(listingId: string) {
-  if (!supabaseAdmin) return;
-
-  const { data: reviews } = await supabaseAdmin
-    .from('reviews')
-    .select('overall_rating')
-    .eq('listing_id', listingId)
-    .eq('review_type', 'listing')
-    .not('published_at', 'is', null);
-
-  if (!reviews || reviews.length === 0) return;
-
-  const avgRating =
-    reviews.reduce((sum, r) => sum + r.overall_rating, 0) / reviews.length;
-
-  await supabaseAdmin
-    .from('listings')
-    .update({
-      average_rating: Math.round(avgRating * 100) / 100,
-      total_reviews: reviews.length,
-    })
-    .eq('id', listingId);
-}
-
-/**
- * Helper: Update user average rating
- */
-async function updateUserRating(userId: string) {
-  if (!supabaseAdmin) return;
-
-  const { data: reviews } = await supabaseAdmin
-    .from('reviews')
-    .select('overall_rating')
-    .eq('reviewee_id', userId)
-    .not('published_at', 'is', null);
-
-  if (!reviews || reviews.length === 0) return;
-
-  const avgRating =
-    reviews.reduce((sum, r) => sum + r.overall_rating, 0) / reviews.length;
-
-  await supabaseAdmin
-    .from('profiles')
-    .update({
-      overall_rating: Math.round(avgRating * 100) / 100,
-      total_reviews: reviews.length,
-    })
-    .eq('id', userId);
-}
-
 export default reviewsRouter;
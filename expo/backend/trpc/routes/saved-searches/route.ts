@@ -0,0 +1,178 @@
+/**
+ * Saved Searches tRPC Router
+ * Named listing searches that alert the renter when a matching listing is published
+ */
+
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { router, protectedProcedure } from '../../create-context';
+import { supabaseAdmin } from '../../../../lib/supabase';
+import { searchListingsInput } from '../listings/search';
+
+// Keeps the per-listing matching in match_saved_searches cheap
+const MAX_SAVED_SEARCHES_PER_USER = 20;
+
+// A search without paging, sorting or facets
+export const savedSearchFiltersInput = searchListingsInput.omit({
+  limit: true,
+  offset: true,
+  cursor: true,
+  sortBy: true,
+  includeFacets: true,
+});
+
+export const savedSearchesRouter = router({
+  /**
+   * List the current user's saved searches, newest first, with how many listings each has alerted about
+   */
+  list: protectedProcedure.query(async ({ ctx }) => {
+    if (!supabaseAdmin) throw new Error('Supabase not configured');
+    if (!ctx.user) throw new Error('Not authenticated');
+
+    const { data, error } = await supabaseAdmin
+      .from('saved_searches')
+      .select('*, alerts:saved_search_alerts(count)')
+      .eq('user_id', ctx.user.id)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    return (data || []).map(({ alerts, ...savedSearch }) => ({
+      ...savedSearch,
+      alertCount: alerts?.[0]?.count ?? 0,
+    }));
+  }),
+
+  /**
+   * Save a search. Only listings published from now on trigger alerts.
+   */
+  create: protectedProcedure
+    .input(
+      z.object({
+        name: z.string().trim().min(1).max(60),
+        filters: savedSearchFiltersInput,
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      if (!supabaseAdmin) throw new Error('Supabase not configured');
+      if (!ctx.user) throw new Error('Not authenticated');
+
+      const { count } = await supabaseAdmin
+        .from('saved_searches')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', ctx.user.id);
+
+      if ((count ?? 0) >= MAX_SAVED_SEARCHES_PER_USER) {
+        throw new TRPCError({
+          code: 'PRECONDITION_FAILED',
+          message: `You can save up to ${MAX_SAVED_SEARCHES_PER_USER} searches. Delete one to save another.`,
+        });
+      }
+
+      const { data, error } = await supabaseAdmin
+        .from('saved_searches')
+        .insert({
+          user_id: ctx.user.id,
+          name: input.name,
+          filters: input.filters,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return { success: true, savedSearch: data };
+    }),
+
+  /**
+   * Rename a saved search or replace its filters
+   */
+  update: protectedProcedure
+    .input(
+      z.object({
+        savedSearchId: z.string().uuid(),
+        name: z.string().trim().min(1).max(60).optional(),
+        filters: savedSearchFiltersInput.optional(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      if (!supabaseAdmin) throw new Error('Supabase not configured');
+      if (!ctx.user) throw new Error('Not authenticated');
+
+      const updates: Record<string, any> = { updated_at: new Date().toISOString() };
+      if (input.name !== undefined) updates.name = input.name;
+      if (input.filters !== undefined) updates.filters = input.filters;
+
+      return updateOwnSavedSearch(input.savedSearchId, ctx.user.id, updates);
+    }),
+
+  /**
+   * Pause or resume alerts. Listings published while paused are never alerted about.
+   */
+  setPaused: protectedProcedure
+    .input(
+      z.object({
+        savedSearchId: z.string().uuid(),
+        paused: z.boolean(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      if (!supabaseAdmin) throw new Error('Supabase not configured');
+      if (!ctx.user) throw new Error('Not authenticated');
+
+      return updateOwnSavedSearch(input.savedSearchId, ctx.user.id, {
+        is_paused: input.paused,
+        updated_at: new Date().toISOString(),
+      });
+    }),
+
+  /**
+   * Delete a saved search
+   */
+  delete: protectedProcedure
+    .input(z.string().uuid())
+    .mutation(async ({ input: savedSearchId, ctx }) => {
+      if (!supabaseAdmin) throw new Error('Supabase not configured');
+      if (!ctx.user) throw new Error('Not authenticated');
+
+      const { data, error } = await supabaseAdmin
+        .from('saved_searches')
+        .delete()
+        .eq('id', savedSearchId)
+        .eq('user_id', ctx.user.id)
+        .select('id');
+
+      if (error) throw error;
+      if (!data || data.length === 0) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Saved search not found' });
+      }
+
+      return { success: true };
+    }),
+});
+
+/**
+ * Helper: Update one of the user's saved searches
+ */
+async function updateOwnSavedSearch(
+  savedSearchId: string,
+  userId: string,
+  updates: Record<string, any>
+) {
+  const { data, error } = await supabaseAdmin!
+    .from('saved_searches')
+    .update(updates)
+    .eq('id', savedSearchId)
+    .eq('user_id', userId)
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Saved search not found' });
+  }
+
+  return { success: true, savedSearch: data };
+}
+
+export default savedSearchesRouter;
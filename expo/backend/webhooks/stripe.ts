@@ -0,0 +1,274 @@
+/**
+ * Stripe Webhook Endpoint
+ * Verifies Stripe signatures and persists payment and Connect account state transitions
+ */
+
+import { Hono } from 'hono';
+import type Stripe from 'stripe';
+import { supabaseAdmin } from '../../lib/supabase';
+import { stripeService, StripeWebhookHandlers } from '../../services/stripe';
+
+// Postgres unique_violation: the event ID has already been claimed
+const UNIQUE_VIOLATION = '23505';
+
+// A claim still processing after this long belongs to a handler that crashed, so the
+// redelivered event is processed again
+const STALE_CLAIM_MINUTES = 10;
+
+/**
+ * Helper: Resolve the PaymentIntent ID from an expandable Stripe field
+ */
+function paymentIntentIdOf(paymentIntent: string | Stripe.PaymentIntent | null): string | null {
+  if (!paymentIntent) return null;
+  return typeof paymentIntent === 'string' ? paymentIntent : paymentIntent.id;
+}
+
+function latestChargeIdOf(paymentIntent: Stripe.PaymentIntent): string | null {
+  const charge = paymentIntent.latest_charge;
+  if (!charge) return null;
+  return typeof charge === 'string' ? charge : charge.id;
+}
+
+export const stripeWebhookHandlers: StripeWebhookHandlers = {
+  onPaymentSucceeded: async (paymentIntent) => {
+    if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+    const processedAt = new Date().toISOString();
+
+    // A deposit PaymentIntent only succeeds once it has been captured
+    const { error: bookingError } =
+      paymentIntent.metadata?.type === 'security_deposit'
+        ? await supabaseAdmin
+            .from('bookings')
+            .update({ deposit_captured: true })
+            .eq('stripe_deposit_hold_id', paymentIntent.id)
+        : await supabaseAdmin
+            .from('bookings')
+            .update({ payment_status: 'succeeded' })
+            .eq('stripe_payment_intent_id', paymentIntent.id);
+
+    if (bookingError) throw bookingError;
+
+    const { error: paymentError } = await supabaseAdmin
+      .from('payments')
+      .update({
+        status: 'succeeded',
+        stripe_charge_id: latestChargeIdOf(paymentIntent),
+        processed_at: processedAt,
+      })
+      .eq('stripe_payment_intent_id', paymentIntent.id)
+      .in('payment_type', ['rental', 'deposit_capture'])
+      .eq('status', 'pending');
+
+    if (paymentError) throw paymentError;
+  },
+
+  onPaymentFailed: async (paymentIntent) => {
+    if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+    const failureReason =
+      paymentIntent.last_payment_error?.message || 'Payment was declined';
+
+    const { data: bookings, error: bookingError } = await supabaseAdmin
+      .from('bookings')
+      .update({ payment_status: 'failed' })
+      .eq('stripe_payment_intent_id', paymentIntent.id)
+      .select('id, renter_id, listing:listings(title)');
+
+    if (bookingError) throw bookingError;
+
+    const { error: paymentError } = await supabaseAdmin
+      .from('payments')
+      .update({
+        status: 'failed',
+        failure_reason: failureReason,
+        processed_at: new Date().toISOString(),
+      })
+      .eq('stripe_payment_intent_id', paymentIntent.id)
+      .eq('status', 'pending');
+
+    if (paymentError) throw paymentError;
+
+    // Let the renter know they need to update their payment method
+    const booking = bookings?.[0];
+    if (booking) {
+      const { error: notificationError } = await supabaseAdmin.from('notifications').insert({
+        user_id: booking.renter_id,
+        type: 'booking',
+        title: 'Payment failed',
+        message: `Your payment for "${booking.listing.title}" failed: ${failureReason}`,
+        booking_id: booking.id,
+        action_url: `${process.env.APP_URL}/bookings/${booking.id}`,
+        channels: ['push', 'email'],
+      });
+
+      if (notificationError) throw notificationError;
+    }
+  },
+
+  onChargeRefunded: async (charge) => {
+    if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+    const paymentIntentId = paymentIntentIdOf(charge.payment_intent);
+    if (!paymentIntentId) return;
+
+    const fullyRefunded = charge.refunded;
+    const processedAt = new Date().toISOString();
+
+    const { error: bookingError } = await supabaseAdmin
+      .from('bookings')
+      .update({ payment_status: fullyRefunded ? 'refunded' : 'partially_refunded' })
+      .eq('stripe_payment_intent_id', paymentIntentId);
+
+    if (bookingError) throw bookingError;
+
+    // Settle each pending refund row by its own Stripe refund, so a refund still in
+    // flight isn't recorded as succeeded because another one on the charge was
+    for (const refund of await stripeService.listRefunds(charge.id)) {
+      if (refund.status !== 'succeeded' && refund.status !== 'failed') continue;
+
+      const { error: refundError } = await supabaseAdmin
+        .from('payments')
+        .update({ status: refund.status, processed_at: processedAt })
+        .eq('stripe_refund_id', refund.id)
+        .eq('payment_type', 'refund')
+        .eq('status', 'pending');
+
+      if (refundError) throw refundError;
+    }
+
+    if (fullyRefunded) {
+      const { error: rentalError } = await supabaseAdmin
+        .from('payments')
+        .update({ status: 'refunded', processed_at: processedAt })
+        .eq('stripe_payment_intent_id', paymentIntentId)
+        .eq('payment_type', 'rental');
+
+      if (rentalError) throw rentalError;
+    }
+  },
+
+  onAccountUpdated: async (account) => {
+    if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+    const enabled = account.charges_enabled && account.payouts_enabled;
+
+    const { error } = await supabaseAdmin
+      .from('payout_accounts')
+      .update({
+        charges_enabled: account.charges_enabled,
+        payouts_enabled: account.payouts_enabled,
+        stripe_account_status: enabled
+          ? 'enabled'
+          : account.requirements?.disabled_reason
+            ? 'disabled'
+            : 'pending',
+        updated_at: new Date().toISOString(),
+      })
+      .eq('stripe_account_id', account.id);
+
+    if (error) throw error;
+
+    // Stamp onboarding completion the first time details are submitted
+    if (account.details_submitted) {
+      const { error: onboardingError } = await supabaseAdmin
+        .from('payout_accounts')
+        .update({ onboarding_completed_at: new Date().toISOString() })
+        .eq('stripe_account_id', account.id)
+        .is('onboarding_completed_at', null);
+
+      if (onboardingError) throw onboardingError;
+    }
+  },
+};
+
+export const stripeWebhook = new Hono();
+
+/**
+ * POST /webhooks/stripe
+ * Stripe signs the raw request body, so it must be read as text before any parsing
+ */
+stripeWebhook.post('/', async (c) => {
+  if (!supabaseAdmin) {
+    return c.json({ error: 'Supabase not configured' }, 500);
+  }
+
+  const signature = c.req.header('stripe-signature');
+  if (!signature) {
+    return c.json({ error: 'Missing Stripe signature' }, 400);
+  }
+
+  const payload = await c.req.text();
+
+  let event: Stripe.Event;
+  try {
+    event = stripeService.constructWebhookEvent(payload, signature);
+  } catch (error) {
+    console.error('Invalid Stripe webhook signature:', error);
+    return c.json({ error: 'Invalid signature' }, 400);
+  }
+
+  // Claim the event ID so redeliveries are only processed once
+  const { error: claimError } = await supabaseAdmin
+    .from('stripe_webhook_events')
+    .insert({ id: event.id, type: event.type, status: 'processing' });
+
+  if (claimError) {
+    if (claimError.code !== UNIQUE_VIOLATION) {
+      console.error('Error recording Stripe webhook event:', claimError);
+      return c.json({ error: 'Failed to record event' }, 500);
+    }
+
+    // Already processed, or being processed right now, unless its handler crashed
+    const { data: reclaimed, error: reclaimError } = await reclaimStaleEvent(event.id);
+
+    if (reclaimError) {
+      console.error('Error reclaiming Stripe webhook event:', reclaimError);
+      return c.json({ error: 'Failed to record event' }, 500);
+    }
+    if (!reclaimed) {
+      return c.json({ received: true, duplicate: true });
+    }
+  }
+
+  try {
+    await stripeService.handleWebhook(event, stripeWebhookHandlers);
+
+    const { error: processedError } = await supabaseAdmin
+      .from('stripe_webhook_events')
+      .update({ status: 'processed', processed_at: new Date().toISOString() })
+      .eq('id', event.id);
+
+    if (processedError) throw processedError;
+
+    return c.json({ received: true });
+  } catch (error) {
+    console.error(`Error handling Stripe webhook ${event.type}:`, error);
+
+    // Release the claim so Stripe's retry is processed
+    await supabaseAdmin.from('stripe_webhook_events').delete().eq('id', event.id);
+
+    return c.json({ error: 'Webhook handler failed' }, 500);
+  }
+});
+
+/**
+ * Helper: Take over an event whose claim has been processing for too long. The claim's
+ * received_at is reset, so only one redelivery takes it over.
+ */
+async function reclaimStaleEvent(eventId: string) {
+  if (!supabaseAdmin) throw new Error('Supabase not configured');
+
+  const staleBefore = new Date(Date.now() - STALE_CLAIM_MINUTES * 60 * 1000);
+
+  return supabaseAdmin
+    .from('stripe_webhook_events')
+    .update({ received_at: new Date().toISOString() })
+    .eq('id', eventId)
+    .eq('status', 'processing')
+    .lt('received_at', staleBefore.toISOString())
+    .select('id')
+    .maybeSingle();
+}
+
+export default stripeWebhook;
@@ -0,0 +1,307 @@
+import { X } from "lucide-react-native";
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  View,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+import Colors from "@/constants/colors";
+import { clubTypeLabels, conditionLabels, flexLabels } from "@/constants/labels";
+import { trpc } from "@/lib/trpc";
+import type { FacetCount, SearchFilter } from "@/backend/trpc/routes/listings/search";
+
+// The filters the sheet edits
+export type SheetFilters = Omit<SearchFilter, "models" | "city" | "province" | "golfCourseId">;
+
+interface FilterSheetProps {
+  visible: boolean;
+  filters: SheetFilters;
+  // Filters the sheet doesn't edit (location, query, tapped suggestion), so counts match the results
+  context?: Omit<SearchFilter, keyof SheetFilters> & { searchQuery?: string };
+  onApply: (filters: SheetFilters) => void;
+  onClose: () => void;
+}
+
+const LABELS: Record<string, string> = {
+  ...clubTypeLabels,
+  ...flexLabels,
+  ...conditionLabels,
+  right: "Right",
+  left: "Left",
+};
+
+export default function FilterSheet({ visible, filters, context, onApply, onClose }: FilterSheetProps) {
+  const insets = useSafeAreaInsets();
+  const [draft, setDraft] = useState<SheetFilters>(filters);
+
+  // Start from the applied filters each time the sheet opens
+  useEffect(() => {
+    if (visible) setDraft(filters);
+  }, [visible, filters]);
+
+  const { data, isFetching } = trpc.listings.search.useQuery(
+    { ...context, ...draft, limit: 1, includeFacets: true },
+    { enabled: visible, placeholderData: (previous) => previous }
+  );
+  const facets = data?.facets;
+
+  const toggle = <K extends "clubTypes" | "flex" | "conditions" | "brands">(
+    key: K,
+    value: NonNullable<SheetFilters[K]>[number]
+  ) => {
+    setDraft((prev) => {
+      const current = (prev[key] ?? []) as string[];
+      const next = current.includes(value)
+        ? current.filter((v) => v !== value)
+        : [...current, value];
+      return { ...prev, [key]: next.length > 0 ? next : undefined };
+    });
+  };
+
+  const renderChips = <T extends string>(
+    facetCounts: FacetCount<T>[] | undefined,
+    isSelected: (value: T) => boolean,
+    onPress: (value: T) => void
+  ) => (
+    <View style={styles.chips}>
+      {(facetCounts ?? []).map(({ value, count }) => {
+        const selected = isSelected(value);
+        // Keep selected options tappable so they can be cleared
+        const disabled = count === 0 && !selected;
+        return (
+          <Pressable
+            key={value}
+            style={[styles.chip, selected && styles.chipActive, disabled && styles.chipDisabled]}
+            disabled={disabled}
+            onPress={() => onPress(value)}
+          >
+            <Text style={[styles.chipText, selected && styles.chipTextActive]}>
+              {LABELS[value] ?? value} ({count})
+            </Text>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Pressable onPress={onClose} hitSlop={10}>
+            <X size={24} color={Colors.text} />
+          </Pressable>
+          <Text style={styles.headerTitle}>Filters</Text>
+          <Pressable onPress={() => setDraft({})} hitSlop={10}>
+            <Text style={styles.clearText}>Clear</Text>
+          </Pressable>
+        </View>
+
+        {!facets ? (
+          <ActivityIndicator color={Colors.primary} style={styles.loading} />
+        ) : (
+          <ScrollView contentContainerStyle={styles.content}>
+            <Text style={styles.sectionTitle}>Club Type</Text>
+            {renderChips(
+              facets.clubType,
+              (value) => !!draft.clubTypes?.includes(value),
+              (value) => toggle("clubTypes", value)
+            )}
+
+            <Text style={styles.sectionTitle}>Flex</Text>
+            {renderChips(
+              facets.flex,
+              (value) => !!draft.flex?.includes(value),
+              (value) => toggle("flex", value)
+            )}
+
+            <Text style={styles.sectionTitle}>Handedness</Text>
+            {renderChips(
+              facets.handedness,
+              (value) => draft.handedness === value,
+              (value) =>
+                setDraft((prev) => ({
+                  ...prev,
+                  handedness: prev.handedness === value ? undefined : value,
+                }))
+            )}
+
+            <Text style={styles.sectionTitle}>Condition</Text>
+            {renderChips(
+              facets.condition,
+              (value) => !!draft.conditions?.includes(value),
+              (value) => toggle("conditions", value)
+            )}
+
+            <Text style={styles.sectionTitle}>Daily Price</Text>
+            {renderChips(
+              facets.price.map(({ value, count }) => ({ value: `$${value}`, count })),
+              (value) => {
+                const bucket = facets.price.find((b) => `$${b.value}` === value);
+                return draft.priceMin === bucket?.min && draft.priceMax === (bucket?.max ?? undefined);
+              },
+              (value) => {
+                const bucket = facets.price.find((b) => `$${b.value}` === value)!;
+                setDraft((prev) =>
+                  prev.priceMin === bucket.min && prev.priceMax === (bucket.max ?? undefined)
+                    ? { ...prev, priceMin: undefined, priceMax: undefined }
+                    : { ...prev, priceMin: bucket.min, priceMax: bucket.max ?? undefined }
+                );
+              }
+            )}
+
+            {facets.brand.length > 0 && (
+              <>
+                <Text style={styles.sectionTitle}>Brand</Text>
+                {renderChips(
+                  facets.brand,
+                  (value) => !!draft.brands?.some((b) => b.toLowerCase() === value.toLowerCase()),
+                  (value) => toggle("brands", value)
+                )}
+              </>
+            )}
+
+            <View style={styles.switchRow}>
+              <Text style={styles.switchLabel}>Instant booking ({facets.instantBooking})</Text>
+              <Switch
+                value={!!draft.instantBooking}
+                disabled={facets.instantBooking === 0 && !draft.instantBooking}
+                onValueChange={(value) =>
+                  setDraft((prev) => ({ ...prev, instantBooking: value || undefined }))
+                }
+                trackColor={{ true: Colors.primaryLight, false: Colors.border }}
+              />
+            </View>
+
+            <View style={styles.switchRow}>
+              <Text style={styles.switchLabel}>Delivery available ({facets.deliveryAvailable})</Text>
+              <Switch
+                value={!!draft.deliveryAvailable}
+                disabled={facets.deliveryAvailable === 0 && !draft.deliveryAvailable}
+                onValueChange={(value) =>
+                  setDraft((prev) => ({ ...prev, deliveryAvailable: value || undefined }))
+                }
+                trackColor={{ true: Colors.primaryLight, false: Colors.border }}
+              />
+            </View>
+          </ScrollView>
+        )}
+
+        <View style={[styles.footer, { paddingBottom: insets.bottom + 16 }]}>
+          <Pressable style={styles.applyButton} onPress={() => onApply(draft)}>
+            {isFetching ? (
+              <ActivityIndicator color={Colors.background} />
+            ) : (
+              <Text style={styles.applyText}>
+                Show {data?.total ?? 0} {data?.total === 1 ? "club" : "clubs"}
+              </Text>
+            )}
+          </Pressable>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.divider,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "700" as const,
+    color: Colors.text,
+  },
+  clearText: {
+    fontSize: 15,
+    fontWeight: "600" as const,
+    color: Colors.primary,
+  },
+  loading: {
+    paddingVertical: 40,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "700" as const,
+    color: Colors.text,
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 18,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    backgroundColor: Colors.background,
+  },
+  chipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipDisabled: {
+    opacity: 0.4,
+  },
+  chipText: {
+    fontSize: 14,
+    color: Colors.text,
+  },
+  chipTextActive: {
+    color: Colors.background,
+    fontWeight: "600" as const,
+  },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: 12,
+  },
+  switchLabel: {
+    fontSize: 15,
+    color: Colors.text,
+  },
+  footer: {
+    paddingHorizontal: 20,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: Colors.divider,
+  },
+  applyButton: {
+    backgroundColor: Colors.primary,
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: "center",
+  },
+  applyText: {
+    fontSize: 16,
+    fontWeight: "700" as const,
+    color: Colors.background,
+  },
+});
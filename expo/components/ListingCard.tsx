@@ -1,7 +1,7 @@
 import { Image } from "expo-image";
 import { useRouter } from "expo-router";
 import { Heart, MapPin, Star, Zap } from "lucide-react-native";
-import React, { useState } from "react";
+import React from "react";
 import { Pressable, StyleSheet, Text, View, Platform } from "react-native";
 
 import Colors from "@/constants/colors";
@@ -14,10 +14,9 @@ interface ListingCardProps {
 
 export default function ListingCard({ listing, onToggleFavorite }: ListingCardProps) {
   const router = useRouter();
-  const [isFavorite, setIsFavorite] = useState(listing.isFavorite || false);
+  const isFavorite = listing.isFavorite || false;
 
   const handleFavoritePress = () => {
-    setIsFavorite(!isFavorite);
     onToggleFavorite?.(listing.id);
   };
 
@@ -68,7 +67,7 @@ export default function ListingCard({ listing, onToggleFavorite }: ListingCardPr
               <Text style={styles.reviewCount}>({listing.reviewCount})</Text>
             </View>
           </View>
-          {listing.location.distance && (
+          {listing.location.distance != null && (
             <View style={styles.distanceContainer}>
               <MapPin size={12} color={Colors.textLight} />
               <Text style={styles.distance}>{listing.location.distance} km</Text>
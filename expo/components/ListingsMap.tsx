@@ -0,0 +1,205 @@
+import React, { useRef, useState } from "react";
+import { ActivityIndicator, StyleSheet, Text, View } from "react-native";
+import MapView, { Marker, Region, UrlTile } from "react-native-maps";
+
+import ListingCard from "@/components/ListingCard";
+import Colors from "@/constants/colors";
+import { useFavorites } from "@/lib/favorites";
+import { trpc } from "@/lib/trpc";
+import type { SearchFilter } from "@/backend/trpc/routes/listings/search";
+
+const MAPBOX_ACCESS_TOKEN = process.env.EXPO_PUBLIC_MAPBOX_ACCESS_TOKEN;
+const MAPBOX_TILE_URL = `https://api.mapbox.com/styles/v1/mapbox/streets-v12/tiles/256/{z}/{x}/{y}?access_token=${MAPBOX_ACCESS_TOKEN}`;
+
+// Toronto
+const DEFAULT_REGION: Region = {
+  latitude: 43.6532,
+  longitude: -79.3832,
+  latitudeDelta: 0.5,
+  longitudeDelta: 0.5,
+};
+
+interface ListingsMapProps {
+  filters?: SearchFilter & { searchQuery?: string };
+  initialRegion?: Region;
+}
+
+export default function ListingsMap({ filters, initialRegion = DEFAULT_REGION }: ListingsMapProps) {
+  const mapRef = useRef<MapView>(null);
+  const [region, setRegion] = useState<Region>(initialRegion);
+  const [selectedListingId, setSelectedListingId] = useState<string | null>(null);
+  const { isFavorite, toggleFavorite } = useFavorites();
+
+  const { data, isFetching } = trpc.listings.searchInBounds.useQuery(
+    { ...filters, ...toBounds(region) },
+    { placeholderData: (previous) => previous }
+  );
+
+  const selectedListing = data?.listings.find((listing) => listing.id === selectedListingId);
+
+  const handleClusterPress = (latitude: number, longitude: number) => {
+    // Zoom in two levels on the cluster
+    mapRef.current?.animateToRegion({
+      latitude,
+      longitude,
+      latitudeDelta: region.latitudeDelta / 4,
+      longitudeDelta: region.longitudeDelta / 4,
+    });
+  };
+
+  return (
+    <View style={styles.container}>
+      <MapView
+        ref={mapRef}
+        style={styles.map}
+        initialRegion={initialRegion}
+        mapType={MAPBOX_ACCESS_TOKEN ? "none" : "standard"}
+        onRegionChangeComplete={setRegion}
+        onPress={() => setSelectedListingId(null)}
+      >
+        {MAPBOX_ACCESS_TOKEN && <UrlTile urlTemplate={MAPBOX_TILE_URL} maximumZ={19} />}
+
+        {data?.clusters.map((cluster) => (
+          <Marker
+            key={`cluster-${cluster.id}`}
+            coordinate={{ latitude: cluster.latitude, longitude: cluster.longitude }}
+            onPress={() => handleClusterPress(cluster.latitude, cluster.longitude)}
+          >
+            <View style={styles.cluster}>
+              <Text style={styles.clusterCount}>{cluster.count}</Text>
+              <Text style={styles.clusterPrice}>from ${Math.round(cluster.minDailyRate)}</Text>
+            </View>
+          </Marker>
+        ))}
+
+        {data?.listings.map((listing) => (
+          <Marker
+            key={listing.id}
+            coordinate={{ latitude: listing.location.lat, longitude: listing.location.lng }}
+            onPress={(event) => {
+              event.stopPropagation();
+              setSelectedListingId(listing.id);
+            }}
+          >
+            <View style={[styles.pin, listing.id === selectedListingId && styles.pinActive]}>
+              <Text
+                style={[styles.pinText, listing.id === selectedListingId && styles.pinTextActive]}
+              >
+                ${Math.round(listing.pricing.daily)}
+              </Text>
+            </View>
+          </Marker>
+        ))}
+      </MapView>
+
+      {(isFetching || data?.truncated) && (
+        <View style={styles.banner}>
+          {isFetching ? (
+            <ActivityIndicator size="small" color={Colors.primary} />
+          ) : (
+            <Text style={styles.bannerText}>
+              Showing {data?.listings.length} of {data?.total} clubs. Zoom in to see more.
+            </Text>
+          )}
+        </View>
+      )}
+
+      {selectedListing && (
+        <View style={styles.preview}>
+          <ListingCard
+            listing={{ ...selectedListing, isFavorite: isFavorite(selectedListing.id) }}
+            onToggleFavorite={toggleFavorite}
+          />
+        </View>
+      )}
+    </View>
+  );
+}
+
+/**
+ * Helper: Viewport corners and web-mercator zoom of a map region
+ */
+function toBounds(region: Region) {
+  return {
+    ne: {
+      lat: Math.min(region.latitude + region.latitudeDelta / 2, 90),
+      lng: wrapLongitude(region.longitude + region.longitudeDelta / 2),
+    },
+    sw: {
+      lat: Math.max(region.latitude - region.latitudeDelta / 2, -90),
+      lng: wrapLongitude(region.longitude - region.longitudeDelta / 2),
+    },
+    zoom: Math.max(0, Math.min(22, Math.log2(360 / region.longitudeDelta))),
+  };
+}
+
+function wrapLongitude(lng: number): number {
+  return ((((lng + 180) % 360) + 360) % 360) - 180;
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  map: {
+    flex: 1,
+  },
+  cluster: {
+    minWidth: 48,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    borderRadius: 24,
+    backgroundColor: Colors.primary,
+    borderWidth: 2,
+    borderColor: Colors.background,
+    alignItems: "center",
+  },
+  clusterCount: {
+    fontSize: 15,
+    fontWeight: "800" as const,
+    color: Colors.background,
+  },
+  clusterPrice: {
+    fontSize: 10,
+    color: "rgba(255,255,255,0.9)",
+  },
+  pin: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: Colors.background,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  pinActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  pinText: {
+    fontSize: 13,
+    fontWeight: "700" as const,
+    color: Colors.text,
+  },
+  pinTextActive: {
+    color: Colors.background,
+  },
+  banner: {
+    position: "absolute",
+    top: 12,
+    alignSelf: "center",
+    backgroundColor: Colors.background,
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  bannerText: {
+    fontSize: 13,
+    color: Colors.text,
+  },
+  preview: {
+    position: "absolute",
+    left: 20,
+    right: 20,
+    bottom: 20,
+  },
+});
@@ -0,0 +1,37 @@
+import { MapPin } from "lucide-react-native";
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+
+import Colors from "@/constants/colors";
+
+// react-native-maps has no web implementation; the map view is native only
+export default function ListingsMap() {
+  return (
+    <View style={styles.container}>
+      <MapPin size={32} color={Colors.textLight} />
+      <Text style={styles.title}>Map view is available in the mobile app</Text>
+      <Text style={styles.text}>Switch back to the list to browse clubs on the web.</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    paddingHorizontal: 40,
+    gap: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "700" as const,
+    color: Colors.text,
+    textAlign: "center",
+  },
+  text: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    textAlign: "center",
+  },
+});
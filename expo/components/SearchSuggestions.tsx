@@ -0,0 +1,140 @@
+import { Building2, Flag, MapPin, Search, Tag } from "lucide-react-native";
+import React, { useEffect, useState } from "react";
+import { ActivityIndicator, Pressable, StyleSheet, Text, View } from "react-native";
+
+import Colors from "@/constants/colors";
+import { trpc } from "@/lib/trpc";
+import type { SearchSuggestion } from "@/backend/trpc/routes/listings/search";
+
+// Wait for the user to pause typing before asking the server
+const DEBOUNCE_MS = 200;
+const MIN_PREFIX_LENGTH = 2;
+
+interface SearchSuggestionsProps {
+  query: string;
+  onSelect: (suggestion: SearchSuggestion) => void;
+}
+
+const SECTIONS = [
+  { key: "brands", title: "Brands", Icon: Tag },
+  { key: "models", title: "Models", Icon: Search },
+  { key: "clubTypes", title: "Club Types", Icon: Flag },
+  { key: "cities", title: "Cities", Icon: Building2 },
+  { key: "golfCourses", title: "Golf Courses", Icon: MapPin },
+] as const;
+
+export default function SearchSuggestions({ query, onSelect }: SearchSuggestionsProps) {
+  const [prefix, setPrefix] = useState(query.trim());
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setPrefix(query.trim()), DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const { data, isFetching } = trpc.listings.suggest.useQuery(prefix, {
+    enabled: prefix.length >= MIN_PREFIX_LENGTH,
+    placeholderData: (previous) => previous,
+    staleTime: 60 * 1000,
+  });
+
+  if (prefix.length < MIN_PREFIX_LENGTH) return null;
+
+  const sections = SECTIONS.filter((section) => (data?.[section.key].length ?? 0) > 0);
+
+  if (sections.length === 0) {
+    return (
+      <View style={styles.container}>
+        {isFetching ? (
+          <ActivityIndicator color={Colors.primary} style={styles.loading} />
+        ) : (
+          <Text style={styles.emptyText}>{`No suggestions for "${prefix}"`}</Text>
+        )}
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {sections.map(({ key, title, Icon }) => (
+        <View key={key} style={styles.section}>
+          <Text style={styles.sectionTitle}>{title}</Text>
+          {data![key].map((suggestion) => (
+            <Pressable
+              key={`${key}-${suggestion.label}`}
+              style={({ pressed }) => [styles.row, pressed && styles.rowPressed]}
+              onPress={() => onSelect(suggestion)}
+            >
+              <Icon size={16} color={Colors.textSecondary} />
+              <View style={styles.rowText}>
+                <Text style={styles.label} numberOfLines={1}>
+                  {suggestion.label}
+                </Text>
+                {suggestion.detail && (
+                  <Text style={styles.detail} numberOfLines={1}>
+                    {suggestion.detail}
+                  </Text>
+                )}
+              </View>
+              <Text style={styles.count}>{suggestion.count}</Text>
+            </Pressable>
+          ))}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: Colors.background,
+    borderRadius: 12,
+    paddingVertical: 8,
+    marginBottom: 16,
+  },
+  loading: {
+    paddingVertical: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  section: {
+    paddingVertical: 4,
+  },
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: "700" as const,
+    color: Colors.textLight,
+    textTransform: "uppercase",
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  rowPressed: {
+    backgroundColor: Colors.surface,
+  },
+  rowText: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 15,
+    color: Colors.text,
+  },
+  detail: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+  },
+  count: {
+    fontSize: 13,
+    fontWeight: "600" as const,
+    color: Colors.textSecondary,
+  },
+});
@@ -0,0 +1,139 @@
+/**
+ * Booking Domain
+ * Bookings as seen by the renter and owner, mapped from bookings rows
+ */
+
+import { z } from 'zod';
+import type { Database } from '../../types/database';
+import { bookingStatusSchema, fromDbEnum, paymentStatusSchema, toDbEnum } from './enums';
+import { listingFromRow, listingSchema, type ListingRow } from './listing';
+import { userFromRow, userSchema, type UserRow } from './user';
+
+type BookingsTable = Database['public']['Tables']['bookings'];
+
+export const bookingSchema = z.object({
+  id: z.string(),
+  listingId: z.string(),
+  renterId: z.string(),
+  ownerId: z.string(),
+  startDate: z.string(),
+  endDate: z.string(),
+  rentalDays: z.number(),
+  status: bookingStatusSchema,
+  paymentStatus: paymentStatusSchema,
+  pricing: z.object({
+    dailyRate: z.number(),
+    rentalFee: z.number(),
+    serviceFee: z.number(),
+    deliveryFee: z.number(),
+    deposit: z.number(),
+    total: z.number(),
+  }),
+  depositReleased: z.boolean(),
+  pickup: z.object({
+    method: z.string().optional(),
+    address: z.string().optional(),
+    deliveryAddress: z.string().optional(),
+    instructions: z.string().optional(),
+  }),
+  renterMessage: z.string().optional(),
+  declineReason: z.string().optional(),
+  cancellationReason: z.string().optional(),
+  reviewed: z.object({
+    renter: z.boolean(),
+    owner: z.boolean(),
+  }),
+  createdAt: z.string(),
+  confirmedAt: z.string().optional(),
+  cancelledAt: z.string().optional(),
+  pickedUpAt: z.string().optional(),
+  returnedAt: z.string().optional(),
+  completedAt: z.string().optional(),
+  // Present when the router joins them
+  listing: listingSchema.optional(),
+  renter: userSchema.optional(),
+  owner: userSchema.optional(),
+});
+
+export type Booking = z.infer<typeof bookingSchema>;
+
+export type BookingRow = BookingsTable['Row'] & {
+  listing?: ListingRow | null;
+  renter?: UserRow | null;
+  owner?: UserRow | null;
+};
+
+/**
+ * Map a bookings row, with any joined listing and profiles, to a Booking
+ */
+export function bookingFromRow(row: BookingRow): Booking {
+  return {
+    id: row.id,
+    listingId: row.listing_id,
+    renterId: row.renter_id,
+    ownerId: row.owner_id,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    rentalDays: row.rental_days,
+    status: fromDbEnum(row.status),
+    paymentStatus: fromDbEnum(row.payment_status),
+    pricing: {
+      dailyRate: Number(row.daily_rate),
+      rentalFee: Number(row.total_rental_fee),
+      serviceFee: Number(row.service_fee),
+      deliveryFee: Number(row.delivery_fee ?? 0),
+      deposit: Number(row.security_deposit),
+      total: Number(row.total_amount),
+    },
+    depositReleased: row.deposit_released,
+    pickup: {
+      method: row.pickup_method ?? undefined,
+      address: row.pickup_address ?? undefined,
+      deliveryAddress: row.delivery_address ?? undefined,
+      instructions: row.pickup_instructions ?? undefined,
+    },
+    renterMessage: row.renter_message ?? undefined,
+    declineReason: row.owner_decline_reason ?? undefined,
+    cancellationReason: row.cancellation_reason ?? undefined,
+    reviewed: {
+      renter: row.renter_reviewed,
+      owner: row.owner_reviewed,
+    },
+    createdAt: row.created_at,
+    confirmedAt: row.confirmed_at ?? undefined,
+    cancelledAt: row.cancelled_at ?? undefined,
+    pickedUpAt: row.picked_up_at ?? undefined,
+    returnedAt: row.returned_at ?? undefined,
+    completedAt: row.completed_at ?? undefined,
+    listing: row.listing ? listingFromRow(row.listing) : undefined,
+    renter: row.renter ? userFromRow(row.renter) : undefined,
+    owner: row.owner ? userFromRow(row.owner) : undefined,
+  };
+}
+
+/**
+ * Map Booking fields to a bookings update. Pricing, dates and pickup details are
+ * fixed when the booking is reserved and are never written from here.
+ */
+export function bookingToRow(booking: Partial<Booking>): BookingsTable['Update'] {
+  const row: BookingsTable['Update'] = {};
+
+  if (booking.status !== undefined) row.status = toDbEnum(booking.status);
+  if (booking.paymentStatus !== undefined) row.payment_status = toDbEnum(booking.paymentStatus);
+  if (booking.depositReleased !== undefined) row.deposit_released = booking.depositReleased;
+  if (booking.declineReason !== undefined) row.owner_decline_reason = booking.declineReason;
+  if (booking.cancellationReason !== undefined) {
+    row.cancellation_reason = booking.cancellationReason;
+  }
+  if (booking.reviewed) {
+    row.renter_reviewed = booking.reviewed.renter;
+    row.owner_reviewed = booking.reviewed.owner;
+  }
+  if (booking.confirmedAt !== undefined) row.confirmed_at = booking.confirmedAt;
+  if (booking.cancelledAt !== undefined) row.cancelled_at = booking.cancelledAt;
+  if (booking.pickedUpAt !== undefined) row.picked_up_at = booking.pickedUpAt;
+  if (booking.returnedAt !== undefined) row.returned_at = booking.returnedAt;
+  if (booking.completedAt !== undefined) row.completed_at = booking.completedAt;
+
+  return row;
+}
@@ -0,0 +1,74 @@
+/**
+ * Domain Enums
+ * The app and the API use kebab-case values ("fairway-wood"); the Postgres enums
+ * use snake_case ("fairway_wood"). Convert only at the database boundary.
+ */
+
+import { z } from 'zod';
+
+export const CLUB_TYPES = [
+  'driver',
+  'fairway-wood',
+  'hybrid',
+  'iron-set',
+  'wedge-set',
+  'putter',
+  'complete-set',
+] as const;
+
+export const FLEXES = ['extra-stiff', 'stiff', 'regular', 'senior', 'ladies'] as const;
+export const HANDEDNESS = ['right', 'left'] as const;
+export const CONDITIONS = ['excellent', 'very-good', 'good', 'fair'] as const;
+
+export const BOOKING_STATUSES = [
+  'pending',
+  'confirmed',
+  'in-progress',
+  'completed',
+  'cancelled',
+  'declined',
+] as const;
+
+export const PAYMENT_STATUSES = [
+  'pending',
+  'succeeded',
+  'failed',
+  'refunded',
+  'partially-refunded',
+] as const;
+
+export const clubTypeSchema = z.enum(CLUB_TYPES);
+export const flexSchema = z.enum(FLEXES);
+export const handednessSchema = z.enum(HANDEDNESS);
+export const conditionSchema = z.enum(CONDITIONS);
+export const bookingStatusSchema = z.enum(BOOKING_STATUSES);
+export const paymentStatusSchema = z.enum(PAYMENT_STATUSES);
+
+export type ClubType = z.infer<typeof clubTypeSchema>;
+export type Flex = z.infer<typeof flexSchema>;
+export type Handedness = z.infer<typeof handednessSchema>;
+export type ConditionType = z.infer<typeof conditionSchema>;
+export type BookingStatus = z.infer<typeof bookingStatusSchema>;
+export type PaymentStatus = z.infer<typeof paymentStatusSchema>;
+
+export type DbEnum<T extends string> = T extends `${infer Head}-${infer Tail}`
+  ? `${Head}_${DbEnum<Tail>}`
+  : T;
+
+export type DomainEnum<T extends string> = T extends `${infer Head}_${infer Tail}`
+  ? `${Head}-${DomainEnum<Tail>}`
+  : T;
+
+/**
+ * Convert a domain enum value to its database spelling
+ */
+export function toDbEnum<T extends string>(value: T): DbEnum<T> {
+  return value.replace(/-/g, '_') as DbEnum<T>;
+}
+
+/**
+ * Convert a database enum value to its domain spelling
+ */
+export function fromDbEnum<T extends string>(value: T): DomainEnum<T> {
+  return value.replace(/_/g, '-') as DomainEnum<T>;
+}
@@ -0,0 +1,12 @@
+/**
+ * Domain Types
+ * Zod schemas for the shapes the API returns and the app renders, with mappers
+ * to and from database rows. Routers map rows on the way out; the app never
+ * sees a database row.
+ */
+
+export * from './enums';
+export * from './user';
+export * from './listing';
+export * from './booking';
+export * from './review';
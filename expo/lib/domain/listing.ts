@@ -0,0 +1,183 @@
+/**
+ * Listing Domain
+ * The Listing shown by the app, mapped from listings rows with their owner and photos
+ */
+
+import { z } from 'zod';
+import type { Database } from '../../types/database';
+import {
+  clubTypeSchema,
+  conditionSchema,
+  flexSchema,
+  fromDbEnum,
+  handednessSchema,
+  toDbEnum,
+} from './enums';
+import { userFromRow, userSchema, type UserRow } from './user';
+
+type ListingsTable = Database['public']['Tables']['listings'];
+
+export const locationSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  address: z.string(),
+  city: z.string(),
+  province: z.string(),
+  lat: z.number(),
+  lng: z.number(),
+  distance: z.number().optional(),
+});
+
+export const listingSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string(),
+  clubType: clubTypeSchema,
+  brand: z.string(),
+  model: z.string().optional(),
+  year: z.number().optional(),
+  handedness: handednessSchema,
+  flex: flexSchema.optional(),
+  condition: conditionSchema,
+  photos: z.array(z.string()),
+  pricing: z.object({
+    daily: z.number(),
+    weekly: z.number().optional(),
+    deposit: z.number(),
+  }),
+  location: locationSchema,
+  owner: userSchema,
+  rating: z.number(),
+  reviewCount: z.number(),
+  features: z.object({
+    instantBooking: z.boolean(),
+    deliveryAvailable: z.boolean(),
+    bagIncluded: z.boolean(),
+  }),
+  availability: z.object({
+    minDays: z.number(),
+    maxDays: z.number(),
+    advanceNotice: z.number(),
+  }),
+  whatsIncluded: z.array(z.string()),
+  createdAt: z.string(),
+  isDraft: z.boolean().optional(),
+  isFavorite: z.boolean().optional(),
+});
+
+export type Location = z.infer<typeof locationSchema>;
+export type Listing = z.infer<typeof listingSchema>;
+
+// A listings row as selected by the routers: owner and photos joined, and the
+// coordinates and distance added by the search functions
+export type ListingRow = ListingsTable['Row'] & {
+  owner?: UserRow | null;
+  photos?: { url: string; position: number; is_primary: boolean }[] | null;
+  golf_course?: { name: string } | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  distance_km?: number | null;
+};
+
+/**
+ * Map a listings row to a Listing
+ */
+export function listingFromRow(row: ListingRow, isFavorite?: boolean): Listing {
+  const photos = [...(row.photos ?? [])]
+    .sort((a, b) => Number(b.is_primary) - Number(a.is_primary) || a.position - b.position)
+    .map((photo) => photo.url);
+
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description,
+    clubType: fromDbEnum(row.club_type),
+    brand: row.brand,
+    model: row.model ?? undefined,
+    year: row.year ?? undefined,
+    handedness: row.handedness,
+    flex: row.flex ? fromDbEnum(row.flex) : undefined,
+    condition: fromDbEnum(row.condition),
+    photos,
+    pricing: {
+      daily: Number(row.daily_rate),
+      weekly: row.weekly_rate != null ? Number(row.weekly_rate) : undefined,
+      deposit: Number(row.security_deposit),
+    },
+    location: {
+      id: row.golf_course_id ?? row.id,
+      name: row.golf_course?.name || row.neighborhood || row.city,
+      address: row.address ?? '',
+      city: row.city,
+      province: row.province,
+      lat: row.latitude ?? 0,
+      lng: row.longitude ?? 0,
+      distance: row.distance_km ?? undefined,
+    },
+    owner: userFromRow(row.owner ?? { id: row.owner_id }, `${row.city}, ${row.province}`),
+    rating: Number(row.average_rating ?? 0),
+    reviewCount: row.total_reviews ?? 0,
+    features: {
+      instantBooking: !!row.instant_booking,
+      deliveryAvailable: !!row.delivery_available,
+      bagIncluded: !!row.includes_bag,
+    },
+    availability: {
+      minDays: row.minimum_rental_days ?? 1,
+      maxDays: row.maximum_rental_days ?? 0,
+      advanceNotice: row.advance_notice_days ?? 0,
+    },
+    whatsIncluded: row.accessories ?? [],
+    createdAt: row.created_at,
+    isDraft: row.is_draft,
+    isFavorite,
+  };
+}
+
+/**
+ * Map Listing fields to a listings update. Fields left undefined are not written;
+ * photos, owner and ratings live elsewhere and are never written from here.
+ */
+export function listingToRow(listing: Partial<Listing>): ListingsTable['Update'] {
+  const row: ListingsTable['Update'] = {};
+
+  if (listing.title !== undefined) row.title = listing.title;
+  if (listing.description !== undefined) row.description = listing.description;
+  if (listing.clubType !== undefined) row.club_type = toDbEnum(listing.clubType);
+  if (listing.brand !== undefined) row.brand = listing.brand;
+  if (listing.model !== undefined) row.model = listing.model;
+  if (listing.year !== undefined) row.year = listing.year;
+  if (listing.handedness !== undefined) row.handedness = listing.handedness;
+  if (listing.flex !== undefined) row.flex = toDbEnum(listing.flex);
+  if (listing.condition !== undefined) row.condition = toDbEnum(listing.condition);
+  if (listing.whatsIncluded !== undefined) row.accessories = listing.whatsIncluded;
+  if (listing.isDraft !== undefined) row.is_draft = listing.isDraft;
+
+  if (listing.pricing) {
+    row.daily_rate = listing.pricing.daily;
+    row.weekly_rate = listing.pricing.weekly ?? null;
+    row.security_deposit = listing.pricing.deposit;
+  }
+
+  if (listing.location) {
+    row.address = listing.location.address || null;
+    row.city = listing.location.city;
+    row.province = listing.location.province;
+    row.location = `SRID=4326;POINT(${listing.location.lng} ${listing.location.lat})`;
+  }
+
+  if (listing.features) {
+    row.instant_booking = listing.features.instantBooking;
+    row.delivery_available = listing.features.deliveryAvailable;
+    row.includes_bag = listing.features.bagIncluded;
+  }
+
+  if (listing.availability) {
+    row.minimum_rental_days = listing.availability.minDays;
+    // 0 means no maximum
+    row.maximum_rental_days = listing.availability.maxDays || null;
+    row.advance_notice_days = listing.availability.advanceNotice;
+  }
+
+  return row;
+}
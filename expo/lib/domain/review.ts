@@ -0,0 +1,109 @@
+/**
+ * Review Domain
+ * Published reviews of listings and renters, mapped from reviews rows.
+ * Private feedback is for the platform only and is never mapped out.
+ */
+
+import { z } from 'zod';
+import type { Database } from '../../types/database';
+import { userFromRow, userSchema, type UserRow } from './user';
+
+type ReviewsTable = Database['public']['Tables']['reviews'];
+
+const ratingSchema = z.number().min(1).max(5);
+
+export const reviewSchema = z.object({
+  id: z.string(),
+  bookingId: z.string(),
+  reviewerId: z.string(),
+  revieweeId: z.string(),
+  listingId: z.string().optional(),
+  type: z.enum(['listing', 'renter']),
+  rating: ratingSchema,
+  // Listing reviews rate the equipment; renter reviews rate the renter
+  ratings: z.object({
+    equipmentQuality: ratingSchema.optional(),
+    cleanliness: ratingSchema.optional(),
+    communication: ratingSchema.optional(),
+    accuracy: ratingSchema.optional(),
+    value: ratingSchema.optional(),
+    respect: ratingSchema.optional(),
+    timeliness: ratingSchema.optional(),
+    conditionOnReturn: ratingSchema.optional(),
+  }),
+  text: z.string().optional(),
+  ownerResponse: z.string().optional(),
+  respondedAt: z.string().optional(),
+  createdAt: z.string(),
+  publishedAt: z.string().optional(),
+  // Present when the router joins them
+  reviewer: userSchema.optional(),
+  listing: z.object({ id: z.string(), title: z.string() }).optional(),
+});
+
+export type Review = z.infer<typeof reviewSchema>;
+
+export type ReviewRow = ReviewsTable['Row'] & {
+  reviewer?: UserRow | null;
+  listing?: { id: string; title: string } | null;
+};
+
+/**
+ * Map a reviews row, with any joined reviewer and listing, to a Review
+ */
+export function reviewFromRow(row: ReviewRow): Review {
+  return {
+    id: row.id,
+    bookingId: row.booking_id,
+    reviewerId: row.reviewer_id,
+    revieweeId: row.reviewee_id,
+    listingId: row.listing_id ?? undefined,
+    type: row.review_type,
+    rating: Number(row.overall_rating),
+    ratings: {
+      equipmentQuality: row.equipment_quality_rating ?? undefined,
+      cleanliness: row.cleanliness_rating ?? undefined,
+      communication: row.communication_rating ?? undefined,
+      accuracy: row.accuracy_rating ?? undefined,
+      value: row.value_rating ?? undefined,
+      respect: row.respect_rating ?? undefined,
+      timeliness: row.timeliness_rating ?? undefined,
+      conditionOnReturn: row.condition_on_return_rating ?? undefined,
+    },
+    text: row.review_text ?? undefined,
+    ownerResponse: row.owner_response ?? undefined,
+    respondedAt: row.response_created_at ?? undefined,
+    createdAt: row.created_at,
+    publishedAt: row.published_at ?? undefined,
+    reviewer: row.reviewer ? userFromRow(row.reviewer) : undefined,
+    listing: row.listing
+      ? { id: row.listing.id, title: row.listing.title }
+      : undefined,
+  };
+}
+
+/**
+ * Map a new Review to a reviews insert
+ */
+export function reviewToRow(
+  review: Pick<Review, 'bookingId' | 'reviewerId' | 'revieweeId' | 'type' | 'rating' | 'ratings'> &
+    Partial<Pick<Review, 'listingId' | 'text'>>
+): ReviewsTable['Insert'] {
+  return {
+    booking_id: review.bookingId,
+    reviewer_id: review.reviewerId,
+    reviewee_id: review.revieweeId,
+    listing_id: review.listingId ?? null,
+    review_type: review.type,
+    overall_rating: review.rating,
+    equipment_quality_rating: review.ratings.equipmentQuality ?? null,
+    cleanliness_rating: review.ratings.cleanliness ?? null,
+    communication_rating: review.ratings.communication ?? null,
+    accuracy_rating: review.ratings.accuracy ?? null,
+    value_rating: review.ratings.value ?? null,
+    respect_rating: review.ratings.respect ?? null,
+    timeliness_rating: review.ratings.timeliness ?? null,
+    condition_on_return_rating: review.ratings.conditionOnReturn ?? null,
+    review_text: review.text ?? null,
+  };
+}
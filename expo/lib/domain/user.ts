@@ -0,0 +1,120 @@
+/**
+ * User Domain
+ * Public user cards and the signed-in user's profile, mapped from profiles rows
+ */
+
+import { z } from 'zod';
+import type { Database } from '../../types/database';
+
+type ProfileRow = Database['public']['Tables']['profiles']['Row'];
+type ProfileUpdate = Database['public']['Tables']['profiles']['Update'];
+
+export const userSchema = z.object({
+  id: z.string(),
+  firstName: z.string(),
+  lastName: z.string(),
+  avatar: z.string().optional(),
+  rating: z.number(),
+  reviewCount: z.number(),
+  verified: z.object({
+    email: z.boolean(),
+    phone: z.boolean(),
+    id: z.boolean(),
+    payment: z.boolean(),
+  }),
+  joinedDate: z.string(),
+  location: z.string(),
+});
+
+export const profileSchema = userSchema.extend({
+  // Null when another user's profile hides them
+  email: z.string().nullable(),
+  phoneNumber: z.string().nullable(),
+  bio: z.string().optional(),
+  role: z.enum(['renter', 'owner', 'both']),
+  experienceLevel: z.enum(['beginner', 'intermediate', 'advanced']).optional(),
+  handicap: z.number().optional(),
+  homeCourse: z
+    .object({
+      id: z.string(),
+      name: z.string(),
+      city: z.string(),
+      province: z.string(),
+    })
+    .optional(),
+  showEmail: z.boolean(),
+  showPhone: z.boolean(),
+});
+
+export type User = z.infer<typeof userSchema>;
+export type Profile = z.infer<typeof profileSchema>;
+
+// Joined profiles usually select only some columns
+export type UserRow = Pick<ProfileRow, 'id'> & Partial<ProfileRow>;
+
+/**
+ * Map a (possibly partial) profiles row to a public user card
+ */
+export function userFromRow(row: UserRow, location = ''): User {
+  const verification = row.verification_levels ?? [];
+
+  return {
+    id: row.id,
+    firstName: row.first_name ?? '',
+    lastName: row.last_name ?? '',
+    avatar: row.avatar_url ?? undefined,
+    rating: Number(row.overall_rating ?? 0),
+    reviewCount: row.total_reviews ?? 0,
+    verified: {
+      email: verification.includes('email'),
+      phone: verification.includes('phone'),
+      id: verification.includes('id'),
+      payment: verification.includes('payment'),
+    },
+    joinedDate: row.created_at ?? '',
+    location,
+  };
+}
+
+/**
+ * Map a full profiles row, with its home course joined, to a profile
+ */
+export function profileFromRow(
+  row: ProfileRow & { home_course?: Profile['homeCourse'] | null }
+): Profile {
+  const homeCourse = row.home_course ?? undefined;
+
+  return {
+    ...userFromRow(row, homeCourse ? `${homeCourse.city}, ${homeCourse.province}` : ''),
+    email: row.email ?? null,
+    phoneNumber: row.phone_number ?? null,
+    bio: row.bio ?? undefined,
+    role: row.role,
+    experienceLevel: row.experience_level ?? undefined,
+    handicap: row.handicap ?? undefined,
+    homeCourse,
+    showEmail: row.show_email,
+    showPhone: row.show_phone,
+  };
+}
+
+/**
+ * Map profile fields to a profiles update. Fields left undefined are not written.
+ */
+export function userToRow(
+  profile: Partial<Omit<Profile, 'homeCourse'>> & { homeCourseId?: string }
+): ProfileUpdate {
+  const row: ProfileUpdate = {};
+
+  if (profile.firstName !== undefined) row.first_name = profile.firstName;
+  if (profile.lastName !== undefined) row.last_name = profile.lastName;
+  if (profile.avatar !== undefined) row.avatar_url = profile.avatar;
+  if (profile.bio !== undefined) row.bio = profile.bio;
+  if (profile.experienceLevel !== undefined) row.experience_level = profile.experienceLevel;
+  if (profile.handicap !== undefined) row.handicap = profile.handicap;
+  if (profile.homeCourseId !== undefined) row.home_course_id = profile.homeCourseId;
+  if (profile.showEmail !== undefined) row.show_email = profile.showEmail;
+  if (profile.showPhone !== undefined) row.show_phone = profile.showPhone;
+
+  return row;
+}
@@ -0,0 +1,48 @@
+import { useState } from "react";
+import { Alert } from "react-native";
+
+import { trpc } from "@/lib/trpc";
+
+/**
+ * The signed-in user's favorites, with optimistic toggling. Signed-out users are
+ * asked to sign in instead of the toggle failing silently.
+ */
+export function useFavorites() {
+  const utils = trpc.useUtils();
+  // Toggles waiting on the server, by listing ID
+  const [pending, setPending] = useState<Record<string, boolean>>({});
+
+  const favoritesQuery = trpc.listings.getFavorites.useQuery(undefined, {
+    retry: false,
+    staleTime: 60 * 1000,
+  });
+
+  const isSignedOut = favoritesQuery.error?.data?.code === "UNAUTHORIZED";
+
+  const toggleMutation = trpc.listings.toggleFavorite.useMutation({
+    onError: (error) => {
+      Alert.alert("Couldn't update favorites", error.message);
+    },
+    onSettled: async (_data, _error, { listingId }) => {
+      await utils.listings.getFavorites.invalidate();
+      setPending(({ [listingId]: _settled, ...rest }) => rest);
+    },
+  });
+
+  const favoriteIds = new Set((favoritesQuery.data ?? []).map((listing) => listing.id));
+
+  const isFavorite = (listingId: string) =>
+    listingId in pending ? pending[listingId] : favoriteIds.has(listingId);
+
+  const toggleFavorite = (listingId: string) => {
+    if (isSignedOut) {
+      Alert.alert("Sign in required", "Sign in to save clubs to your favorites.");
+      return;
+    }
+
+    setPending((prev) => ({ ...prev, [listingId]: !isFavorite(listingId) }));
+    toggleMutation.mutate({ listingId });
+  };
+
+  return { favoritesQuery, isSignedOut, isFavorite, toggleFavorite };
+}
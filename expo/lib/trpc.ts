@@ -1,6 +1,7 @@
 import { createTRPCReact } from "@trpc/react-query";
 import { httpLink } from "@trpc/client";
 import type { AppRouter } from "@/backend/trpc/app-router";
+import { supabase } from "@/lib/supabase";
 import superjson from "superjson";
 
 export const trpc = createTRPCReact<AppRouter>();
@@ -20,6 +21,12 @@ export const trpcClient = trpc.createClient({
     httpLink({
       url: `${getBaseUrl()}/api/trpc`,
       transformer: superjson,
+      // Protected procedures read the Supabase access token from this header
+      async headers() {
+        const { data } = await supabase.auth.getSession();
+        const token = data.session?.access_token;
+        return token ? { authorization: `Bearer ${token}` } : {};
+      },
     }),
   ],
 });
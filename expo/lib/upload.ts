@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { Platform } from "react-native";
+import type { inferRouterInputs, inferRouterOutputs } from "@trpc/server";
+
+import type { AppRouter } from "@/backend/trpc/app-router";
+import { trpc } from "@/lib/trpc";
+
+export type UploadTarget = inferRouterInputs<AppRouter>["media"]["confirmUpload"]["target"];
+type UploadSignature = inferRouterOutputs<AppRouter>["media"]["getUploadSignature"];
+
+// An image picked with expo-image-picker (or anything with a local URI)
+export interface LocalImage {
+  uri: string;
+  mimeType?: string | null;
+  fileName?: string | null;
+}
+
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1000;
+const UPLOAD_TIMEOUT_MS = 60 * 1000;
+
+class UploadError extends Error {
+  constructor(message: string, readonly retryable: boolean) {
+    super(message);
+  }
+}
+
+/**
+ * Upload images straight to Cloudinary, then link them through media.confirmUpload.
+ * Progress (0–1) is tracked per image URI while its upload is running.
+ */
+export function useMediaUpload() {
+  const utils = trpc.useUtils();
+  const [progress, setProgress] = useState<Record<string, number>>({});
+
+  const signatureMutation = trpc.media.getUploadSignature.useMutation();
+  const confirmMutation = trpc.media.confirmUpload.useMutation({
+    onSuccess: async (_data, { target }) => {
+      if (target.type === "listing") {
+        await utils.listings.getById.invalidate(target.listingId);
+      } else if (target.type === "avatar") {
+        await utils.auth.getProfile.invalidate();
+      }
+    },
+  });
+
+  const upload = async (image: LocalImage, target: UploadTarget) => {
+    setProgress((prev) => ({ ...prev, [image.uri]: 0 }));
+
+    try {
+      const signature = await signatureMutation.mutateAsync({ purpose: target.type });
+
+      const publicId = await withRetry(() =>
+        postToCloudinary(image, signature, (fraction) =>
+          setProgress((prev) => ({ ...prev, [image.uri]: fraction }))
+        )
+      );
+
+      return await confirmMutation.mutateAsync({ publicId, target });
+    } finally {
+      setProgress(({ [image.uri]: _finished, ...rest }) => rest);
+    }
+  };
+
+  return { upload, progress, isUploading: Object.keys(progress).length > 0 };
+}
+
+/**
+ * Retry network failures and server errors, waiting longer after each attempt
+ */
+async function withRetry<T>(attempt: () => Promise<T>): Promise<T> {
+  for (let attemptNumber = 1; ; attemptNumber++) {
+    try {
+      return await attempt();
+    } catch (error) {
+      const retryable = error instanceof UploadError && error.retryable;
+      if (!retryable || attemptNumber >= MAX_ATTEMPTS) throw error;
+
+      await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS * 2 ** (attemptNumber - 1)));
+    }
+  }
+}
+
+/**
+ * POST one image to Cloudinary's signed upload endpoint. XMLHttpRequest rather
+ * than fetch, since fetch doesn't report upload progress in React Native.
+ */
+async function postToCloudinary(
+  image: LocalImage,
+  signature: UploadSignature,
+  onProgress: (fraction: number) => void
+): Promise<string> {
+  const type = image.mimeType ?? "image/jpeg";
+  const name = image.fileName ?? `upload.${type.split("/")[1] ?? "jpg"}`;
+
+  const body = new FormData();
+  if (Platform.OS === "web") {
+    body.append("file", await (await fetch(image.uri)).blob(), name);
+  } else {
+    // React Native reads the file from the URI when it sends the request
+    body.append("file", { uri: image.uri, name, type } as unknown as Blob);
+  }
+  body.append("api_key", signature.apiKey);
+  body.append("timestamp", String(signature.timestamp));
+  body.append("signature", signature.signature);
+  body.append("folder", signature.folder);
+  body.append("upload_preset", signature.uploadPreset);
+
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", `https://api.cloudinary.com/v1_1/${signature.cloudName}/image/upload`);
+    xhr.timeout = UPLOAD_TIMEOUT_MS;
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress(event.loaded / event.total);
+    };
+
+    xhr.onload = () => {
+      let response: { public_id?: string; error?: { message?: string } } = {};
+      try {
+        response = JSON.parse(xhr.responseText);
+      } catch {
+        // Reported below by status
+      }
+
+      if (xhr.status >= 200 && xhr.status < 300 && response.public_id) {
+        onProgress(1);
+        resolve(response.public_id);
+        return;
+      }
+
+      // A rejected signature or file fails the same way every time
+      const retryable = xhr.status >= 500 || xhr.status === 429;
+      reject(new UploadError(response.error?.message ?? `Upload failed (${xhr.status})`, retryable));
+    };
+
+    xhr.onerror = () => reject(new UploadError("Upload failed. Check your connection.", true));
+    xhr.ontimeout = () => reject(new UploadError("Upload timed out. Check your connection.", true));
+
+    xhr.send(body);
+  });
+}
@@ -316,28 +316,3 @@ export const mockListings: Listing[] = [
     isFavorite: false,
   },
 ];
-
-export const clubTypeLabels: Record<string, string> = {
-  "driver": "Driver",
-  "fairway-wood": "Fairway Wood",
-  "hybrid": "Hybrid",
-  "iron-set": "Iron Set",
-  "wedge-set": "Wedge Set",
-  "putter": "Putter",
-  "complete-set": "Complete Set",
-};
-
-export const flexLabels: Record<string, string> = {
-  "extra-stiff": "Extra Stiff",
-  "stiff": "Stiff",
-  "regular": "Regular",
-  "senior": "Senior",
-  "ladies": "Ladies",
-};
-
-export const conditionLabels: Record<string, string> = {
-  "excellent": "Excellent",
-  "very-good": "Very Good",
-  "good": "Good",
-  "fair": "Fair",
-};
@@ -4,6 +4,13 @@
  */
 
 import { v2 as cloudinary } from 'cloudinary';
+import {
+  ImageRejectedError,
+  runImageChecks,
+  type ImageCheck,
+  type ImageCheckContext,
+  type ImageVerdict,
+} from './image-validation';
 
 // Configure Cloudinary
 const cloudName = process.env.EXPO_PUBLIC_CLOUDINARY_CLOUD_NAME;
@@ -29,6 +36,11 @@ export interface UploadResult {
   resourceType: string;
 }
 
+export interface ListingPhotoUpload extends UploadResult {
+  phash: string | null;
+  review: ImageVerdict;
+}
+
 export const cloudinaryService = {
   /**
    * Upload image from base64 string
@@ -101,15 +113,52 @@ export const cloudinaryService = {
   },
 
   /**
-   * Upload listing photo
+   * Upload a listing photo and run the image checks on it. Rejected photos are
+   * deleted and raise ImageRejectedError; flagged photos are returned for review.
+   * Cloudinary assigns each upload its own public ID, so replacing or reordering
+   * photos never overwrites an asset still in use.
    */
   uploadListingPhoto: async (
-    listingId: string,
     imageData: string,
-    position: number
-  ): Promise<UploadResult> => {
-    const publicId = `${listingId}_${position}`;
-    return cloudinaryService.uploadBase64(imageData, 'listings', publicId);
+    options: { folder: string; checks: ImageCheck[]; context: ImageCheckContext }
+  ): Promise<ListingPhotoUpload> => {
+    let result;
+    try {
+      result = await cloudinary.uploader.upload(imageData, {
+        folder: options.folder,
+        resource_type: 'image',
+        // Storing the re-encoded image rather than the original drops its EXIF
+        // data, including GPS coordinates that could reveal an owner's home
+        transformation: [
+          { width: 1600, height: 1600, crop: 'limit' },
+          { quality: 'auto:good' },
+        ],
+        phash: true,
+      });
+    } catch (error) {
+      console.error('Cloudinary upload error:', error);
+      throw error;
+    }
+
+    const upload: UploadResult = {
+      publicId: result.public_id,
+      url: result.url,
+      secureUrl: result.secure_url,
+      width: result.width,
+      height: result.height,
+      format: result.format,
+      resourceType: result.resource_type,
+    };
+    const phash: string | null = result.phash ?? null;
+
+    const review = await runImageChecks({ ...upload, phash }, options.context, options.checks);
+
+    if (review.status === 'rejected') {
+      await cloudinaryService.deleteImage(upload.publicId);
+      throw new ImageRejectedError(review.reasons);
+    }
+
+    return { ...upload, phash, review };
   },
 
   /**
@@ -120,6 +169,32 @@ export const cloudinaryService = {
     return cloudinaryService.uploadBase64(imageData, 'avatars', publicId);
   },
 
+  /**
+   * Look up an uploaded image, or null if Cloudinary has no asset with this public ID
+   */
+  getImage: async (publicId: string): Promise<(UploadResult & { bytes: number; folder: string }) | null> => {
+    try {
+      const result = await cloudinary.api.resource(publicId, { resource_type: 'image' });
+
+      return {
+        publicId: result.public_id,
+        url: result.url,
+        secureUrl: result.secure_url,
+        width: result.width,
+        height: result.height,
+        format: result.format,
+        resourceType: result.resource_type,
+        bytes: result.bytes,
+        // Accounts using dynamic folders report the folder separately from the public ID
+        folder: result.asset_folder ?? result.folder ?? '',
+      };
+    } catch (error: any) {
+      if (error?.error?.http_code === 404) return null;
+      console.error('Cloudinary lookup error:', error);
+      throw error;
+    }
+  },
+
   /**
    * Delete image
    */
@@ -224,7 +299,8 @@ export const cloudinaryService = {
   },
 
   /**
-   * Generate upload signature for client-side uploads
+   * Generate upload signature for client-side uploads. The client must send the
+   * returned folder, timestamp and upload preset exactly as signed.
    */
   generateUploadSignature: (folder: string): {
     signature: string;
@@ -232,6 +308,7 @@ export const cloudinaryService = {
     cloudName: string;
     apiKey: string;
     folder: string;
+    uploadPreset: string;
   } => {
     const timestamp = Math.round(Date.now() / 1000);
     const params = {
@@ -248,6 +325,7 @@ export const cloudinaryService = {
       cloudName: cloudName!,
       apiKey: apiKey!,
       folder,
+      uploadPreset,
     };
   },
 };
@@ -310,6 +310,48 @@ export const emailService = {
     `;
     return emailService.sendEmail({ to, subject, html });
   },
+
+  /**
+   * Send new listing alert for a saved search
+   */
+  sendSavedSearchAlert: async (
+    to: string,
+    alertDetails: {
+      searchName: string;
+      listingTitle: string;
+      dailyRate: number;
+      location: string;
+      listingLink: string;
+      manageLink: string;
+    }
+  ) => {
+    const subject = `New match for "${alertDetails.searchName}": ${alertDetails.listingTitle}`;
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h1 style="color: #1B5E20;">A New Listing Matches Your Search</h1>
+        <p>A listing matching your saved search "${alertDetails.searchName}" was just published.</p>
+
+        <div style="background-color: #f5f5f5; padding: 20px; border-radius: 8px; margin: 20px 0;">
+          <p><strong>Listing:</strong> ${alertDetails.listingTitle}</p>
+          <p><strong>Price:</strong> $${alertDetails.dailyRate.toFixed(2)} CAD per day</p>
+          <p><strong>Location:</strong> ${alertDetails.location}</p>
+        </div>
+
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${alertDetails.listingLink}"
+             style="background-color: #1B5E20; color: white; padding: 12px 30px;
+                    text-decoration: none; border-radius: 5px; display: inline-block;">
+            View Listing
+          </a>
+        </div>
+
+        <p style="color: #666; font-size: 12px;">
+          Don't want these alerts? <a href="${alertDetails.manageLink}">Pause or delete this saved search</a>.
+        </p>
+      </div>
+    `;
+    return emailService.sendEmail({ to, subject, html });
+  },
 };
 
 export default emailService;
@@ -0,0 +1,134 @@
+/**
+ * Image Validation Tests
+ * The checks run against plain image details, with no Cloudinary account
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  aspectRatio,
+  minResolution,
+  noDuplicatesAcrossOwners,
+  runImageChecks,
+  type ImageCheck,
+  type ImageDetails,
+  type SimilarPhoto,
+} from './image-validation';
+
+const context = { ownerId: 'owner-1' };
+
+const image = (details: Partial<ImageDetails> = {}): ImageDetails => ({
+  width: 1200,
+  height: 900,
+  format: 'jpg',
+  phash: 'a1b2c3d4e5f60718',
+  ...details,
+});
+
+const flagAlways = (reason: string): ImageCheck => ({
+  name: 'flag',
+  run: async () => ({ outcome: 'flag', reason }),
+});
+
+describe('minResolution', () => {
+  const check = minResolution(800, 600);
+
+  it('passes images at least the minimum size in either orientation', async () => {
+    assert.deepEqual(await check.run(image({ width: 800, height: 600 }), context), {
+      outcome: 'pass',
+    });
+    assert.deepEqual(await check.run(image({ width: 600, height: 800 }), context), {
+      outcome: 'pass',
+    });
+  });
+
+  it('rejects images with a side below the minimum', async () => {
+    const result = await check.run(image({ width: 1000, height: 500 }), context);
+
+    assert.equal(result.outcome, 'reject');
+    assert.match('reason' in result ? result.reason : '', /800×600.*1000×500/);
+  });
+});
+
+describe('aspectRatio', () => {
+  const check = aspectRatio(0.5, 2);
+
+  it('passes ratios within the bounds, inclusive', async () => {
+    for (const [width, height] of [
+      [1000, 1000],
+      [2000, 1000],
+      [1000, 2000],
+    ]) {
+      assert.equal((await check.run(image({ width, height }), context)).outcome, 'pass');
+    }
+  });
+
+  it('rejects panoramas and very tall images', async () => {
+    const wide = await check.run(image({ width: 3000, height: 1000 }), context);
+    const tall = await check.run(image({ width: 1000, height: 3000 }), context);
+
+    assert.equal(wide.outcome, 'reject');
+    assert.equal(tall.outcome, 'reject');
+  });
+});
+
+describe('noDuplicatesAcrossOwners', () => {
+  const similar: SimilarPhoto = { photoId: 'photo-9', listingId: 'listing-9', distance: 2 };
+
+  it('flags images matching another owner photo, naming the listing', async () => {
+    const check = noDuplicatesAcrossOwners(async () => [similar]);
+    const result = await check.run(image(), context);
+
+    assert.equal(result.outcome, 'flag');
+    assert.match('reason' in result ? result.reason : '', /listing-9/);
+  });
+
+  it('looks the hash up for the uploading owner', async () => {
+    const lookups: [string, string][] = [];
+    const check = noDuplicatesAcrossOwners(async (phash, { ownerId }) => {
+      lookups.push([phash, ownerId]);
+      return [];
+    });
+
+    assert.equal((await check.run(image(), context)).outcome, 'pass');
+    assert.deepEqual(lookups, [['a1b2c3d4e5f60718', 'owner-1']]);
+  });
+
+  it('passes images without a hash without looking them up', async () => {
+    const check = noDuplicatesAcrossOwners(async () => {
+      throw new Error('should not be called');
+    });
+
+    assert.equal((await check.run(image({ phash: null }), context)).outcome, 'pass');
+  });
+});
+
+describe('runImageChecks', () => {
+  it('approves images that pass every check', async () => {
+    const verdict = await runImageChecks(image(), context, [
+      minResolution(800, 600),
+      aspectRatio(0.5, 2),
+    ]);
+
+    assert.deepEqual(verdict, { status: 'approved', reasons: [] });
+  });
+
+  it('flags with every flag reason', async () => {
+    const verdict = await runImageChecks(image(), context, [
+      flagAlways('first'),
+      flagAlways('second'),
+    ]);
+
+    assert.deepEqual(verdict, { status: 'flagged', reasons: ['first', 'second'] });
+  });
+
+  it('rejects when any check rejects, ignoring flags', async () => {
+    const verdict = await runImageChecks(image({ width: 400, height: 300 }), context, [
+      minResolution(800, 600),
+      flagAlways('duplicate'),
+    ]);
+
+    assert.equal(verdict.status, 'rejected');
+    assert.equal(verdict.reasons.length, 1);
+  });
+});
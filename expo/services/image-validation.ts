@@ -0,0 +1,135 @@
+/**
+ * Image Validation Service
+ * Quality and moderation checks run on uploaded listing photos. Checks only see
+ * plain image details (size, perceptual hash), so they run the same against
+ * Cloudinary uploads and test fixtures.
+ */
+
+export interface ImageDetails {
+  width: number;
+  height: number;
+  format: string;
+  // 64-bit perceptual hash as 16 hex characters
+  phash?: string | null;
+}
+
+export interface ImageCheckContext {
+  ownerId: string;
+  listingId?: string;
+}
+
+export type ImageCheckResult =
+  | { outcome: 'pass' }
+  // The photo can't be used; the upload is deleted
+  | { outcome: 'reject'; reason: string }
+  // The photo goes live but waits in the admin review queue
+  | { outcome: 'flag'; reason: string };
+
+export interface ImageCheck {
+  name: string;
+  run: (image: ImageDetails, context: ImageCheckContext) => Promise<ImageCheckResult>;
+}
+
+export interface ImageVerdict {
+  status: 'approved' | 'flagged' | 'rejected';
+  reasons: string[];
+}
+
+// A photo already used on another owner's listing
+export interface SimilarPhoto {
+  photoId: string;
+  listingId: string;
+  distance: number;
+}
+
+const pass: ImageCheckResult = { outcome: 'pass' };
+
+/**
+ * Reject photos smaller than the given sides, in either orientation
+ */
+export function minResolution(minLongSide: number, minShortSide: number): ImageCheck {
+  return {
+    name: 'min-resolution',
+    run: async (image) =>
+      Math.max(image.width, image.height) >= minLongSide &&
+      Math.min(image.width, image.height) >= minShortSide
+        ? pass
+        : {
+            outcome: 'reject',
+            reason: `Photos must be at least ${minLongSide}×${minShortSide} pixels (got ${image.width}×${image.height})`,
+          },
+  };
+}
+
+/**
+ * Reject photos wider or taller than the given width:height ratios, e.g. panoramas
+ */
+export function aspectRatio(minRatio: number, maxRatio: number): ImageCheck {
+  return {
+    name: 'aspect-ratio',
+    run: async (image) => {
+      const ratio = image.width / image.height;
+
+      return ratio >= minRatio && ratio <= maxRatio
+        ? pass
+        : {
+            outcome: 'reject',
+            reason: 'Photos must be closer to square. Crop very wide or very tall photos first.',
+          };
+    },
+  };
+}
+
+/**
+ * Flag photos identical or nearly identical to another owner's photo, which
+ * usually means images copied from someone else's listing
+ */
+export function noDuplicatesAcrossOwners(
+  findSimilar: (phash: string, context: ImageCheckContext) => Promise<SimilarPhoto[]>
+): ImageCheck {
+  return {
+    name: 'duplicate',
+    run: async (image, context) => {
+      if (!image.phash) return pass;
+
+      const matches = await findSimilar(image.phash, context);
+      if (matches.length === 0) return pass;
+
+      return {
+        outcome: 'flag',
+        reason: `Matches a photo on another owner's listing (${matches[0].listingId})`,
+      };
+    },
+  };
+}
+
+/**
+ * Run every check. Any rejection rejects the photo; otherwise any flag flags it.
+ */
+export async function runImageChecks(
+  image: ImageDetails,
+  context: ImageCheckContext,
+  checks: ImageCheck[]
+): Promise<ImageVerdict> {
+  const results = await Promise.all(checks.map((check) => check.run(image, context)));
+
+  const rejections = results.flatMap((result) =>
+    result.outcome === 'reject' ? [result.reason] : []
+  );
+  if (rejections.length > 0) return { status: 'rejected', reasons: rejections };
+
+  const flags = results.flatMap((result) => (result.outcome === 'flag' ? [result.reason] : []));
+  if (flags.length > 0) return { status: 'flagged', reasons: flags };
+
+  return { status: 'approved', reasons: [] };
+}
+
+/**
+ * Raised when an upload fails a check; the message lists every reason
+ */
+export class ImageRejectedError extends Error {
+  constructor(readonly reasons: string[]) {
+    super(reasons.join(' '));
+    this.name = 'ImageRejectedError';
+  }
+}
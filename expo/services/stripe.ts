@@ -38,6 +38,13 @@ export interface CreateDepositHoldParams {
   metadata?: Record<string, string>;
 }
 
+export interface StripeWebhookHandlers {
+  onPaymentSucceeded?: (paymentIntent: Stripe.PaymentIntent) => Promise<void>;
+  onPaymentFailed?: (paymentIntent: Stripe.PaymentIntent) => Promise<void>;
+  onAccountUpdated?: (account: Stripe.Account) => Promise<void>;
+  onChargeRefunded?: (charge: Stripe.Charge) => Promise<void>;
+}
+
 export const stripeService = {
   /**
    * Calculate platform fee for a booking
@@ -212,6 +219,19 @@ export const stripeService = {
     };
   },
 
+  /**
+   * List the refunds made against a charge
+   */
+  listRefunds: async (chargeId: string) => {
+    const refunds = await stripe.refunds.list({ charge: chargeId, limit: 100 });
+
+    return refunds.data.map((refund) => ({
+      id: refund.id,
+      amount: refund.amount / 100,
+      status: refund.status,
+    }));
+  },
+
   /**
    * Stripe Connect - Create account link for onboarding
    */
@@ -279,14 +299,20 @@ export const stripeService = {
   createTransfer: async (
     amount: number,
     connectedAccountId: string,
-    metadata: Record<string, string> = {}
+    metadata: Record<string, string> = {},
+    idempotencyKey?: string,
+    transferGroup?: string
   ) => {
-    const transfer = await stripe.transfers.create({
-      amount: Math.round(amount * 100),
-      currency: 'cad',
-      destination: connectedAccountId,
-      metadata,
-    });
+    const transfer = await stripe.transfers.create(
+      {
+        amount: Math.round(amount * 100),
+        currency: 'cad',
+        destination: connectedAccountId,
+        metadata,
+        ...(transferGroup && { transfer_group: transferGroup }),
+      },
+      idempotencyKey ? { idempotencyKey } : undefined
+    );
 
     return {
       id: transfer.id,
@@ -295,6 +321,18 @@ export const stripeService = {
     };
   },
 
+  /**
+   * Stripe Connect - Find the transfer made for a transfer group, if any
+   */
+  findTransfer: async (transferGroup: string) => {
+    const transfers = await stripe.transfers.list({ transfer_group: transferGroup, limit: 1 });
+    const transfer = transfers.data[0];
+
+    return transfer
+      ? { id: transfer.id, amount: transfer.amount / 100, destination: transfer.destination }
+      : null;
+  },
+
   /**
    * Verify webhook signature
    */
@@ -305,31 +343,32 @@ export const stripeService = {
 
   /**
    * Handle webhook events
+   * Dispatches a verified event to the matching handler; persistence lives with the caller
    */
-  handleWebhook: async (event: Stripe.Event) => {
+  handleWebhook: async (event: Stripe.Event, handlers: StripeWebhookHandlers = {}) => {
     switch (event.type) {
       case 'payment_intent.succeeded':
         const paymentIntent = event.data.object as Stripe.PaymentIntent;
         console.log('Payment succeeded:', paymentIntent.id);
-        // TODO: Update booking status in database
+        await handlers.onPaymentSucceeded?.(paymentIntent);
         break;
 
       case 'payment_intent.payment_failed':
         const failedPayment = event.data.object as Stripe.PaymentIntent;
         console.log('Payment failed:', failedPayment.id);
-        // TODO: Notify user and update booking
+        await handlers.onPaymentFailed?.(failedPayment);
         break;
 
       case 'account.updated':
         const account = event.data.object as Stripe.Account;
         console.log('Account updated:', account.id);
-        // TODO: Update payout account status in database
+        await handlers.onAccountUpdated?.(account);
         break;
 
       case 'charge.refunded':
         const refund = event.data.object as Stripe.Charge;
         console.log('Charge refunded:', refund.id);
-        // TODO: Update booking and notify user
+        await handlers.onChargeRefunded?.(refund);
         break;
 
       default:
@@ -5,6 +5,8 @@
 -- Enable required extensions
 CREATE EXTENSION IF NOT EXISTS postgis;
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+CREATE EXTENSION IF NOT EXISTS btree_gist; -- UUID equality in the bookings exclusion constraint
+CREATE EXTENSION IF NOT EXISTS pg_trgm; -- Typo-tolerant listing search
 
 -- ============================================================================
 -- ENUMS
@@ -18,9 +20,9 @@ CREATE TYPE flex AS ENUM ('extra_stiff', 'stiff', 'regular', 'senior', 'ladies')
 CREATE TYPE condition_type AS ENUM ('excellent', 'very_good', 'good', 'fair');
 CREATE TYPE booking_status AS ENUM ('pending', 'confirmed', 'in_progress', 'completed', 'cancelled', 'declined');
 CREATE TYPE cancellation_policy AS ENUM ('flexible', 'moderate', 'strict');
-CREATE TYPE dispute_status AS ENUM ('open', 'under_review', 'resolved', 'closed');
+CREATE TYPE dispute_status AS ENUM ('open', 'under_review', 'resolving', 'resolved', 'closed'); -- resolving: deposit and refund being settled
 CREATE TYPE dispute_type AS ENUM ('damage', 'missing_equipment', 'inaccurate_listing', 'late_return', 'no_show', 'inappropriate_behavior');
-CREATE TYPE notification_type AS ENUM ('booking', 'message', 'review', 'payout', 'system');
+CREATE TYPE notification_type AS ENUM ('booking', 'message', 'review', 'payout', 'saved_search', 'system');
 CREATE TYPE notification_channel AS ENUM ('push', 'email', 'sms');
 
 -- ============================================================================
@@ -40,7 +42,9 @@ CREATE TABLE golf_courses (
     phone TEXT,
     website TEXT,
     holes INTEGER DEFAULT 18,
-    created_at TIMESTAMPTZ DEFAULT NOW()
+    source TEXT, -- Where the course came from: an import's name, or 'submission'
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
 -- Profiles table (extends Supabase auth.users)
@@ -153,10 +157,34 @@ CREATE TABLE listings (
     average_rating DECIMAL(3, 2) DEFAULT 0.00,
     total_reviews INTEGER DEFAULT 0,
 
+    -- iCal feed (incrementing the version invalidates the old feed URL)
+    calendar_feed_version INTEGER NOT NULL DEFAULT 1,
+
+    -- Full-text search: brand and model rank highest, then title, then description
+    search_vector TSVECTOR GENERATED ALWAYS AS (
+        setweight(to_tsvector('english', COALESCE(brand, '')), 'A') ||
+        setweight(to_tsvector('english', COALESCE(model, '')), 'A') ||
+        setweight(to_tsvector('english', COALESCE(title, '')), 'B') ||
+        setweight(to_tsvector('english', COALESCE(description, '')), 'C')
+    ) STORED,
+    -- Lowercased brand, model and title for trigram (typo) matching
+    search_text TEXT GENERATED ALWAYS AS (
+        lower(COALESCE(brand, '') || ' ' || COALESCE(model, '') || ' ' || COALESCE(title, ''))
+    ) STORED,
+
     -- Timestamps
     created_at TIMESTAMPTZ DEFAULT NOW(),
     updated_at TIMESTAMPTZ DEFAULT NOW(),
-    last_booked_at TIMESTAMPTZ
+    last_booked_at TIMESTAMPTZ,
+    published_at TIMESTAMPTZ, -- First time the listing went live (not a draft)
+    saved_searches_checked_at TIMESTAMPTZ, -- Saved search alerts sent for this listing
+    saved_search_alert_attempts INTEGER NOT NULL DEFAULT 0 -- Runs that failed to send them
+);
+
+-- Search synonyms, e.g. "tm" -> "taylormade". Aliases are lowercase whole words or phrases.
+CREATE TABLE brand_aliases (
+    alias TEXT PRIMARY KEY CHECK (alias = lower(alias)),
+    canonical TEXT NOT NULL
 );
 
 -- Listing photos
@@ -169,6 +197,82 @@ CREATE TABLE listing_photos (
     is_primary BOOLEAN DEFAULT FALSE,
     width INTEGER,
     height INTEGER,
+
+    -- Image checks
+    phash TEXT, -- 64-bit perceptual hash (16 hex characters), for near-duplicate detection
+    -- The hash's eight bytes, tagged with their position ('0:a3'). Hashes at most 7 bits
+    -- apart share at least one, so near-duplicate lookups only compare photos that do.
+    phash_bands TEXT[] GENERATED ALWAYS AS (
+        CASE WHEN phash IS NOT NULL THEN ARRAY[
+            '0:' || substr(phash, 1, 2), '1:' || substr(phash, 3, 2),
+            '2:' || substr(phash, 5, 2), '3:' || substr(phash, 7, 2),
+            '4:' || substr(phash, 9, 2), '5:' || substr(phash, 11, 2),
+            '6:' || substr(phash, 13, 2), '7:' || substr(phash, 15, 2)
+        ] END
+    ) STORED,
+    review_status TEXT NOT NULL DEFAULT 'approved' CHECK (review_status IN ('approved', 'flagged')),
+    review_reasons TEXT[], -- Why the checks flagged the photo
+    reviewed_by UUID REFERENCES profiles(id),
+    reviewed_at TIMESTAMPTZ,
+
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Listings in progress, saved step by step from the listing wizard. Drafts live
+-- apart from listings so they can be missing fields a published listing requires.
+CREATE TABLE listing_drafts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    owner_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    fields JSONB NOT NULL DEFAULT '{}', -- listings.create input so far, camelCase keys
+    photos JSONB NOT NULL DEFAULT '[]', -- Uploaded photos: [{ url, publicId, width, height, phash, review }]
+    current_step TEXT, -- Wizard step to resume on
+    version INTEGER NOT NULL DEFAULT 1, -- Bumped on every save; saves from a stale version are rejected
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Pricing terms a listing has offered over time, one row per change (written by
+-- a trigger). Cancellations use the terms in effect when the booking was made.
+CREATE TABLE listing_price_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    listing_id UUID NOT NULL REFERENCES listings(id) ON DELETE CASCADE,
+    daily_rate DECIMAL(10, 2) NOT NULL,
+    weekly_rate DECIMAL(10, 2),
+    security_deposit DECIMAL(10, 2),
+    delivery_fee DECIMAL(10, 2),
+    cancellation_policy cancellation_policy,
+    effective_from TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Snapshots of a listing's details, one per change (written by a trigger and never
+-- edited). Bookings point at the version they were made against.
+CREATE TABLE listing_versions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    listing_id UUID NOT NULL REFERENCES listings(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL, -- 1 for the listing as created, counting up
+    snapshot JSONB NOT NULL, -- Editable listings columns, plus latitude and longitude
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (listing_id, version)
+);
+
+-- Cloudinary assets no longer referenced by any photo, deleted by the
+-- delete-orphaned-media job (retried until Cloudinary confirms)
+CREATE TABLE media_deletions (
+    public_id TEXT PRIMARY KEY,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- External calendars imported into a listing's availability
+CREATE TABLE calendar_imports (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    listing_id UUID NOT NULL REFERENCES listings(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    source_url TEXT, -- NULL for uploaded .ics files
+    last_synced_at TIMESTAMPTZ,
+    last_attempted_at TIMESTAMPTZ, -- Last sync, successful or not; the sync job goes oldest first
+    last_error TEXT,
     created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
@@ -179,14 +283,22 @@ CREATE TABLE availability_windows (
     start_date DATE NOT NULL,
     end_date DATE NOT NULL,
     is_blocked BOOLEAN DEFAULT FALSE, -- TRUE means owner blocked this period
-    reason TEXT, -- "booked", "personal_use", "maintenance"
-    created_at TIMESTAMPTZ DEFAULT NOW()
+    reason TEXT, -- "booked", "personal_use", "maintenance", "other", "external_calendar"
+
+    -- Set for windows mirrored from an external calendar
+    import_id UUID REFERENCES calendar_imports(id) ON DELETE CASCADE,
+    external_uid TEXT, -- iCal event UID
+
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    UNIQUE(import_id, external_uid)
 );
 
 -- Bookings table
 CREATE TABLE bookings (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     listing_id UUID NOT NULL REFERENCES listings(id),
+    listing_version_id UUID REFERENCES listing_versions(id), -- Listing details the booking was priced from
     renter_id UUID NOT NULL REFERENCES profiles(id),
     owner_id UUID NOT NULL REFERENCES profiles(id),
 
@@ -194,6 +306,7 @@ CREATE TABLE bookings (
     start_date DATE NOT NULL,
     end_date DATE NOT NULL,
     rental_days INTEGER NOT NULL,
+    buffer_days INTEGER NOT NULL DEFAULT 0, -- Listing's preparation time when booked
 
     -- Pricing
     daily_rate DECIMAL(10, 2) NOT NULL,
@@ -209,6 +322,8 @@ CREATE TABLE bookings (
     deposit_released BOOLEAN DEFAULT FALSE,
     deposit_captured BOOLEAN DEFAULT FALSE,
     deposit_release_date TIMESTAMPTZ,
+    unsettled_steps TEXT[], -- Refunds and releases that failed after a status change, for support
+    payment_status TEXT DEFAULT 'pending' CHECK (payment_status IN ('pending', 'succeeded', 'failed', 'refunded', 'partially_refunded')),
 
     -- Status
     status booking_status DEFAULT 'pending',
@@ -222,6 +337,12 @@ CREATE TABLE bookings (
     -- Messages
     renter_message TEXT, -- Initial message from renter
     owner_decline_reason TEXT, -- If owner declines
+    cancellation_reason TEXT, -- 'expired' when the owner never responded
+
+    -- Reminders (set once sent, so scheduled jobs don't repeat them)
+    pickup_reminder_sent_at TIMESTAMPTZ,
+    return_reminder_sent_at TIMESTAMPTZ,
+    review_reminder_sent_at TIMESTAMPTZ,
 
     -- Reviews
     renter_reviewed BOOLEAN DEFAULT FALSE,
@@ -231,8 +352,17 @@ CREATE TABLE bookings (
     created_at TIMESTAMPTZ DEFAULT NOW(),
     updated_at TIMESTAMPTZ DEFAULT NOW(),
     confirmed_at TIMESTAMPTZ,
+    declined_at TIMESTAMPTZ,
     cancelled_at TIMESTAMPTZ,
-    completed_at TIMESTAMPTZ
+    picked_up_at TIMESTAMPTZ, -- Pickup handoff, booking moves to in_progress
+    returned_at TIMESTAMPTZ, -- Return handoff
+    completed_at TIMESTAMPTZ,
+
+    -- Active bookings can't overlap on the same listing, including the turnaround after each one
+    CONSTRAINT bookings_no_overlap EXCLUDE USING gist (
+        listing_id WITH =,
+        daterange(start_date, end_date + buffer_days, '[]') WITH &&
+    ) WHERE (status IN ('pending', 'confirmed', 'in_progress'))
 );
 
 -- Payments table
@@ -244,7 +374,7 @@ CREATE TABLE payments (
     -- Payment details
     amount DECIMAL(10, 2) NOT NULL,
     currency TEXT DEFAULT 'CAD',
-    payment_type TEXT CHECK (payment_type IN ('rental', 'deposit_hold', 'deposit_capture', 'refund')),
+    payment_type TEXT CHECK (payment_type IN ('rental', 'rental_void', 'deposit_hold', 'deposit_capture', 'deposit_release', 'refund', 'payout')),
 
     -- Stripe
     stripe_payment_intent_id TEXT,
@@ -284,6 +414,54 @@ CREATE TABLE payout_accounts (
     onboarding_completed_at TIMESTAMPTZ
 );
 
+-- Owner payouts (one per completed booking)
+CREATE TABLE payouts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    booking_id UUID NOT NULL UNIQUE REFERENCES bookings(id),
+    owner_id UUID NOT NULL REFERENCES profiles(id),
+
+    -- Amount owed to the owner (rental after platform fee, plus delivery, less refunds)
+    amount DECIMAL(10, 2) NOT NULL,
+    currency TEXT DEFAULT 'CAD',
+
+    -- Status
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'on_hold', 'processing', 'paid', 'failed')),
+    eligible_at TIMESTAMPTZ NOT NULL, -- After the dispute filing window closes
+    attempts INTEGER DEFAULT 0,
+    failure_reason TEXT,
+
+    -- Stripe
+    stripe_transfer_id TEXT,
+
+    -- Timestamps
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    paid_at TIMESTAMPTZ
+);
+
+-- Scheduled job runs (one row per job per interval)
+CREATE TABLE job_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    job_name TEXT NOT NULL,
+    run_key TEXT NOT NULL, -- Start of the interval the run covers
+    status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed')),
+    result JSONB,
+    error TEXT,
+    started_at TIMESTAMPTZ DEFAULT NOW(),
+    finished_at TIMESTAMPTZ,
+
+    UNIQUE(job_name, run_key)
+);
+
+-- Processed Stripe webhook events (idempotency for redeliveries)
+CREATE TABLE stripe_webhook_events (
+    id TEXT PRIMARY KEY, -- Stripe event ID (evt_...)
+    type TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'processed')),
+    received_at TIMESTAMPTZ DEFAULT NOW(),
+    processed_at TIMESTAMPTZ
+);
+
 CREATE TABLE conversations (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     listing_id UUID REFERENCES listings(id),
@@ -376,6 +554,11 @@ CREATE TABLE disputes (
     description TEXT NOT NULL,
     evidence_urls TEXT[], -- Photo URLs
 
+    -- Respondent reply
+    respondent_response TEXT,
+    respondent_evidence_urls TEXT[],
+    responded_at TIMESTAMPTZ,
+
     -- Status
     status dispute_status DEFAULT 'open',
 
@@ -385,11 +568,15 @@ CREATE TABLE disputes (
     refund_amount DECIMAL(10, 2),
     deposit_action TEXT CHECK (deposit_action IN ('release', 'capture', 'partial_capture')),
     partial_capture_amount DECIMAL(10, 2),
+    refund_issued_at TIMESTAMPTZ, -- Set once the resolution's refund went through
+    settlement_error TEXT, -- Why settling a resolving dispute stopped, until it is resumed
 
     -- Appeal
     appeal_submitted BOOLEAN DEFAULT FALSE,
     appeal_text TEXT,
     appeal_decision TEXT,
+    appealed_at TIMESTAMPTZ,
+    appeal_decided_at TIMESTAMPTZ,
 
     -- Timestamps
     created_at TIMESTAMPTZ DEFAULT NOW(),
@@ -442,6 +629,7 @@ CREATE TABLE notification_preferences (
     message_notifications BOOLEAN DEFAULT TRUE,
     review_notifications BOOLEAN DEFAULT TRUE,
     payout_notifications BOOLEAN DEFAULT TRUE,
+    saved_search_notifications BOOLEAN DEFAULT TRUE,
     marketing_notifications BOOLEAN DEFAULT FALSE,
 
     -- Do not disturb
@@ -463,6 +651,54 @@ CREATE TABLE favorites (
     UNIQUE(user_id, listing_id)
 );
 
+-- Saved searches (alerts for newly published listings that match)
+CREATE TABLE saved_searches (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    name TEXT NOT NULL CHECK (char_length(name) <= 60),
+    filters JSONB NOT NULL DEFAULT '{}', -- listings.search input, camelCase keys
+    is_paused BOOLEAN NOT NULL DEFAULT FALSE,
+    last_notified_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Listings a saved search has alerted about (each listing is sent at most once)
+CREATE TABLE saved_search_alerts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    saved_search_id UUID NOT NULL REFERENCES saved_searches(id) ON DELETE CASCADE,
+    listing_id UUID NOT NULL REFERENCES listings(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(saved_search_id, listing_id)
+);
+
+-- Courses suggested by users, added to golf_courses once a moderator approves them
+CREATE TABLE golf_course_submissions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    submitted_by UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+
+    -- Proposed course
+    name TEXT NOT NULL,
+    address TEXT NOT NULL,
+    city TEXT NOT NULL,
+    province TEXT NOT NULL,
+    postal_code TEXT,
+    location GEOGRAPHY(Point, 4326) NOT NULL,
+    phone TEXT,
+    website TEXT,
+    holes INTEGER,
+    notes TEXT CHECK (char_length(notes) <= 500),
+
+    -- Moderation
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+    reviewed_by UUID REFERENCES profiles(id),
+    reviewed_at TIMESTAMPTZ,
+    review_notes TEXT,
+    golf_course_id UUID REFERENCES golf_courses(id) ON DELETE SET NULL, -- Set on approval
+
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
 -- Verification documents
 CREATE TABLE verification_documents (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -501,23 +737,56 @@ CREATE INDEX idx_listings_active ON listings(is_active, is_draft);
 CREATE INDEX idx_listings_club_type ON listings(club_type);
 CREATE INDEX idx_listings_city ON listings(city, province);
 CREATE INDEX idx_listings_location ON listings USING GIST(location);
+-- Map viewports are compared in geometry
+CREATE INDEX idx_listings_location_geometry ON listings USING GIST((location::geometry));
 CREATE INDEX idx_listings_rating ON listings(average_rating DESC);
 CREATE INDEX idx_listings_price ON listings(daily_rate);
 CREATE INDEX idx_listings_created ON listings(created_at DESC);
 CREATE INDEX idx_listings_instant_booking ON listings(instant_booking) WHERE instant_booking = TRUE;
+CREATE INDEX idx_listings_search_vector ON listings USING GIN(search_vector);
+CREATE INDEX idx_listings_search_text ON listings USING GIN(search_text gin_trgm_ops);
 CREATE INDEX idx_availability_listing_dates ON availability_windows(listing_id, start_date, end_date);
+CREATE INDEX idx_calendar_imports_listing ON calendar_imports(listing_id);
+CREATE INDEX idx_calendar_imports_sync ON calendar_imports(last_attempted_at) WHERE source_url IS NOT NULL;
+CREATE INDEX idx_listing_drafts_owner ON listing_drafts(owner_id, updated_at DESC);
+CREATE INDEX idx_listing_photos_listing ON listing_photos(listing_id, position);
+CREATE INDEX idx_listing_price_history_listing ON listing_price_history(listing_id, effective_from DESC);
+CREATE INDEX idx_listing_photos_phash_bands ON listing_photos USING GIN(phash_bands);
+CREATE INDEX idx_listing_photos_flagged ON listing_photos(created_at) WHERE review_status = 'flagged';
+CREATE INDEX idx_media_deletions_created ON media_deletions(created_at);
 
 -- Golf courses
 CREATE INDEX idx_golf_courses_location ON golf_courses USING GIST(location);
 CREATE INDEX idx_golf_courses_city ON golf_courses(city, province);
+CREATE INDEX idx_golf_courses_name ON golf_courses USING GIN(lower(name) gin_trgm_ops);
+-- One course per name and city; imports upsert on it
+CREATE UNIQUE INDEX idx_golf_courses_unique_name ON golf_courses(lower(name), lower(city), province);
+CREATE INDEX idx_golf_course_submissions_pending ON golf_course_submissions(created_at) WHERE status = 'pending';
+CREATE INDEX idx_golf_course_submissions_user ON golf_course_submissions(submitted_by);
 
 -- Bookings
 CREATE INDEX idx_bookings_renter ON bookings(renter_id);
 CREATE INDEX idx_bookings_owner ON bookings(owner_id);
 CREATE INDEX idx_bookings_listing ON bookings(listing_id);
 CREATE INDEX idx_bookings_status ON bookings(status);
+CREATE INDEX idx_bookings_pending ON bookings(created_at) WHERE status = 'pending';
+CREATE INDEX idx_bookings_unsettled ON bookings(updated_at) WHERE unsettled_steps IS NOT NULL;
 CREATE INDEX idx_bookings_dates ON bookings(start_date, end_date);
 CREATE INDEX idx_bookings_created ON bookings(created_at DESC);
+CREATE INDEX idx_bookings_payment_intent ON bookings(stripe_payment_intent_id);
+CREATE INDEX idx_bookings_deposit_hold ON bookings(stripe_deposit_hold_id);
+
+-- Payments
+CREATE INDEX idx_payments_booking ON payments(booking_id, created_at);
+CREATE INDEX idx_payments_user ON payments(user_id, created_at DESC);
+CREATE INDEX idx_payments_payment_intent ON payments(stripe_payment_intent_id);
+
+-- Payouts
+CREATE INDEX idx_payouts_owner ON payouts(owner_id, created_at DESC);
+CREATE INDEX idx_payouts_due ON payouts(eligible_at) WHERE status IN ('pending', 'failed');
+
+-- Job runs
+CREATE INDEX idx_job_runs_job ON job_runs(job_name, started_at DESC);
 
 -- Messages
 CREATE INDEX idx_messages_conversation ON messages(conversation_id, created_at DESC);
@@ -532,6 +801,10 @@ CREATE INDEX idx_reviews_reviewee ON reviews(reviewee_id);
 CREATE INDEX idx_reviews_listing ON reviews(listing_id);
 CREATE INDEX idx_reviews_created ON reviews(created_at DESC);
 
+-- Disputes
+CREATE INDEX idx_disputes_booking ON disputes(booking_id);
+CREATE INDEX idx_disputes_status ON disputes(status, created_at);
+
 -- Notifications
 CREATE INDEX idx_notifications_user ON notifications(user_id, created_at DESC);
 CREATE INDEX idx_notifications_unread ON notifications(user_id, is_read) WHERE is_read = FALSE;
@@ -539,6 +812,10 @@ CREATE INDEX idx_notifications_unread ON notifications(user_id, is_read) WHERE i
 -- Favorites
 CREATE INDEX idx_favorites_user ON favorites(user_id);
 CREATE INDEX idx_favorites_listing ON favorites(listing_id);
+CREATE INDEX idx_saved_searches_user ON saved_searches(user_id);
+CREATE INDEX idx_saved_searches_active ON saved_searches(created_at) WHERE is_paused = FALSE;
+CREATE INDEX idx_listings_saved_searches_pending ON listings(published_at)
+    WHERE published_at IS NOT NULL AND saved_searches_checked_at IS NULL;
 
 -- ============================================================================
 -- ROW LEVEL SECURITY POLICIES
@@ -548,25 +825,41 @@ CREATE INDEX idx_favorites_listing ON favorites(listing_id);
 ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
 ALTER TABLE listings ENABLE ROW LEVEL SECURITY;
 ALTER TABLE listing_photos ENABLE ROW LEVEL SECURITY;
+ALTER TABLE listing_drafts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE listing_price_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE listing_versions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE availability_windows ENABLE ROW LEVEL SECURITY;
+ALTER TABLE calendar_imports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE brand_aliases ENABLE ROW LEVEL SECURITY;
 ALTER TABLE bookings ENABLE ROW LEVEL SECURITY;
 ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
 ALTER TABLE payout_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payouts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE job_runs ENABLE ROW LEVEL SECURITY;
 ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
 ALTER TABLE reviews ENABLE ROW LEVEL SECURITY;
 ALTER TABLE disputes ENABLE ROW LEVEL SECURITY;
 ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
 ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
 ALTER TABLE favorites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saved_searches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saved_search_alerts ENABLE ROW LEVEL SECURITY;
 ALTER TABLE verification_documents ENABLE ROW LEVEL SECURITY;
 ALTER TABLE golf_courses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE golf_course_submissions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stripe_webhook_events ENABLE ROW LEVEL SECURITY; -- Service role only, no policies
+ALTER TABLE media_deletions ENABLE ROW LEVEL SECURITY; -- Service role only, no policies
 
 -- Golf courses policies 
 CREATE POLICY "Golf courses are viewable by everyone"
     ON golf_courses FOR SELECT
     USING (true);
 
+CREATE POLICY "Users can view their own course submissions"
+    ON golf_course_submissions FOR SELECT
+    USING (auth.uid() = submitted_by);
+
 -- Profiles policies
 CREATE POLICY "Public profiles are viewable by everyone"
     ON profiles FOR SELECT
@@ -618,6 +911,33 @@ CREATE POLICY "Owners can manage their listing photos"
         )
     );
 
+-- Listing drafts policies
+CREATE POLICY "Owners can manage their listing drafts"
+    ON listing_drafts FOR ALL
+    USING (auth.uid() = owner_id);
+
+-- Listing price history policies
+CREATE POLICY "Owners can view their listing price history"
+    ON listing_price_history FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM listings
+            WHERE listings.id = listing_price_history.listing_id
+            AND listings.owner_id = auth.uid()
+        )
+    );
+
+-- Listing versions policies
+CREATE POLICY "Owners can view their listing versions"
+    ON listing_versions FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM listings
+            WHERE listings.id = listing_versions.listing_id
+            AND listings.owner_id = auth.uid()
+        )
+    );
+
 -- Availability windows policies
 CREATE POLICY "Users can view availability for active listings"
     ON availability_windows FOR SELECT
@@ -638,11 +958,37 @@ CREATE POLICY "Owners can manage their listing availability"
             AND listings.owner_id = auth.uid()
         )
     );
+
+-- Brand aliases policies
+CREATE POLICY "Brand aliases are viewable by everyone"
+    ON brand_aliases FOR SELECT
+    USING (true);
+
+-- Calendar imports policies
+CREATE POLICY "Owners can view their listing calendar imports"
+    ON calendar_imports FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM listings
+            WHERE listings.id = calendar_imports.listing_id
+            AND listings.owner_id = auth.uid()
+        )
+    );
 -- Payments policies
 CREATE POLICY "Users can view their own payment records"
     ON payments FOR SELECT
     USING (auth.uid() = user_id);
 
+CREATE POLICY "Booking parties can view the booking ledger"
+    ON payments FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM bookings
+            WHERE bookings.id = payments.booking_id
+            AND (bookings.renter_id = auth.uid() OR bookings.owner_id = auth.uid())
+        )
+    );
+
 CREATE POLICY "System can create payment records"
     ON payments FOR INSERT
     WITH CHECK (auth.uid() = user_id);
@@ -724,6 +1070,21 @@ CREATE POLICY "Users can manage their own favorites"
     ON favorites FOR ALL
     USING (auth.uid() = user_id);
 
+-- Saved searches policies
+CREATE POLICY "Users can manage their own saved searches"
+    ON saved_searches FOR ALL
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view alerts for their own saved searches"
+    ON saved_search_alerts FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM saved_searches
+            WHERE saved_searches.id = saved_search_alerts.saved_search_id
+            AND saved_searches.user_id = auth.uid()
+        )
+    );
+
 -- Notifications policies
 CREATE POLICY "Users can view their own notifications"
     ON notifications FOR SELECT
@@ -747,6 +1108,11 @@ CREATE POLICY "Users can manage their own payout account"
     ON payout_accounts FOR ALL
     USING (auth.uid() = user_id);
 
+-- Payouts policies
+CREATE POLICY "Owners can view their own payouts"
+    ON payouts FOR SELECT
+    USING (auth.uid() = owner_id);
+
 -- Verification documents policies
 CREATE POLICY "Users can manage their own verification documents"
     ON verification_documents FOR ALL
@@ -788,6 +1154,252 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
+-- Function to atomically reserve a listing for a booking.
+-- Locks the listing so reservations for it run one at a time, checks advance notice
+-- and owner-blocked windows, then inserts the booking. Overlaps with other active
+-- bookings are rejected by the bookings_no_overlap constraint (SQLSTATE 23P01).
+CREATE OR REPLACE FUNCTION reserve_booking(p_booking JSONB)
+RETURNS bookings
+SET search_path = public
+AS $$
+DECLARE
+    v_request bookings := jsonb_populate_record(NULL::bookings, p_booking);
+    v_listing listings;
+    v_version_id UUID;
+    v_booking bookings;
+BEGIN
+    SELECT * INTO v_listing
+    FROM listings
+    WHERE id = v_request.listing_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR NOT v_listing.is_active OR v_listing.is_draft THEN
+        RAISE EXCEPTION 'Listing not found' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF v_request.start_date < CURRENT_DATE + COALESCE(v_listing.advance_notice_days, 0) THEN
+        RAISE EXCEPTION 'This listing must be booked at least % day(s) in advance',
+            v_listing.advance_notice_days
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM availability_windows w
+        WHERE w.listing_id = v_listing.id
+        AND w.is_blocked = true
+        AND w.start_date <= v_request.end_date
+        AND w.end_date >= v_request.start_date
+    ) THEN
+        RAISE EXCEPTION 'The owner has blocked some of the selected dates'
+            USING ERRCODE = 'exclusion_violation';
+    END IF;
+
+    -- The booking must have been priced from the listing as it is now
+    SELECT id INTO v_version_id
+    FROM listing_versions
+    WHERE listing_id = v_listing.id
+    ORDER BY version DESC
+    LIMIT 1;
+
+    IF v_request.listing_version_id IS DISTINCT FROM v_version_id THEN
+        RAISE EXCEPTION 'This listing changed while you were booking. Check the details and try again.'
+            USING ERRCODE = 'serialization_failure';
+    END IF;
+
+    INSERT INTO bookings (
+        listing_id, listing_version_id, renter_id, owner_id,
+        start_date, end_date, rental_days, buffer_days,
+        daily_rate, total_rental_fee, service_fee, security_deposit, delivery_fee, total_amount,
+        status, pickup_method, delivery_address, renter_message, confirmed_at
+    )
+    VALUES (
+        v_listing.id, v_version_id, v_request.renter_id, v_listing.owner_id,
+        v_request.start_date, v_request.end_date, v_request.rental_days,
+        COALESCE(v_listing.preparation_time_days, 0),
+        v_request.daily_rate, v_request.total_rental_fee, v_request.service_fee,
+        v_request.security_deposit, COALESCE(v_request.delivery_fee, 0), v_request.total_amount,
+        COALESCE(v_request.status, 'pending'), v_request.pickup_method,
+        v_request.delivery_address, v_request.renter_message, v_request.confirmed_at
+    )
+    RETURNING * INTO v_booking;
+
+    RETURN v_booking;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the backend (service role) may reserve bookings
+REVOKE EXECUTE ON FUNCTION reserve_booking(JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Function to apply an owner's edits to a listing. p_updates holds listings columns;
+-- columns left out keep their values. Pricing terms can't change while a booking made
+-- on them is confirmed or in progress: the listing is locked like in reserve_booking,
+-- so the check and the update can't be split by another change. A refused change
+-- raises object_in_use (SQLSTATE 55006) with the booking count as DETAIL and the
+-- changed columns, comma-separated, as HINT.
+CREATE OR REPLACE FUNCTION update_listing(p_listing_id UUID, p_owner_id UUID, p_updates JSONB)
+RETURNS listings
+SET search_path = public
+AS $$
+DECLARE
+    v_listing listings;
+    v_next listings;
+    v_locked_changes TEXT[];
+    v_locking_bookings BIGINT;
+BEGIN
+    SELECT * INTO v_listing
+    FROM listings
+    WHERE id = p_listing_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_listing.owner_id <> p_owner_id THEN
+        RAISE EXCEPTION 'Listing not found' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    v_next := jsonb_populate_record(v_listing, p_updates);
+
+    -- Forms send every field back, so only values that actually change count
+    SELECT array_agg(c.column_name) INTO v_locked_changes
+    FROM unnest(ARRAY[
+        'daily_rate', 'weekly_rate', 'security_deposit', 'delivery_fee', 'cancellation_policy'
+    ]) AS c(column_name)
+    WHERE to_jsonb(v_next) -> c.column_name IS DISTINCT FROM to_jsonb(v_listing) -> c.column_name;
+
+    IF v_locked_changes IS NOT NULL THEN
+        SELECT COUNT(*) INTO v_locking_bookings
+        FROM bookings
+        WHERE listing_id = p_listing_id
+        AND status IN ('confirmed', 'in_progress');
+
+        IF v_locking_bookings > 0 THEN
+            RAISE EXCEPTION 'Pricing terms are in use by % booking(s)', v_locking_bookings
+                USING ERRCODE = 'object_in_use',
+                    DETAIL = v_locking_bookings::TEXT,
+                    HINT = array_to_string(v_locked_changes, ',');
+        END IF;
+    END IF;
+
+    -- Publishing a draft for the first time triggers saved search alerts
+    IF p_updates ? 'is_draft' AND NOT v_next.is_draft AND v_listing.published_at IS NULL THEN
+        v_next.published_at := NOW();
+    END IF;
+
+    UPDATE listings SET
+        title = v_next.title,
+        description = v_next.description,
+        club_type = v_next.club_type,
+        brand = v_next.brand,
+        model = v_next.model,
+        year = v_next.year,
+        handedness = v_next.handedness,
+        flex = v_next.flex,
+        condition = v_next.condition,
+        includes_bag = v_next.includes_bag,
+        bag_type = v_next.bag_type,
+        includes_balls = v_next.includes_balls,
+        ball_count = v_next.ball_count,
+        accessories = v_next.accessories,
+        club_composition = v_next.club_composition,
+        daily_rate = v_next.daily_rate,
+        weekly_rate = v_next.weekly_rate,
+        security_deposit = v_next.security_deposit,
+        pickup_location_type = v_next.pickup_location_type,
+        golf_course_id = v_next.golf_course_id,
+        location = v_next.location,
+        address = v_next.address,
+        city = v_next.city,
+        province = v_next.province,
+        neighborhood = v_next.neighborhood,
+        delivery_available = v_next.delivery_available,
+        delivery_fee = v_next.delivery_fee,
+        max_delivery_distance_km = v_next.max_delivery_distance_km,
+        minimum_rental_days = v_next.minimum_rental_days,
+        maximum_rental_days = v_next.maximum_rental_days,
+        advance_notice_days = v_next.advance_notice_days,
+        preparation_time_days = v_next.preparation_time_days,
+        instant_booking = v_next.instant_booking,
+        response_time_commitment_hours = v_next.response_time_commitment_hours,
+        cancellation_policy = v_next.cancellation_policy,
+        special_instructions = v_next.special_instructions,
+        is_draft = v_next.is_draft,
+        published_at = v_next.published_at
+    WHERE id = p_listing_id
+    RETURNING * INTO v_listing;
+
+    RETURN v_listing;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the backend (service role) may edit listings this way
+REVOKE EXECUTE ON FUNCTION update_listing(UUID, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Function to block a listing's dates for the owner. The listing is locked like in
+-- reserve_booking, so a booking can't be reserved between the overlap check and the
+-- insert. Dates held by a pending, confirmed or in-progress booking raise
+-- exclusion_violation (SQLSTATE 23P01).
+CREATE OR REPLACE FUNCTION block_listing_dates(
+    p_listing_id UUID,
+    p_owner_id UUID,
+    p_start_date DATE,
+    p_end_date DATE,
+    p_reason TEXT
+)
+RETURNS availability_windows
+SET search_path = public
+AS $$
+DECLARE
+    v_listing listings;
+    v_window availability_windows;
+BEGIN
+    SELECT * INTO v_listing
+    FROM listings
+    WHERE id = p_listing_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_listing.owner_id <> p_owner_id THEN
+        RAISE EXCEPTION 'Listing not found' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM bookings b
+        WHERE b.listing_id = p_listing_id
+        AND b.status IN ('pending', 'confirmed', 'in_progress')
+        AND b.start_date <= p_end_date
+        AND b.end_date >= p_start_date
+    ) THEN
+        RAISE EXCEPTION 'These dates overlap an existing booking'
+            USING ERRCODE = 'exclusion_violation';
+    END IF;
+
+    INSERT INTO availability_windows (listing_id, start_date, end_date, is_blocked, reason)
+    VALUES (p_listing_id, p_start_date, p_end_date, true, p_reason)
+    RETURNING * INTO v_window;
+
+    RETURN v_window;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the backend (service role) may block dates this way
+REVOKE EXECUTE ON FUNCTION block_listing_dates(UUID, UUID, DATE, DATE, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Function to find pending booking requests the owner didn't answer in time, oldest
+-- deadline first. Each listing sets its own response time, so the deadline is worked
+-- out per booking here rather than with a fixed cutoff in the query.
+CREATE OR REPLACE FUNCTION overdue_booking_requests(p_now TIMESTAMPTZ, p_limit INTEGER)
+RETURNS SETOF bookings
+SET search_path = public
+AS $$
+    SELECT b.*
+    FROM bookings b
+    JOIN listings l ON l.id = b.listing_id
+    WHERE b.status = 'pending'
+    AND b.created_at + make_interval(hours => COALESCE(l.response_time_commitment_hours, 24)) <= p_now
+    ORDER BY b.created_at + make_interval(hours => COALESCE(l.response_time_commitment_hours, 24))
+    LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Only the backend (service role) expires bookings
+REVOKE EXECUTE ON FUNCTION overdue_booking_requests(TIMESTAMPTZ, INTEGER) FROM PUBLIC, anon, authenticated;
+
 -- Function to calculate distance between two points
 CREATE OR REPLACE FUNCTION calculate_distance(lat1 FLOAT, lng1 FLOAT, lat2 FLOAT, lng2 FLOAT)
 RETURNS FLOAT
@@ -801,7 +1413,40 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql IMMUTABLE;
 
--- Function to search listings by location and filters
+-- Function to turn a search box query into a tsquery. Known brand aliases match either
+-- the alias itself or its canonical name, so "tm stealth" finds "TaylorMade Stealth 2".
+CREATE OR REPLACE FUNCTION build_search_tsquery(p_query TEXT)
+RETURNS TSQUERY
+SET search_path = public
+AS $$
+DECLARE
+    v_remaining TEXT := lower(COALESCE(p_query, ''));
+    v_tsquery TSQUERY := ''::tsquery;
+    v_alias_pattern TEXT;
+    v_alias RECORD;
+BEGIN
+    -- Longest aliases first, so "scotty cameron" is consumed before "scotty"
+    FOR v_alias IN SELECT alias, canonical FROM brand_aliases ORDER BY length(alias) DESC LOOP
+        v_alias_pattern := '\m' || regexp_replace(v_alias.alias, '([^a-z0-9 ])', '\\\1', 'g') || '\M';
+
+        IF v_remaining ~ v_alias_pattern THEN
+            v_remaining := regexp_replace(v_remaining, v_alias_pattern, ' ', 'g');
+            v_tsquery := v_tsquery && (
+                plainto_tsquery('english', v_alias.alias) ||
+                plainto_tsquery('english', v_alias.canonical)
+            );
+        END IF;
+    END LOOP;
+
+    -- websearch_to_tsquery never raises on user input (quotes, commas, parentheses)
+    RETURN v_tsquery && websearch_to_tsquery('english', v_remaining);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Function to search listings by location and filters.
+-- Returns one page of matches in the requested order, with the total number of
+-- matches (before pagination) repeated on every row. With p_golf_course_id the radius
+-- is centered on that course and listings picked up there rank first.
 CREATE OR REPLACE FUNCTION search_listings(
     p_user_lat FLOAT DEFAULT NULL,
     p_user_lng FLOAT DEFAULT NULL,
@@ -811,66 +1456,936 @@ CREATE OR REPLACE FUNCTION search_listings(
     p_price_max DECIMAL DEFAULT NULL,
     p_handedness handedness DEFAULT NULL,
     p_flex flex[] DEFAULT NULL,
+    p_conditions condition_type[] DEFAULT NULL,
     p_instant_booking BOOLEAN DEFAULT NULL,
     p_delivery_available BOOLEAN DEFAULT NULL,
+    p_brands TEXT[] DEFAULT NULL,
+    p_models TEXT[] DEFAULT NULL,
+    p_city TEXT DEFAULT NULL,
+    p_province TEXT DEFAULT NULL,
+    p_golf_course_id UUID DEFAULT NULL, -- Center the radius on this course instead of the user
     p_start_date DATE DEFAULT NULL,
     p_end_date DATE DEFAULT NULL,
+    p_search_query TEXT DEFAULT NULL,
+    p_sort_by TEXT DEFAULT 'distance', -- relevance, distance, price_asc, price_desc, rating, newest, popular
     p_limit INTEGER DEFAULT 20,
-    p_offset INTEGER DEFAULT 0
+    p_offset INTEGER DEFAULT 0,
+    p_listing_ids UUID[] DEFAULT NULL, -- Only consider these listings (saved search matching)
+    -- Map viewport, in degrees (south-west and north-east corners)
+    p_sw_lat FLOAT DEFAULT NULL,
+    p_sw_lng FLOAT DEFAULT NULL,
+    p_ne_lat FLOAT DEFAULT NULL,
+    p_ne_lng FLOAT DEFAULT NULL
 )
 RETURNS TABLE (
     listing_id UUID,
-    distance_km FLOAT
+    distance_km FLOAT,
+    latitude FLOAT,
+    longitude FLOAT,
+    total_count BIGINT
 )
 SET search_path = public
 AS $$
+DECLARE
+    v_query TEXT := NULLIF(trim(lower(p_search_query)), '');
+    v_tsquery TSQUERY := CASE WHEN v_query IS NOT NULL THEN build_search_tsquery(v_query) END;
+    -- A golf course, when given, is the center of the radius search
+    v_center GEOGRAPHY := COALESCE(
+        (SELECT g.location FROM golf_courses g WHERE g.id = p_golf_course_id),
+        CASE
+            WHEN p_user_lat IS NOT NULL AND p_user_lng IS NOT NULL THEN
+                ST_MakePoint(p_user_lng, p_user_lat)::geography
+        END
+    );
 BEGIN
     RETURN QUERY
+    WITH matches AS (
+        SELECT
+            l.id,
+            CASE
+                WHEN v_query IS NOT NULL THEN
+                    ts_rank_cd(l.search_vector, v_tsquery)
+                    + word_similarity(v_query, l.search_text) * 0.5
+                ELSE 0
+            END AS relevance,
+            l.daily_rate,
+            l.average_rating,
+            l.booking_count,
+            l.created_at,
+            COALESCE(l.golf_course_id = p_golf_course_id, false) AS at_golf_course,
+            CASE
+                WHEN v_center IS NOT NULL THEN ST_Distance(l.location, v_center) / 1000
+                ELSE NULL
+            END AS distance_km,
+            ST_Y(l.location::geometry) AS latitude,
+            ST_X(l.location::geometry) AS longitude
+        FROM listings l
+        WHERE l.is_active = true
+            AND l.is_draft = false
+            AND (p_listing_ids IS NULL OR l.id = ANY(p_listing_ids))
+            AND (p_club_types IS NULL OR l.club_type = ANY(p_club_types))
+            AND (p_price_min IS NULL OR l.daily_rate >= p_price_min)
+            AND (p_price_max IS NULL OR l.daily_rate <= p_price_max)
+            AND (p_handedness IS NULL OR l.handedness = p_handedness)
+            AND (p_flex IS NULL OR l.flex = ANY(p_flex))
+            AND (p_conditions IS NULL OR l.condition = ANY(p_conditions))
+            AND (p_instant_booking IS NULL OR l.instant_booking = p_instant_booking)
+            AND (p_delivery_available IS NULL OR l.delivery_available = p_delivery_available)
+            -- Brand, model and city filters are case-insensitive exact matches
+            AND (p_brands IS NULL OR lower(l.brand) IN (SELECT lower(b) FROM unnest(p_brands) b))
+            AND (p_models IS NULL OR lower(l.model) IN (SELECT lower(m) FROM unnest(p_models) m))
+            AND (p_city IS NULL OR lower(l.city) = lower(p_city))
+            AND (p_province IS NULL OR lower(l.province) = lower(p_province))
+            AND (
+                v_query IS NULL OR
+                l.search_vector @@ v_tsquery OR
+                v_query <% l.search_text -- Close enough to a word in brand/model/title
+            )
+            AND (v_center IS NULL OR ST_DWithin(l.location, v_center, p_radius_km * 1000))
+            -- Viewports are flat lat/lng rectangles, so compare in geometry: geography
+            -- would join the corners with great circles and bulge past the map edges.
+            -- A viewport whose west edge is east of its east edge crosses the
+            -- antimeridian and is split in two.
+            AND (
+                p_sw_lat IS NULL OR p_sw_lng IS NULL OR p_ne_lat IS NULL OR p_ne_lng IS NULL OR
+                (p_sw_lng <= p_ne_lng AND ST_Intersects(
+                    l.location::geometry,
+                    ST_MakeEnvelope(p_sw_lng, p_sw_lat, p_ne_lng, p_ne_lat, 4326)
+                )) OR
+                (p_sw_lng > p_ne_lng AND (
+                    ST_Intersects(
+                        l.location::geometry,
+                        ST_MakeEnvelope(p_sw_lng, p_sw_lat, 180, p_ne_lat, 4326)
+                    ) OR
+                    ST_Intersects(
+                        l.location::geometry,
+                        ST_MakeEnvelope(-180, p_sw_lat, p_ne_lng, p_ne_lat, 4326)
+                    )
+                ))
+            )
+            AND (
+                p_start_date IS NULL OR p_end_date IS NULL OR (
+                    NOT EXISTS (
+                        SELECT 1 FROM bookings b
+                        WHERE b.listing_id = l.id
+                        AND b.status IN ('pending', 'confirmed', 'in_progress')
+                        AND daterange(b.start_date, b.end_date + b.buffer_days, '[]')
+                            && daterange(p_start_date, p_end_date, '[]')
+                    )
+                    AND NOT EXISTS (
+                        SELECT 1 FROM availability_windows w
+                        WHERE w.listing_id = l.id
+                        AND w.is_blocked = true
+                        AND w.start_date <= p_end_date
+                        AND w.end_date >= p_start_date
+                    )
+                )
+            )
+    )
     SELECT
-        l.id,
+        m.id,
+        m.distance_km,
+        m.latitude,
+        m.longitude,
+        COUNT(*) OVER () AS total_count
+    FROM matches m
+    ORDER BY
+        -- Listings picked up at the searched golf course come first
+        m.at_golf_course DESC,
+        CASE WHEN p_sort_by = 'relevance' THEN m.relevance END DESC,
+        CASE WHEN p_sort_by = 'price_asc' THEN m.daily_rate END ASC,
+        CASE WHEN p_sort_by = 'price_desc' THEN m.daily_rate END DESC,
+        CASE WHEN p_sort_by = 'rating' THEN m.average_rating END DESC,
+        CASE WHEN p_sort_by = 'popular' THEN m.booking_count END DESC,
+        CASE WHEN p_sort_by = 'newest' THEN m.created_at END DESC,
+        -- Distance sorts 'distance' and breaks ties for every other sort
+        m.distance_km ASC NULLS LAST,
+        m.created_at DESC,
+        m.id
+    LIMIT p_limit
+    OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Function to search the listings inside a map viewport.
+-- Takes the same filters as search_listings. Below p_cluster_max_zoom, matches are
+-- grouped on a grid of roughly 60 screen pixels and each cell comes back as one row
+-- with its count, centroid and cheapest daily rate; cells holding a single listing
+-- come back as that listing. At or above it, up to p_max_listings listings come back
+-- individually, newest first.
+CREATE OR REPLACE FUNCTION search_listings_in_bounds(
+    p_sw_lat FLOAT,
+    p_sw_lng FLOAT,
+    p_ne_lat FLOAT,
+    p_ne_lng FLOAT,
+    p_zoom INTEGER,
+    p_club_types club_type[] DEFAULT NULL,
+    p_price_min DECIMAL DEFAULT NULL,
+    p_price_max DECIMAL DEFAULT NULL,
+    p_handedness handedness DEFAULT NULL,
+    p_flex flex[] DEFAULT NULL,
+    p_conditions condition_type[] DEFAULT NULL,
+    p_instant_booking BOOLEAN DEFAULT NULL,
+    p_delivery_available BOOLEAN DEFAULT NULL,
+    p_brands TEXT[] DEFAULT NULL,
+    p_models TEXT[] DEFAULT NULL,
+    p_city TEXT DEFAULT NULL,
+    p_province TEXT DEFAULT NULL,
+    p_golf_course_id UUID DEFAULT NULL,
+    p_start_date DATE DEFAULT NULL,
+    p_end_date DATE DEFAULT NULL,
+    p_search_query TEXT DEFAULT NULL,
+    p_cluster_max_zoom INTEGER DEFAULT 13,
+    p_max_listings INTEGER DEFAULT 300
+)
+RETURNS TABLE (
+    listing_id UUID, -- NULL for clusters
+    latitude FLOAT,
+    longitude FLOAT,
+    listing_count BIGINT,
+    min_daily_rate DECIMAL,
+    total_count BIGINT
+)
+SET search_path = public
+AS $$
+DECLARE
+    -- Degrees per 256px web-mercator tile is 360 / 2^zoom; cells are ~60px
+    v_grid_size FLOAT := 360.0 / power(2, GREATEST(p_zoom, 0)) * 60 / 256;
+BEGIN
+    RETURN QUERY
+    WITH matches AS (
+        SELECT s.listing_id, s.latitude, s.longitude, l.daily_rate, l.created_at
+        FROM search_listings(
+            p_club_types := p_club_types,
+            p_price_min := p_price_min,
+            p_price_max := p_price_max,
+            p_handedness := p_handedness,
+            p_flex := p_flex,
+            p_conditions := p_conditions,
+            p_instant_booking := p_instant_booking,
+            p_delivery_available := p_delivery_available,
+            p_brands := p_brands,
+            p_models := p_models,
+            p_city := p_city,
+            p_province := p_province,
+            p_golf_course_id := p_golf_course_id,
+            p_start_date := p_start_date,
+            p_end_date := p_end_date,
+            p_search_query := p_search_query,
+            p_sort_by := 'newest',
+            p_limit := NULL, -- Every match in the viewport
+            p_sw_lat := p_sw_lat,
+            p_sw_lng := p_sw_lng,
+            p_ne_lat := p_ne_lat,
+            p_ne_lng := p_ne_lng
+        ) s
+        JOIN listings l ON l.id = s.listing_id
+    ),
+    cells AS (
+        SELECT
+            CASE WHEN COUNT(*) = 1 THEN min(m.listing_id::TEXT)::UUID END AS cell_listing_id,
+            avg(m.latitude) AS cell_latitude,
+            avg(m.longitude) AS cell_longitude,
+            COUNT(*) AS cell_count,
+            min(m.daily_rate) AS cell_min_daily_rate
+        FROM matches m
+        WHERE p_zoom < p_cluster_max_zoom
+        GROUP BY floor(m.latitude / v_grid_size), floor(m.longitude / v_grid_size)
+    ),
+    pins AS (
+        SELECT m.listing_id, m.latitude, m.longitude, 1::BIGINT, m.daily_rate
+        FROM matches m
+        WHERE p_zoom >= p_cluster_max_zoom
+        ORDER BY m.created_at DESC
+        LIMIT p_max_listings
+    )
+    SELECT c.*, (SELECT COUNT(*) FROM matches) FROM cells c
+    UNION ALL
+    SELECT p.*, (SELECT COUNT(*) FROM matches) FROM pins p;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Function to count search matches per filter value (facets).
+-- Takes the same filters as search_listings. Each facet is counted with every filter
+-- applied except its own, so selecting "stiff" still shows how many "regular" listings
+-- there are. Price buckets are 0-25, 25-50, 50-75, 75-100 and 100+ per day.
+CREATE OR REPLACE FUNCTION search_listing_facets(
+    p_user_lat FLOAT DEFAULT NULL,
+    p_user_lng FLOAT DEFAULT NULL,
+    p_radius_km INTEGER DEFAULT 50,
+    p_club_types club_type[] DEFAULT NULL,
+    p_price_min DECIMAL DEFAULT NULL,
+    p_price_max DECIMAL DEFAULT NULL,
+    p_handedness handedness DEFAULT NULL,
+    p_flex flex[] DEFAULT NULL,
+    p_conditions condition_type[] DEFAULT NULL,
+    p_instant_booking BOOLEAN DEFAULT NULL,
+    p_delivery_available BOOLEAN DEFAULT NULL,
+    p_brands TEXT[] DEFAULT NULL,
+    p_models TEXT[] DEFAULT NULL,
+    p_city TEXT DEFAULT NULL,
+    p_province TEXT DEFAULT NULL,
+    p_golf_course_id UUID DEFAULT NULL,
+    p_start_date DATE DEFAULT NULL,
+    p_end_date DATE DEFAULT NULL,
+    p_search_query TEXT DEFAULT NULL,
+    p_brand_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+    facet TEXT,
+    value TEXT,
+    listing_count BIGINT
+)
+SET search_path = public
+AS $$
+DECLARE
+    v_query TEXT := NULLIF(trim(lower(p_search_query)), '');
+    v_tsquery TSQUERY := CASE WHEN v_query IS NOT NULL THEN build_search_tsquery(v_query) END;
+    -- A golf course, when given, is the center of the radius search
+    v_center GEOGRAPHY := COALESCE(
+        (SELECT g.location FROM golf_courses g WHERE g.id = p_golf_course_id),
         CASE
             WHEN p_user_lat IS NOT NULL AND p_user_lng IS NOT NULL THEN
-                ST_Distance(
-                    l.location,
-                    ST_MakePoint(p_user_lng, p_user_lat)::geography
-                ) / 1000
-            ELSE NULL
-        END AS distance_km
-    FROM listings l
-    WHERE l.is_active = true
-        AND l.is_draft = false
-        AND (p_club_types IS NULL OR l.club_type = ANY(p_club_types))
-        AND (p_price_min IS NULL OR l.daily_rate >= p_price_min)
-        AND (p_price_max IS NULL OR l.daily_rate <= p_price_max)
-        AND (p_handedness IS NULL OR l.handedness = p_handedness)
-        AND (p_flex IS NULL OR l.flex = ANY(p_flex))
-        AND (p_instant_booking IS NULL OR l.instant_booking = p_instant_booking)
-        AND (p_delivery_available IS NULL OR l.delivery_available = p_delivery_available)
-        AND (
-            p_user_lat IS NULL OR p_user_lng IS NULL OR
-            ST_DWithin(
-                l.location,
-                ST_MakePoint(p_user_lng, p_user_lat)::geography,
-                p_radius_km * 1000
+                ST_MakePoint(p_user_lng, p_user_lat)::geography
+        END
+    );
+BEGIN
+    RETURN QUERY
+    WITH candidates AS (
+        -- Listings matching the filters that have no facet, with one flag per faceted filter
+        SELECT
+            l.club_type,
+            l.flex,
+            l.handedness,
+            l.condition,
+            l.brand,
+            l.daily_rate,
+            l.instant_booking,
+            l.delivery_available,
+            (p_club_types IS NULL OR l.club_type = ANY(p_club_types)) AS club_type_ok,
+            (p_flex IS NULL OR l.flex = ANY(p_flex)) AS flex_ok,
+            (p_handedness IS NULL OR l.handedness = p_handedness) AS handedness_ok,
+            (p_conditions IS NULL OR l.condition = ANY(p_conditions)) AS condition_ok,
+            (p_brands IS NULL OR lower(l.brand) IN (SELECT lower(b) FROM unnest(p_brands) b)) AS brand_ok,
+            (
+                (p_price_min IS NULL OR l.daily_rate >= p_price_min) AND
+                (p_price_max IS NULL OR l.daily_rate <= p_price_max)
+            ) AS price_ok,
+            (p_instant_booking IS NULL OR l.instant_booking = p_instant_booking) AS instant_booking_ok,
+            (p_delivery_available IS NULL OR l.delivery_available = p_delivery_available) AS delivery_ok
+        FROM listings l
+        WHERE l.is_active = true
+            AND l.is_draft = false
+            AND (p_models IS NULL OR lower(l.model) IN (SELECT lower(m) FROM unnest(p_models) m))
+            AND (p_city IS NULL OR lower(l.city) = lower(p_city))
+            AND (p_province IS NULL OR lower(l.province) = lower(p_province))
+            AND (
+                v_query IS NULL OR
+                l.search_vector @@ v_tsquery OR
+                v_query <% l.search_text
             )
-        )
-        AND (
-            p_start_date IS NULL OR p_end_date IS NULL OR
-            NOT EXISTS (
-                SELECT 1 FROM bookings b
-                WHERE b.listing_id = l.id
-                AND b.status IN ('confirmed', 'in_progress')
-                AND (
-                    (b.start_date <= p_end_date AND b.end_date >= p_start_date)
+            AND (v_center IS NULL OR ST_DWithin(l.location, v_center, p_radius_km * 1000))
+            AND (
+                p_start_date IS NULL OR p_end_date IS NULL OR (
+                    NOT EXISTS (
+                        SELECT 1 FROM bookings b
+                        WHERE b.listing_id = l.id
+                        AND b.status IN ('pending', 'confirmed', 'in_progress')
+                        AND daterange(b.start_date, b.end_date + b.buffer_days, '[]')
+                            && daterange(p_start_date, p_end_date, '[]')
+                    )
+                    AND NOT EXISTS (
+                        SELECT 1 FROM availability_windows w
+                        WHERE w.listing_id = l.id
+                        AND w.is_blocked = true
+                        AND w.start_date <= p_end_date
+                        AND w.end_date >= p_start_date
+                    )
                 )
             )
+    )
+    SELECT 'club_type'::TEXT, c.club_type::TEXT, COUNT(*)
+    FROM candidates c
+    WHERE c.flex_ok AND c.handedness_ok AND c.condition_ok AND c.brand_ok
+        AND c.price_ok AND c.instant_booking_ok AND c.delivery_ok
+    GROUP BY c.club_type
+
+    UNION ALL
+    SELECT 'flex'::TEXT, c.flex::TEXT, COUNT(*)
+    FROM candidates c
+    WHERE c.club_type_ok AND c.handedness_ok AND c.condition_ok AND c.brand_ok
+        AND c.price_ok AND c.instant_booking_ok AND c.delivery_ok
+    GROUP BY c.flex
+
+    UNION ALL
+    SELECT 'handedness'::TEXT, c.handedness::TEXT, COUNT(*)
+    FROM candidates c
+    WHERE c.club_type_ok AND c.flex_ok AND c.condition_ok AND c.brand_ok
+        AND c.price_ok AND c.instant_booking_ok AND c.delivery_ok
+    GROUP BY c.handedness
+
+    UNION ALL
+    SELECT 'condition'::TEXT, c.condition::TEXT, COUNT(*)
+    FROM candidates c
+    WHERE c.club_type_ok AND c.flex_ok AND c.handedness_ok AND c.brand_ok
+        AND c.price_ok AND c.instant_booking_ok AND c.delivery_ok
+    GROUP BY c.condition
+
+    UNION ALL
+    SELECT * FROM (
+        SELECT 'brand'::TEXT, min(c.brand), COUNT(*)
+        FROM candidates c
+        WHERE c.club_type_ok AND c.flex_ok AND c.handedness_ok AND c.condition_ok
+            AND c.price_ok AND c.instant_booking_ok AND c.delivery_ok
+        GROUP BY lower(c.brand)
+        ORDER BY COUNT(*) DESC, min(c.brand)
+        LIMIT p_brand_limit
+    ) top_brands
+
+    UNION ALL
+    SELECT 'price'::TEXT, bucket.value, COUNT(*)
+    FROM candidates c
+    CROSS JOIN LATERAL (
+        SELECT CASE
+            WHEN c.daily_rate < 25 THEN '0-25'
+            WHEN c.daily_rate < 50 THEN '25-50'
+            WHEN c.daily_rate < 75 THEN '50-75'
+            WHEN c.daily_rate < 100 THEN '75-100'
+            ELSE '100+'
+        END AS value
+    ) bucket
+    WHERE c.club_type_ok AND c.flex_ok AND c.handedness_ok AND c.condition_ok
+        AND c.brand_ok AND c.instant_booking_ok AND c.delivery_ok
+    GROUP BY bucket.value
+
+    UNION ALL
+    SELECT 'instant_booking'::TEXT, 'true'::TEXT, COUNT(*)
+    FROM candidates c
+    WHERE c.instant_booking
+        AND c.club_type_ok AND c.flex_ok AND c.handedness_ok AND c.condition_ok
+        AND c.brand_ok AND c.price_ok AND c.delivery_ok
+
+    UNION ALL
+    SELECT 'delivery_available'::TEXT, 'true'::TEXT, COUNT(*)
+    FROM candidates c
+    WHERE c.delivery_available
+        AND c.club_type_ok AND c.flex_ok AND c.handedness_ok AND c.condition_ok
+        AND c.brand_ok AND c.price_ok AND c.instant_booking_ok;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Function to find the saved searches a newly published listing matches.
+-- Each active saved search created before the listing was published is run through
+-- search_listings restricted to that one listing, so alerts use exactly the same
+-- matching rules as search. Owners are never alerted about their own listings.
+CREATE OR REPLACE FUNCTION match_saved_searches(p_listing_id UUID)
+RETURNS TABLE (
+    saved_search_id UUID,
+    user_id UUID
+)
+SET search_path = public
+AS $$
+DECLARE
+    v_listing listings;
+    v_search saved_searches;
+    v_filters JSONB;
+BEGIN
+    SELECT * INTO v_listing FROM listings WHERE id = p_listing_id;
+    IF NOT FOUND OR v_listing.published_at IS NULL THEN
+        RETURN;
+    END IF;
+
+    FOR v_search IN
+        SELECT * FROM saved_searches s
+        WHERE s.is_paused = false
+        AND s.user_id <> v_listing.owner_id
+        AND s.created_at <= v_listing.published_at
+    LOOP
+        v_filters := v_search.filters;
+
+        IF EXISTS (
+            SELECT 1 FROM search_listings(
+                p_user_lat := (v_filters->>'userLat')::FLOAT,
+                p_user_lng := (v_filters->>'userLng')::FLOAT,
+                p_radius_km := COALESCE(round((v_filters->>'radiusKm')::NUMERIC)::INTEGER, 50),
+                -- Filters are stored as the API sends them: kebab-case enum values
+                p_club_types := NULLIF(ARRAY(SELECT replace(jsonb_array_elements_text(v_filters->'clubTypes'), '-', '_')), '{}')::club_type[],
+                p_price_min := (v_filters->>'priceMin')::DECIMAL,
+                p_price_max := (v_filters->>'priceMax')::DECIMAL,
+                p_handedness := (v_filters->>'handedness')::handedness,
+                p_flex := NULLIF(ARRAY(SELECT replace(jsonb_array_elements_text(v_filters->'flex'), '-', '_')), '{}')::flex[],
+                p_conditions := NULLIF(ARRAY(SELECT replace(jsonb_array_elements_text(v_filters->'conditions'), '-', '_')), '{}')::condition_type[],
+                p_instant_booking := (v_filters->>'instantBooking')::BOOLEAN,
+                p_delivery_available := (v_filters->>'deliveryAvailable')::BOOLEAN,
+                p_brands := NULLIF(ARRAY(SELECT jsonb_array_elements_text(v_filters->'brands')), '{}'),
+                p_models := NULLIF(ARRAY(SELECT jsonb_array_elements_text(v_filters->'models')), '{}'),
+                p_city := v_filters->>'city',
+                p_province := v_filters->>'province',
+                p_golf_course_id := (v_filters->>'golfCourseId')::UUID,
+                p_start_date := (v_filters->>'startDate')::DATE,
+                p_end_date := (v_filters->>'endDate')::DATE,
+                p_search_query := v_filters->>'searchQuery',
+                p_limit := 1,
+                p_listing_ids := ARRAY[p_listing_id]
+            )
+        ) THEN
+            saved_search_id := v_search.id;
+            user_id := v_search.user_id;
+            RETURN NEXT;
+        END IF;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Function to suggest structured search filters while the user types.
+-- Returns up to p_limit suggestions per kind (brand, model, club_type, city, golf_course),
+-- each with the number of active listings it would match. Any word of a value can match
+-- the prefix, so "stea" suggests "Stealth 2" and "abbey" suggests "Glen Abbey".
+CREATE OR REPLACE FUNCTION suggest_listings(
+    p_prefix TEXT,
+    p_limit INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+    kind TEXT,
+    value TEXT,
+    label TEXT,
+    detail TEXT,
+    listing_count BIGINT
+)
+SET search_path = public
+AS $$
+DECLARE
+    -- Escape LIKE wildcards so "%" and "_" in the prefix match literally
+    v_prefix TEXT := replace(replace(replace(lower(trim(p_prefix)), '\', '\\'), '%', '\%'), '_', '\_');
+BEGIN
+    IF v_prefix = '' THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    WITH active AS (
+        SELECT l.* FROM listings l
+        WHERE l.is_active = true AND l.is_draft = false
+    ),
+    -- Aliases the prefix could be the start of, as search would expand them
+    alias_queries AS MATERIALIZED (
+        SELECT build_search_tsquery(ba.alias) AS query
+        FROM brand_aliases ba
+        WHERE ba.alias LIKE v_prefix || '%'
+    ),
+    brands AS (
+        SELECT 'brand'::TEXT, min(a.brand), min(a.brand), NULL::TEXT, COUNT(*)
+        FROM active a
+        WHERE lower(a.brand) LIKE v_prefix || '%'
+            OR lower(a.brand) LIKE '% ' || v_prefix || '%'
+            -- "tm" suggests TaylorMade and "scotty" suggests Titleist: the brands of the
+            -- listings whose brand or model (weight A) a search for the alias would match
+            OR EXISTS (
+                SELECT 1 FROM alias_queries aq WHERE ts_filter(a.search_vector, '{a}') @@ aq.query
+            )
+        GROUP BY lower(a.brand)
+        ORDER BY COUNT(*) DESC, min(a.brand)
+        LIMIT p_limit
+    ),
+    models AS (
+        SELECT 'model'::TEXT, min(a.model), min(a.brand) || ' ' || min(a.model), min(a.brand), COUNT(*)
+        FROM active a
+        WHERE a.model IS NOT NULL
+            AND (
+                lower(a.model) LIKE v_prefix || '%'
+                OR lower(a.model) LIKE '% ' || v_prefix || '%'
+                OR lower(a.brand || ' ' || a.model) LIKE v_prefix || '%'
+            )
+        GROUP BY lower(a.brand), lower(a.model)
+        ORDER BY COUNT(*) DESC, min(a.model)
+        LIMIT p_limit
+    ),
+    club_types AS (
+        SELECT 'club_type'::TEXT, a.club_type::TEXT, replace(a.club_type::TEXT, '_', ' '), NULL::TEXT, COUNT(*)
+        FROM active a
+        WHERE replace(a.club_type::TEXT, '_', ' ') LIKE v_prefix || '%'
+            OR replace(a.club_type::TEXT, '_', ' ') LIKE '% ' || v_prefix || '%'
+        GROUP BY a.club_type
+        ORDER BY COUNT(*) DESC
+        LIMIT p_limit
+    ),
+    cities AS (
+        SELECT 'city'::TEXT, min(a.city), min(a.city) || ', ' || min(a.province), min(a.province), COUNT(*)
+        FROM active a
+        WHERE lower(a.city) LIKE v_prefix || '%'
+            OR lower(a.city) LIKE '% ' || v_prefix || '%'
+        GROUP BY lower(a.city), lower(a.province)
+        ORDER BY COUNT(*) DESC, min(a.city)
+        LIMIT p_limit
+    ),
+    courses AS (
+        -- Counted like a golfCourseId search with the default 50 km radius
+        SELECT 'golf_course'::TEXT, g.id::TEXT, g.name, g.city || ', ' || g.province, COUNT(a.id)
+        FROM golf_courses g
+        LEFT JOIN active a ON ST_DWithin(a.location, g.location, 50 * 1000)
+        WHERE lower(g.name) LIKE v_prefix || '%'
+            OR lower(g.name) LIKE '% ' || v_prefix || '%'
+        GROUP BY g.id
+        ORDER BY COUNT(a.id) DESC, g.name
+        LIMIT p_limit
+    )
+    SELECT * FROM brands
+    UNION ALL SELECT * FROM models
+    UNION ALL SELECT * FROM club_types
+    UNION ALL SELECT * FROM cities
+    UNION ALL SELECT * FROM courses;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Function to find golf courses by name or city, nearest first when a location is given.
+-- Each course comes with its coordinates and the number of active listings picked up
+-- there. Pass p_golf_course_id to look up a single course.
+CREATE OR REPLACE FUNCTION search_golf_courses(
+    p_query TEXT DEFAULT NULL,
+    p_user_lat FLOAT DEFAULT NULL,
+    p_user_lng FLOAT DEFAULT NULL,
+    p_golf_course_id UUID DEFAULT NULL,
+    p_limit INTEGER DEFAULT 20,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    name TEXT,
+    address TEXT,
+    city TEXT,
+    province TEXT,
+    postal_code TEXT,
+    phone TEXT,
+    website TEXT,
+    holes INTEGER,
+    latitude FLOAT,
+    longitude FLOAT,
+    distance_km FLOAT,
+    listing_count BIGINT,
+    total_count BIGINT
+)
+SET search_path = public
+AS $$
+DECLARE
+    -- Escape LIKE wildcards so "%" and "_" in the query match literally
+    v_query TEXT := NULLIF(
+        replace(replace(replace(lower(trim(p_query)), '\', '\\'), '%', '\%'), '_', '\_'),
+        ''
+    );
+    v_center GEOGRAPHY := CASE
+        WHEN p_user_lat IS NOT NULL AND p_user_lng IS NOT NULL THEN
+            ST_MakePoint(p_user_lng, p_user_lat)::geography
+    END;
+BEGIN
+    RETURN QUERY
+    SELECT
+        g.id,
+        g.name,
+        g.address,
+        g.city,
+        g.province,
+        g.postal_code,
+        g.phone,
+        g.website,
+        g.holes,
+        ST_Y(g.location::geometry),
+        ST_X(g.location::geometry),
+        CASE WHEN v_center IS NOT NULL THEN ST_Distance(g.location, v_center) / 1000 END,
+        (
+            SELECT COUNT(*) FROM listings l
+            WHERE l.golf_course_id = g.id AND l.is_active = true AND l.is_draft = false
+        ),
+        COUNT(*) OVER ()
+    FROM golf_courses g
+    WHERE (p_golf_course_id IS NULL OR g.id = p_golf_course_id)
+        AND (
+            v_query IS NULL
+            OR lower(g.name) LIKE '%' || v_query || '%'
+            OR lower(g.city) LIKE v_query || '%'
         )
-    ORDER BY distance_km NULLS LAST
+    ORDER BY
+        -- Names starting with the query first
+        CASE WHEN v_query IS NOT NULL THEN lower(g.name) NOT LIKE v_query || '%' END,
+        CASE WHEN v_center IS NOT NULL THEN ST_Distance(g.location, v_center) END,
+        g.name
     LIMIT p_limit
     OFFSET p_offset;
 END;
 $$ LANGUAGE plpgsql STABLE;
 
+-- Function to bulk upsert golf courses from an import.
+-- p_courses is a JSON array of {name, address, city, province, postal_code, latitude,
+-- longitude, phone, website, holes}. Courses are matched on name and city, so
+-- re-running an import updates courses instead of duplicating them.
+CREATE OR REPLACE FUNCTION import_golf_courses(p_courses JSONB, p_source TEXT)
+RETURNS TABLE (
+    inserted INTEGER,
+    updated INTEGER
+)
+SET search_path = public
+AS $$
+BEGIN
+    RETURN QUERY
+    WITH upserted AS (
+        INSERT INTO golf_courses (
+            name, address, city, province, postal_code, location, phone, website, holes, source
+        )
+        SELECT
+            c->>'name',
+            c->>'address',
+            c->>'city',
+            c->>'province',
+            c->>'postal_code',
+            ST_SetSRID(
+                ST_MakePoint((c->>'longitude')::FLOAT, (c->>'latitude')::FLOAT),
+                4326
+            )::geography,
+            c->>'phone',
+            c->>'website',
+            COALESCE((c->>'holes')::INTEGER, 18),
+            p_source
+        FROM jsonb_array_elements(p_courses) c
+        ON CONFLICT (lower(name), lower(city), province) DO UPDATE SET
+            address = EXCLUDED.address,
+            postal_code = COALESCE(EXCLUDED.postal_code, golf_courses.postal_code),
+            location = EXCLUDED.location,
+            phone = COALESCE(EXCLUDED.phone, golf_courses.phone),
+            website = COALESCE(EXCLUDED.website, golf_courses.website),
+            holes = EXCLUDED.holes,
+            updated_at = NOW()
+        RETURNING (xmax = 0) AS was_inserted
+    )
+    SELECT
+        COUNT(*) FILTER (WHERE u.was_inserted)::INTEGER,
+        COUNT(*) FILTER (WHERE NOT u.was_inserted)::INTEGER
+    FROM upserted u;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the backend (service role) may import courses
+REVOKE EXECUTE ON FUNCTION import_golf_courses(JSONB, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Function to set the order of a listing's photos. p_photo_ids must list every
+-- photo of the listing exactly once; the first becomes the primary photo.
+CREATE OR REPLACE FUNCTION set_listing_photo_order(p_listing_id UUID, p_photo_ids UUID[])
+RETURNS VOID
+SET search_path = public
+AS $$
+BEGIN
+    IF cardinality(p_photo_ids) <> (
+        SELECT COUNT(*) FROM listing_photos WHERE listing_id = p_listing_id
+    ) OR EXISTS (
+        SELECT 1 FROM listing_photos
+        WHERE listing_id = p_listing_id AND NOT (id = ANY(p_photo_ids))
+    ) THEN
+        RAISE EXCEPTION 'Photo order must list every photo of the listing exactly once'
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    UPDATE listing_photos p
+    SET position = o.ord - 1,
+        is_primary = (o.ord = 1)
+    FROM unnest(p_photo_ids) WITH ORDINALITY AS o(photo_id, ord)
+    WHERE p.id = o.photo_id
+        AND p.listing_id = p_listing_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the backend (service role) may reorder photos
+REVOKE EXECUTE ON FUNCTION set_listing_photo_order(UUID, UUID[]) FROM PUBLIC, anon, authenticated;
+
+-- Function to finish publishing a draft: moves its photos onto the listing made
+-- from it and deletes the draft, together, so a failure leaves neither a listing
+-- without photos nor a draft whose photos a listing also uses. p_version is the
+-- version the publish claimed; p_photos are listing_photos rows without listing_id.
+CREATE OR REPLACE FUNCTION publish_listing_draft(
+    p_draft_id UUID,
+    p_version INTEGER,
+    p_listing_id UUID,
+    p_photos JSONB
+)
+RETURNS SETOF listing_photos
+SET search_path = public
+AS $$
+BEGIN
+    DELETE FROM listing_drafts
+    WHERE id = p_draft_id
+        AND version = p_version;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'This draft was changed on another device'
+            USING ERRCODE = 'serialization_failure';
+    END IF;
+
+    RETURN QUERY
+    INSERT INTO listing_photos (
+        listing_id, url, cloudinary_public_id, position, is_primary, width, height,
+        phash, review_status, review_reasons
+    )
+    SELECT
+        p_listing_id, p.url, p.cloudinary_public_id, p.position, p.is_primary, p.width, p.height,
+        p.phash, p.review_status, p.review_reasons
+    FROM jsonb_populate_recordset(NULL::listing_photos, p_photos) p
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the backend (service role) may publish drafts
+REVOKE EXECUTE ON FUNCTION publish_listing_draft(UUID, INTEGER, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Function to find photos on other owners' listings whose perceptual hash is
+-- within p_max_distance bits of p_phash (identical or near-identical images).
+-- Only photos sharing a hash byte with p_phash are compared (phash_bands), which
+-- finds every match up to 7 bits apart.
+CREATE OR REPLACE FUNCTION find_similar_listing_photos(
+    p_phash TEXT,
+    p_owner_id UUID,
+    p_max_distance INTEGER DEFAULT 6
+)
+RETURNS TABLE (
+    photo_id UUID,
+    listing_id UUID,
+    distance INTEGER
+)
+SET search_path = public
+AS $$
+DECLARE
+    v_bands TEXT[] := ARRAY(
+        SELECT i || ':' || substr(p_phash, i * 2 + 1, 2)
+        FROM generate_series(0, 7) AS i
+    );
+BEGIN
+    IF p_max_distance > 7 THEN
+        RAISE EXCEPTION 'Hashes more than 7 bits apart may share no byte'
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    RETURN QUERY
+    SELECT *
+    FROM (
+        SELECT
+            p.id,
+            p.listing_id,
+            bit_count(('x' || p.phash)::BIT(64) # ('x' || p_phash)::BIT(64))::INTEGER AS hamming
+        FROM listing_photos p
+        JOIN listings l ON l.id = p.listing_id
+        WHERE p.phash_bands && v_bands
+            AND l.owner_id <> p_owner_id
+    ) matches
+    WHERE matches.hamming <= p_max_distance
+    ORDER BY matches.hamming
+    LIMIT 5;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Only the backend (service role) may compare photos across owners
+REVOKE EXECUTE ON FUNCTION find_similar_listing_photos(TEXT, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Function to queue a photo's Cloudinary asset for deletion when the photo is
+-- deleted (including when its listing is) or replaced
+CREATE OR REPLACE FUNCTION queue_listing_photo_deletion()
+RETURNS TRIGGER
+SET search_path = public
+AS $$
+BEGIN
+    IF OLD.cloudinary_public_id IS NOT NULL AND (
+        TG_OP = 'DELETE' OR OLD.cloudinary_public_id IS DISTINCT FROM NEW.cloudinary_public_id
+    ) THEN
+        INSERT INTO media_deletions (public_id)
+        VALUES (OLD.cloudinary_public_id)
+        ON CONFLICT (public_id) DO NOTHING;
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER listing_photos_queue_media_deletion
+    AFTER DELETE OR UPDATE OF cloudinary_public_id ON listing_photos
+    FOR EACH ROW EXECUTE FUNCTION queue_listing_photo_deletion();
+
+-- Record a listing's pricing terms when it's created and whenever they change
+CREATE OR REPLACE FUNCTION record_listing_price_change()
+RETURNS TRIGGER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' OR (
+        OLD.daily_rate, OLD.weekly_rate, OLD.security_deposit, OLD.delivery_fee, OLD.cancellation_policy
+    ) IS DISTINCT FROM (
+        NEW.daily_rate, NEW.weekly_rate, NEW.security_deposit, NEW.delivery_fee, NEW.cancellation_policy
+    ) THEN
+        INSERT INTO listing_price_history (
+            listing_id, daily_rate, weekly_rate, security_deposit, delivery_fee, cancellation_policy
+        )
+        VALUES (
+            NEW.id, NEW.daily_rate, NEW.weekly_rate, NEW.security_deposit, NEW.delivery_fee, NEW.cancellation_policy
+        );
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER listings_record_price_change
+    AFTER INSERT OR UPDATE OF daily_rate, weekly_rate, security_deposit, delivery_fee, cancellation_policy
+    ON listings
+    FOR EACH ROW EXECUTE FUNCTION record_listing_price_change();
+
+-- Snapshot a listing's details when it's created and whenever an owner-visible
+-- field changes. Status, counters and search columns don't make a new version.
+CREATE OR REPLACE FUNCTION record_listing_version()
+RETURNS TRIGGER
+SET search_path = public
+AS $$
+DECLARE
+    v_snapshot JSONB;
+    v_latest listing_versions;
+BEGIN
+    v_snapshot := (to_jsonb(NEW) - ARRAY[
+        'id', 'owner_id', 'location', 'serial_numbers', 'is_active', 'is_draft',
+        'view_count', 'favorite_count', 'booking_count', 'average_rating', 'total_reviews',
+        'calendar_feed_version', 'search_vector', 'search_text',
+        'created_at', 'updated_at', 'last_booked_at', 'published_at', 'saved_searches_checked_at',
+        'saved_search_alert_attempts'
+    ]) || jsonb_build_object(
+        'latitude', ST_Y(NEW.location::geometry),
+        'longitude', ST_X(NEW.location::geometry)
+    );
+
+    SELECT * INTO v_latest
+    FROM listing_versions
+    WHERE listing_id = NEW.id
+    ORDER BY version DESC
+    LIMIT 1;
+
+    IF v_latest.snapshot IS DISTINCT FROM v_snapshot THEN
+        INSERT INTO listing_versions (listing_id, version, snapshot)
+        VALUES (NEW.id, COALESCE(v_latest.version, 0) + 1, v_snapshot);
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER listings_record_version
+    AFTER INSERT OR UPDATE ON listings
+    FOR EACH ROW EXECUTE FUNCTION record_listing_version();
+
+-- Listing versions are the record renters and owners settle disputes with
+CREATE OR REPLACE FUNCTION reject_listing_version_update()
+RETURNS TRIGGER
+SET search_path = public
+AS $$
+BEGIN
+    RAISE EXCEPTION 'Listing versions can''t be changed';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER listing_versions_immutable
+    BEFORE UPDATE ON listing_versions
+    FOR EACH ROW EXECUTE FUNCTION reject_listing_version_update();
+
 -- ============================================================================
 -- SEED DATA - Sample Golf Courses in Canada
 -- ============================================================================
@@ -887,6 +2402,18 @@ INSERT INTO golf_courses (name, address, city, province, postal_code, location,
 ('Capilano Golf and Country Club', '420 Southborough Ave', 'West Vancouver', 'BC', 'V7S 1M2', ST_SetSRID(ST_MakePoint(-123.1500, 49.3333), 4326)::geography, '604-922-9331'),
 ('Royal Montreal Golf Club', '40 Chemin South Ridge', 'Île-Bizard', 'QC', 'H9C 1E8', ST_SetSRID(ST_MakePoint(-73.9000, 45.5167), 4326)::geography, '514-626-3639');
 
+INSERT INTO brand_aliases (alias, canonical) VALUES
+('tm', 'taylormade'),
+('taylor made', 'taylormade'),
+('scotty', 'titleist scotty cameron'),
+('scotty cameron', 'titleist scotty cameron'),
+('cally', 'callaway'),
+('odyssey', 'callaway odyssey'),
+('mizzy', 'mizuno'),
+('bstone', 'bridgestone'),
+('pxg', 'parsons xtreme golf'),
+('tour edge', 'tour edge exotics');
+
 -- ============================================================================
 -- COMMENTS
 -- ============================================================================
@@ -894,10 +2421,28 @@ INSERT INTO golf_courses (name, address, city, province, postal_code, location,
 COMMENT ON TABLE profiles IS 'User profiles extending Supabase auth.users';
 COMMENT ON TABLE golf_courses IS 'Directory of golf courses across Canada';
 COMMENT ON TABLE listings IS 'Equipment listings created by owners';
+COMMENT ON TABLE listing_drafts IS 'Partially completed listings, resumable on any device until published';
+COMMENT ON TABLE listing_price_history IS 'Pricing and cancellation terms each listing has offered over time';
+COMMENT ON TABLE listing_versions IS 'Immutable snapshots of listing details, referenced by the bookings made against them';
+COMMENT ON TABLE media_deletions IS 'Cloudinary assets waiting to be deleted after their photos were removed';
 COMMENT ON TABLE bookings IS 'Rental bookings and transactions';
 COMMENT ON TABLE messages IS 'Real-time chat messages between users';
 COMMENT ON TABLE reviews IS 'Reviews and ratings for listings and renters';
 COMMENT ON TABLE disputes IS 'Dispute resolution system for booking issues';
-
+COMMENT ON TABLE saved_searches IS 'Named listing searches that alert their owner about new matching listings';
+COMMENT ON TABLE golf_course_submissions IS 'User-suggested golf courses awaiting moderation';
+COMMENT ON TABLE brand_aliases IS 'Search synonyms mapping brand nicknames to canonical brand names';
+
+COMMENT ON FUNCTION find_similar_listing_photos IS 'Near-duplicate photos on other owners'' listings, by perceptual hash distance';
+COMMENT ON FUNCTION set_listing_photo_order IS 'Renumber a listing''s photos in the given order, first photo primary';
+COMMENT ON FUNCTION publish_listing_draft IS 'Move a published draft''s photos onto its listing and delete the draft in one transaction';
+COMMENT ON FUNCTION overdue_booking_requests IS 'Pending bookings past their listing''s response time commitment, for the expiry job';
+COMMENT ON FUNCTION block_listing_dates IS 'Owner-blocked dates, refused where an active booking holds them, under the listing''s row lock';
+COMMENT ON FUNCTION update_listing IS 'Owner edits to a listing, refusing pricing changes while confirmed or in-progress bookings depend on them';
+COMMENT ON FUNCTION suggest_listings IS 'Search-as-you-type suggestions grouped by brand, model, club type, city and golf course';
+COMMENT ON FUNCTION search_listing_facets IS 'Per-value match counts for the search filter sheet, each facet ignoring its own filter';
+COMMENT ON FUNCTION match_saved_searches IS 'Saved searches a newly published listing matches, for new-listing alerts';
+COMMENT ON FUNCTION search_listings_in_bounds IS 'Map search: listings or grid clusters inside a viewport, using the search_listings filters';
+COMMENT ON FUNCTION search_golf_courses IS 'Golf course picker: name/city search, nearest first, with listing counts';
 COMMENT ON FUNCTION search_listings IS 'Advanced search function with geospatial filtering and availability checking';
 COMMENT ON FUNCTION calculate_distance IS 'Calculate distance in kilometers between two lat/lng coordinates';
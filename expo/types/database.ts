@@ -153,9 +153,15 @@ export interface Database {
           booking_count: number
           average_rating: number
           total_reviews: number
+          calendar_feed_version: number
+          search_vector: string // Generated
+          search_text: string // Generated
           created_at: string
           updated_at: string
           last_booked_at: string | null
+          published_at: string | null
+          saved_searches_checked_at: string | null
+          saved_search_alert_attempts: number
         }
         Insert: {
           id?: string
@@ -199,6 +205,7 @@ export interface Database {
           special_instructions?: string | null
           is_active?: boolean
           is_draft?: boolean
+          published_at?: string | null
         }
         Update: {
           title?: string
@@ -210,23 +217,231 @@ export interface Database {
           handedness?: 'right' | 'left'
           flex?: 'extra_stiff' | 'stiff' | 'regular' | 'senior' | 'ladies'
           condition?: 'excellent' | 'very_good' | 'good' | 'fair'
+          serial_numbers?: string[] | null
+          includes_bag?: boolean
+          bag_type?: string | null
+          includes_balls?: boolean
+          ball_count?: number | null
+          accessories?: string[] | null
+          club_composition?: Json | null
           daily_rate?: number
           weekly_rate?: number | null
           security_deposit?: number
+          pickup_location_type?: string | null
+          golf_course_id?: string | null
+          location?: unknown // PostGIS geography, e.g. 'SRID=4326;POINT(lng lat)'
+          address?: string | null
+          city?: string
+          province?: string
+          neighborhood?: string | null
+          delivery_available?: boolean
+          delivery_fee?: number | null
+          max_delivery_distance_km?: number | null
+          minimum_rental_days?: number
+          maximum_rental_days?: number | null
+          advance_notice_days?: number
+          preparation_time_days?: number
+          instant_booking?: boolean
+          response_time_commitment_hours?: number
+          cancellation_policy?: 'flexible' | 'moderate' | 'strict'
+          special_instructions?: string | null
           is_active?: boolean
           is_draft?: boolean
+          calendar_feed_version?: number
+          published_at?: string | null
+          saved_searches_checked_at?: string | null
+          saved_search_alert_attempts?: number
+          updated_at?: string
+        }
+      }
+      listing_photos: {
+        Row: {
+          id: string
+          listing_id: string
+          url: string
+          cloudinary_public_id: string | null
+          position: number
+          is_primary: boolean | null
+          width: number | null
+          height: number | null
+          phash: string | null
+          phash_bands: string[] | null // Generated
+          review_status: 'approved' | 'flagged'
+          review_reasons: string[] | null
+          reviewed_by: string | null
+          reviewed_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          listing_id: string
+          url: string
+          cloudinary_public_id?: string | null
+          position?: number
+          is_primary?: boolean | null
+          width?: number | null
+          height?: number | null
+          phash?: string | null
+          review_status?: 'approved' | 'flagged'
+          review_reasons?: string[] | null
+        }
+        Update: {
+          url?: string
+          cloudinary_public_id?: string | null
+          position?: number
+          is_primary?: boolean | null
+          width?: number | null
+          height?: number | null
+          phash?: string | null
+          review_status?: 'approved' | 'flagged'
+          review_reasons?: string[] | null
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+        }
+      }
+      listing_drafts: {
+        Row: {
+          id: string
+          owner_id: string
+          fields: Json
+          photos: Json
+          current_step: string | null
+          version: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          owner_id: string
+          fields?: Json
+          photos?: Json
+          current_step?: string | null
+          version?: number
+        }
+        Update: {
+          fields?: Json
+          photos?: Json
+          current_step?: string | null
+          version?: number
           updated_at?: string
         }
       }
+      listing_price_history: {
+        Row: {
+          id: string
+          listing_id: string
+          daily_rate: number
+          weekly_rate: number | null
+          security_deposit: number | null
+          delivery_fee: number | null
+          cancellation_policy: 'flexible' | 'moderate' | 'strict' | null
+          effective_from: string
+        }
+        Insert: {
+          id?: string
+          listing_id: string
+          daily_rate: number
+          weekly_rate?: number | null
+          security_deposit?: number | null
+          delivery_fee?: number | null
+          cancellation_policy?: 'flexible' | 'moderate' | 'strict' | null
+          effective_from?: string
+        }
+        Update: {}
+      }
+      listing_versions: {
+        Row: {
+          id: string
+          listing_id: string
+          version: number
+          snapshot: Json
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          listing_id: string
+          version: number
+          snapshot: Json
+        }
+        Update: {}
+      }
+      availability_windows: {
+        Row: {
+          id: string
+          listing_id: string
+          start_date: string
+          end_date: string
+          is_blocked: boolean
+          reason: string | null
+          import_id: string | null
+          external_uid: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          listing_id: string
+          start_date: string
+          end_date: string
+          is_blocked?: boolean
+          reason?: string | null
+          import_id?: string | null
+          external_uid?: string | null
+        }
+        Update: {
+          start_date?: string
+          end_date?: string
+          is_blocked?: boolean
+          reason?: string | null
+        }
+      }
+      brand_aliases: {
+        Row: {
+          alias: string
+          canonical: string
+        }
+        Insert: {
+          alias: string
+          canonical: string
+        }
+        Update: {
+          canonical?: string
+        }
+      }
+      calendar_imports: {
+        Row: {
+          id: string
+          listing_id: string
+          name: string
+          source_url: string | null
+          last_synced_at: string | null
+          last_attempted_at: string | null
+          last_error: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          listing_id: string
+          name: string
+          source_url?: string | null
+        }
+        Update: {
+          name?: string
+          last_synced_at?: string | null
+          last_attempted_at?: string | null
+          last_error?: string | null
+        }
+      }
       bookings: {
         Row: {
           id: string
           listing_id: string
+          listing_version_id: string | null
           renter_id: string
           owner_id: string
           start_date: string
           end_date: string
           rental_days: number
+          buffer_days: number
           daily_rate: number
           total_rental_fee: number
           service_fee: number
@@ -238,6 +453,8 @@ export interface Database {
           deposit_released: boolean
           deposit_captured: boolean
           deposit_release_date: string | null
+          unsettled_steps: string[] | null
+          payment_status: 'pending' | 'succeeded' | 'failed' | 'refunded' | 'partially_refunded'
           status: 'pending' | 'confirmed' | 'in_progress' | 'completed' | 'cancelled' | 'declined'
           pickup_method: string | null
           pickup_address: string | null
@@ -245,22 +462,31 @@ export interface Database {
           pickup_instructions: string | null
           renter_message: string | null
           owner_decline_reason: string | null
+          cancellation_reason: string | null
+          pickup_reminder_sent_at: string | null
+          return_reminder_sent_at: string | null
+          review_reminder_sent_at: string | null
           renter_reviewed: boolean
           owner_reviewed: boolean
           created_at: string
           updated_at: string
           confirmed_at: string | null
+          declined_at: string | null
           cancelled_at: string | null
+          picked_up_at: string | null
+          returned_at: string | null
           completed_at: string | null
         }
         Insert: {
           id?: string
           listing_id: string
+          listing_version_id?: string | null
           renter_id: string
           owner_id: string
           start_date: string
           end_date: string
           rental_days: number
+          buffer_days?: number
           daily_rate: number
           total_rental_fee: number
           service_fee: number
@@ -278,14 +504,25 @@ export interface Database {
         }
         Update: {
           status?: 'pending' | 'confirmed' | 'in_progress' | 'completed' | 'cancelled' | 'declined'
+          stripe_payment_intent_id?: string | null
+          stripe_deposit_hold_id?: string | null
           deposit_released?: boolean
           deposit_captured?: boolean
           deposit_release_date?: string | null
+          unsettled_steps?: string[] | null
+          payment_status?: 'pending' | 'succeeded' | 'failed' | 'refunded' | 'partially_refunded'
           owner_decline_reason?: string | null
+          cancellation_reason?: string | null
+          pickup_reminder_sent_at?: string | null
+          return_reminder_sent_at?: string | null
+          review_reminder_sent_at?: string | null
           renter_reviewed?: boolean
           owner_reviewed?: boolean
           confirmed_at?: string | null
+          declined_at?: string | null
           cancelled_at?: string | null
+          picked_up_at?: string | null
+          returned_at?: string | null
           completed_at?: string | null
           updated_at?: string
         }
@@ -319,6 +556,7 @@ export interface Database {
           is_system_message?: boolean
         }
         Update: {
+          image_url?: string | null
           is_read?: boolean
           read_at?: string | null
           is_flagged?: boolean
@@ -379,6 +617,183 @@ export interface Database {
           published_at?: string | null
         }
       }
+      payments: {
+        Row: {
+          id: string
+          booking_id: string
+          user_id: string
+          amount: number
+          currency: string
+          payment_type: 'rental' | 'rental_void' | 'deposit_hold' | 'deposit_capture' | 'deposit_release' | 'refund' | 'payout'
+          stripe_payment_intent_id: string | null
+          stripe_charge_id: string | null
+          stripe_refund_id: string | null
+          stripe_transfer_id: string | null
+          status: 'pending' | 'succeeded' | 'failed' | 'refunded'
+          failure_reason: string | null
+          created_at: string
+          processed_at: string | null
+        }
+        Insert: {
+          id?: string
+          booking_id: string
+          user_id: string
+          amount: number
+          currency?: string
+          payment_type: 'rental' | 'rental_void' | 'deposit_hold' | 'deposit_capture' | 'deposit_release' | 'refund' | 'payout'
+          stripe_payment_intent_id?: string | null
+          stripe_charge_id?: string | null
+          stripe_refund_id?: string | null
+          stripe_transfer_id?: string | null
+          status: 'pending' | 'succeeded' | 'failed' | 'refunded'
+          failure_reason?: string | null
+          processed_at?: string | null
+        }
+        Update: {
+          stripe_charge_id?: string | null
+          status?: 'pending' | 'succeeded' | 'failed' | 'refunded'
+          failure_reason?: string | null
+          processed_at?: string | null
+        }
+      }
+      payouts: {
+        Row: {
+          id: string
+          booking_id: string
+          owner_id: string
+          amount: number
+          currency: string
+          status: 'pending' | 'on_hold' | 'processing' | 'paid' | 'failed'
+          eligible_at: string
+          attempts: number
+          failure_reason: string | null
+          stripe_transfer_id: string | null
+          created_at: string
+          updated_at: string
+          paid_at: string | null
+        }
+        Insert: {
+          id?: string
+          booking_id: string
+          owner_id: string
+          amount: number
+          currency?: string
+          status?: 'pending' | 'on_hold' | 'processing' | 'paid' | 'failed'
+          eligible_at: string
+        }
+        Update: {
+          amount?: number
+          status?: 'pending' | 'on_hold' | 'processing' | 'paid' | 'failed'
+          eligible_at?: string
+          attempts?: number
+          failure_reason?: string | null
+          stripe_transfer_id?: string | null
+          updated_at?: string
+          paid_at?: string | null
+        }
+      }
+      job_runs: {
+        Row: {
+          id: string
+          job_name: string
+          run_key: string
+          status: 'running' | 'succeeded' | 'failed'
+          result: Json | null
+          error: string | null
+          started_at: string
+          finished_at: string | null
+        }
+        Insert: {
+          id?: string
+          job_name: string
+          run_key: string
+          status?: 'running' | 'succeeded' | 'failed'
+        }
+        Update: {
+          status?: 'running' | 'succeeded' | 'failed'
+          result?: Json | null
+          error?: string | null
+          finished_at?: string | null
+        }
+      }
+      media_deletions: {
+        Row: {
+          public_id: string
+          attempts: number
+          last_error: string | null
+          created_at: string
+        }
+        Insert: {
+          public_id: string
+          attempts?: number
+          last_error?: string | null
+        }
+        Update: {
+          attempts?: number
+          last_error?: string | null
+        }
+      }
+      disputes: {
+        Row: {
+          id: string
+          booking_id: string
+          initiator_id: string
+          respondent_id: string
+          dispute_type: 'damage' | 'missing_equipment' | 'inaccurate_listing' | 'late_return' | 'no_show' | 'inappropriate_behavior'
+          description: string
+          evidence_urls: string[] | null
+          respondent_response: string | null
+          respondent_evidence_urls: string[] | null
+          responded_at: string | null
+          status: 'open' | 'under_review' | 'resolving' | 'resolved' | 'closed'
+          admin_notes: string | null
+          resolution: string | null
+          refund_amount: number | null
+          deposit_action: 'release' | 'capture' | 'partial_capture' | null
+          partial_capture_amount: number | null
+          refund_issued_at: string | null
+          settlement_error: string | null
+          appeal_submitted: boolean
+          appeal_text: string | null
+          appeal_decision: string | null
+          appealed_at: string | null
+          appeal_decided_at: string | null
+          created_at: string
+          updated_at: string
+          resolved_at: string | null
+        }
+        Insert: {
+          id?: string
+          booking_id: string
+          initiator_id: string
+          respondent_id: string
+          dispute_type: 'damage' | 'missing_equipment' | 'inaccurate_listing' | 'late_return' | 'no_show' | 'inappropriate_behavior'
+          description: string
+          evidence_urls?: string[] | null
+          status?: 'open' | 'under_review' | 'resolving' | 'resolved' | 'closed'
+        }
+        Update: {
+          evidence_urls?: string[] | null
+          respondent_response?: string | null
+          respondent_evidence_urls?: string[] | null
+          responded_at?: string | null
+          status?: 'open' | 'under_review' | 'resolving' | 'resolved' | 'closed'
+          admin_notes?: string | null
+          resolution?: string | null
+          refund_amount?: number | null
+          deposit_action?: 'release' | 'capture' | 'partial_capture' | null
+          partial_capture_amount?: number | null
+          refund_issued_at?: string | null
+          settlement_error?: string | null
+          appeal_submitted?: boolean
+          appeal_text?: string | null
+          appeal_decision?: string | null
+          appealed_at?: string | null
+          appeal_decided_at?: string | null
+          updated_at?: string
+          resolved_at?: string | null
+        }
+      }
       favorites: {
         Row: {
           id: string
@@ -393,6 +808,185 @@ export interface Database {
         }
         Update: {}
       }
+      notification_preferences: {
+        Row: {
+          id: string
+          user_id: string
+          push_enabled: boolean | null
+          email_enabled: boolean | null
+          sms_enabled: boolean | null
+          booking_notifications: boolean | null
+          message_notifications: boolean | null
+          review_notifications: boolean | null
+          payout_notifications: boolean | null
+          saved_search_notifications: boolean | null
+          marketing_notifications: boolean | null
+          dnd_enabled: boolean | null
+          dnd_start_hour: number | null
+          dnd_end_hour: number | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          push_enabled?: boolean | null
+          email_enabled?: boolean | null
+          sms_enabled?: boolean | null
+          booking_notifications?: boolean | null
+          message_notifications?: boolean | null
+          review_notifications?: boolean | null
+          payout_notifications?: boolean | null
+          saved_search_notifications?: boolean | null
+          marketing_notifications?: boolean | null
+          dnd_enabled?: boolean | null
+          dnd_start_hour?: number | null
+          dnd_end_hour?: number | null
+        }
+        Update: {
+          push_enabled?: boolean | null
+          email_enabled?: boolean | null
+          sms_enabled?: boolean | null
+          booking_notifications?: boolean | null
+          message_notifications?: boolean | null
+          review_notifications?: boolean | null
+          payout_notifications?: boolean | null
+          saved_search_notifications?: boolean | null
+          marketing_notifications?: boolean | null
+          dnd_enabled?: boolean | null
+          dnd_start_hour?: number | null
+          dnd_end_hour?: number | null
+          updated_at?: string | null
+        }
+      }
+      saved_searches: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          filters: Json
+          is_paused: boolean
+          last_notified_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          filters?: Json
+          is_paused?: boolean
+        }
+        Update: {
+          name?: string
+          filters?: Json
+          is_paused?: boolean
+          last_notified_at?: string | null
+          updated_at?: string
+        }
+      }
+      saved_search_alerts: {
+        Row: {
+          id: string
+          saved_search_id: string
+          listing_id: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          saved_search_id: string
+          listing_id: string
+        }
+        Update: {}
+      }
+      golf_courses: {
+        Row: {
+          id: string
+          name: string
+          address: string
+          city: string
+          province: string
+          postal_code: string | null
+          country: string | null
+          location: unknown // PostGIS geography
+          phone: string | null
+          website: string | null
+          holes: number | null
+          source: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          address: string
+          city: string
+          province: string
+          postal_code?: string | null
+          country?: string | null
+          location: unknown
+          phone?: string | null
+          website?: string | null
+          holes?: number | null
+          source?: string | null
+        }
+        Update: {
+          name?: string
+          address?: string
+          city?: string
+          province?: string
+          postal_code?: string | null
+          location?: unknown
+          phone?: string | null
+          website?: string | null
+          holes?: number | null
+          source?: string | null
+          updated_at?: string
+        }
+      }
+      golf_course_submissions: {
+        Row: {
+          id: string
+          submitted_by: string
+          name: string
+          address: string
+          city: string
+          province: string
+          postal_code: string | null
+          location: unknown // PostGIS geography
+          phone: string | null
+          website: string | null
+          holes: number | null
+          notes: string | null
+          status: 'pending' | 'approved' | 'rejected'
+          reviewed_by: string | null
+          reviewed_at: string | null
+          review_notes: string | null
+          golf_course_id: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          submitted_by: string
+          name: string
+          address: string
+          city: string
+          province: string
+          postal_code?: string | null
+          location: unknown
+          phone?: string | null
+          website?: string | null
+          holes?: number | null
+          notes?: string | null
+        }
+        Update: {
+          status?: 'pending' | 'approved' | 'rejected'
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          review_notes?: string | null
+          golf_course_id?: string | null
+        }
+      }
     }
     Views: {}
     Functions: {
@@ -406,18 +1000,229 @@ export interface Database {
           p_price_max?: number
           p_handedness?: string
           p_flex?: string[]
+          p_conditions?: string[]
           p_instant_booking?: boolean
           p_delivery_available?: boolean
+          p_brands?: string[]
+          p_models?: string[]
+          p_city?: string
+          p_province?: string
+          p_golf_course_id?: string
           p_start_date?: string
           p_end_date?: string
+          p_search_query?: string
+          p_sort_by?: 'relevance' | 'distance' | 'price_asc' | 'price_desc' | 'rating' | 'newest' | 'popular'
           p_limit?: number
           p_offset?: number
+          p_listing_ids?: string[]
+          p_sw_lat?: number
+          p_sw_lng?: number
+          p_ne_lat?: number
+          p_ne_lng?: number
         }
         Returns: {
           listing_id: string
-          distance_km: number
+          distance_km: number | null
+          latitude: number | null
+          longitude: number | null
+          total_count: number
+        }[]
+      }
+      search_listings_in_bounds: {
+        Args: {
+          p_sw_lat: number
+          p_sw_lng: number
+          p_ne_lat: number
+          p_ne_lng: number
+          p_zoom: number
+          p_club_types?: string[] | null
+          p_price_min?: number | null
+          p_price_max?: number | null
+          p_handedness?: string | null
+          p_flex?: string[] | null
+          p_conditions?: string[] | null
+          p_instant_booking?: boolean | null
+          p_delivery_available?: boolean | null
+          p_brands?: string[] | null
+          p_models?: string[] | null
+          p_city?: string | null
+          p_province?: string | null
+          p_golf_course_id?: string | null
+          p_start_date?: string | null
+          p_end_date?: string | null
+          p_search_query?: string | null
+          p_cluster_max_zoom?: number
+          p_max_listings?: number
+        }
+        Returns: {
+          listing_id: string | null
+          latitude: number
+          longitude: number
+          listing_count: number
+          min_daily_rate: number
+          total_count: number
+        }[]
+      }
+      search_listing_facets: {
+        Args: {
+          p_user_lat?: number | null
+          p_user_lng?: number | null
+          p_radius_km?: number
+          p_club_types?: string[] | null
+          p_price_min?: number | null
+          p_price_max?: number | null
+          p_handedness?: string | null
+          p_flex?: string[] | null
+          p_conditions?: string[] | null
+          p_instant_booking?: boolean | null
+          p_delivery_available?: boolean | null
+          p_brands?: string[] | null
+          p_models?: string[] | null
+          p_city?: string | null
+          p_province?: string | null
+          p_golf_course_id?: string | null
+          p_start_date?: string | null
+          p_end_date?: string | null
+          p_search_query?: string | null
+          p_brand_limit?: number
+        }
+        Returns: {
+          facet:
+            | 'club_type'
+            | 'flex'
+            | 'handedness'
+            | 'condition'
+            | 'brand'
+            | 'price'
+            | 'instant_booking'
+            | 'delivery_available'
+          value: string
+          listing_count: number
+        }[]
+      }
+      match_saved_searches: {
+        Args: {
+          p_listing_id: string
+        }
+        Returns: {
+          saved_search_id: string
+          user_id: string
+        }[]
+      }
+      suggest_listings: {
+        Args: {
+          p_prefix: string
+          p_limit?: number
+        }
+        Returns: {
+          kind: 'brand' | 'model' | 'club_type' | 'city' | 'golf_course'
+          value: string
+          label: string
+          detail: string | null
+          listing_count: number
         }[]
       }
+      build_search_tsquery: {
+        Args: {
+          p_query: string
+        }
+        Returns: string
+      }
+      search_golf_courses: {
+        Args: {
+          p_query?: string | null
+          p_user_lat?: number | null
+          p_user_lng?: number | null
+          p_golf_course_id?: string | null
+          p_limit?: number
+          p_offset?: number
+        }
+        Returns: {
+          id: string
+          name: string
+          address: string
+          city: string
+          province: string
+          postal_code: string | null
+          phone: string | null
+          website: string | null
+          holes: number | null
+          latitude: number
+          longitude: number
+          distance_km: number | null
+          listing_count: number
+          total_count: number
+        }[]
+      }
+      import_golf_courses: {
+        Args: {
+          p_courses: Json
+          p_source: string
+        }
+        Returns: {
+          inserted: number
+          updated: number
+        }[]
+      }
+      find_similar_listing_photos: {
+        Args: {
+          p_phash: string
+          p_owner_id: string
+          p_max_distance?: number
+        }
+        Returns: {
+          photo_id: string
+          listing_id: string
+          distance: number
+        }[]
+      }
+      set_listing_photo_order: {
+        Args: {
+          p_listing_id: string
+          p_photo_ids: string[]
+        }
+        Returns: undefined
+      }
+      publish_listing_draft: {
+        Args: {
+          p_draft_id: string
+          p_version: number
+          p_listing_id: string
+          p_photos: Json
+        }
+        Returns: Database['public']['Tables']['listing_photos']['Row'][]
+      }
+      reserve_booking: {
+        Args: {
+          p_booking: Json
+        }
+        Returns: Database['public']['Tables']['bookings']['Row']
+      }
+      update_listing: {
+        Args: {
+          p_listing_id: string
+          p_owner_id: string
+          p_updates: Json
+        }
+        Returns: Database['public']['Tables']['listings']['Row']
+      }
+      overdue_booking_requests: {
+        Args: {
+          p_now: string
+          p_limit: number
+        }
+        Returns: Database['public']['Tables']['bookings']['Row'][]
+      }
+      block_listing_dates: {
+        Args: {
+          p_listing_id: string
+          p_owner_id: string
+          p_start_date: string
+          p_end_date: string
+          p_reason: string
+        }
+        Returns: Database['public']['Tables']['availability_windows']['Row']
+      }
       calculate_distance: {
         Args: {
           lat1: number
@@ -1,74 +1,19 @@
-export type ClubType = "driver" | "fairway-wood" | "hybrid" | "iron-set" | "wedge-set" | "putter" | "complete-set";
+import type { ClubType, Flex, Handedness } from "@/lib/domain";
 
-export type Handedness = "right" | "left";
-
-export type Flex = "extra-stiff" | "stiff" | "regular" | "senior" | "ladies";
-
-export type ConditionType = "excellent" | "very-good" | "good" | "fair";
-
-export interface User {
-  id: string;
-  firstName: string;
-  lastName: string;
-  avatar?: string;
-  rating: number;
-  reviewCount: number;
-  verified: {
-    email: boolean;
-    phone: boolean;
-    id: boolean;
-    payment: boolean;
-  };
-  joinedDate: string;
-  location: string;
-}
-
-export interface Location {
-  id: string;
-  name: string;
-  address: string;
-  city: string;
-  province: string;
-  lat: number;
-  lng: number;
-  distance?: number;
-}
-
-export interface Listing {
-  id: string;
-  title: string;
-  description: string;
-  clubType: ClubType;
-  brand: string;
-  model?: string;
-  year?: number;
-  handedness: Handedness;
-  flex?: Flex;
-  condition: ConditionType;
-  photos: string[];
-  pricing: {
-    daily: number;
-    weekly?: number;
-    deposit: number;
-  };
-  location: Location;
-  owner: User;
-  rating: number;
-  reviewCount: number;
-  features: {
-    instantBooking: boolean;
-    deliveryAvailable: boolean;
-    bagIncluded: boolean;
-  };
-  availability: {
-    minDays: number;
-    maxDays: number;
-    advanceNotice: number;
-  };
-  whatsIncluded: string[];
-  createdAt: string;
-  isFavorite?: boolean;
-}
+// App types are inferred from the shared domain schemas, which the API also returns
+export type {
+  Booking,
+  BookingStatus,
+  ClubType,
+  ConditionType,
+  Flex,
+  Handedness,
+  Listing,
+  Location,
+  Profile,
+  Review,
+  User,
+} from "@/lib/domain";
 
 export interface SearchFilters {
   location?: string;